@@ -8,7 +8,8 @@ import {
   Trash2, Edit3, Copy, Search, FileText,
   Globe, AlertTriangle, Bug,
   CheckCircle, HardDrive,
-  RotateCcw, Zap, Wifi, X
+  RotateCcw, Zap, Wifi, X, Route, Plus, Split, Tag, History, Unlink, Upload,
+  LayoutList, ChevronUp, ChevronDown
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -23,8 +24,293 @@ interface LinkInterface {
   description?: string;
   expiresAt?: string;
   password?: string;
+  maxClicks?: number | null;
+  redirectRules?: RedirectRule[];
+  variants?: LinkVariant[];
+  bioPage?: BioPage | null;
+  tags?: string[];
+  domain?: string | null;
+  blockedReason?: string | null;
 }
 
+interface BlocklistRule {
+  id: number;
+  type: 'domain' | 'regex';
+  pattern: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface BlockedLink {
+  id: number;
+  shortCode: string;
+  domain: string | null;
+  originalUrl: string;
+  reason: string;
+  blockedAt: string;
+}
+
+interface BlockedAttempt {
+  id: number;
+  url: string;
+  provider: string;
+  reason: string;
+  ip: string | null;
+  createdAt: string;
+}
+
+interface BrokenLink {
+  id: number;
+  shortCode: string;
+  domain: string | null;
+  originalUrl: string;
+  statusCode: number | null;
+  responseTimeMs: number | null;
+  redirectChain: { status: number; url: string }[];
+  error: string | null;
+  brokenSince: string | null;
+  checkedAt: string;
+  onBroken: 'disable' | 'fallback' | null;
+  brokenFallbackUrl: string | null;
+}
+
+interface TrashedLink {
+  id: number;
+  shortCode: string;
+  domain: string | null;
+  originalUrl: string;
+  description: string | null;
+  clicks: number;
+  createdAt: string;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+interface ShortCodeSettings {
+  strategy: 'random' | 'pronounceable';
+  length: number;
+  alphabet: string;
+  effectiveLength: number;
+  collisionRate: number;
+}
+
+interface ImportRow {
+  row: number;
+  code: string | null;
+  domain: string | null;
+  destination: string | null;
+  errors: { code: string; message: string }[];
+  shortUrl?: string | null;
+}
+
+interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  imported: number;
+  rows: ImportRow[];
+}
+
+interface LinkHealthSummary {
+  checked: number;
+  broken: number;
+  lastCheckedAt: string | null;
+  running: boolean;
+}
+
+interface DomainSummary {
+  id: number;
+  hostname: string;
+  defaultUrl: string | null;
+  notFoundUrl: string | null;
+  isActive: boolean;
+  linkCount: number;
+}
+
+interface SearchSegment {
+  text: string;
+  match: boolean;
+}
+
+interface LinkSearchMatch {
+  id: number;
+  score: number;
+  tags: string[];
+  highlights: {
+    shortCode: SearchSegment[];
+    originalUrl: SearchSegment[];
+    description: SearchSegment[];
+    tags: SearchSegment[][];
+  };
+}
+
+interface TagSummary {
+  id: number;
+  name: string;
+  linkCount: number;
+}
+
+interface LinkVariant {
+  id?: string;
+  destination: string;
+  weight: number;
+}
+
+interface BioPageEntry {
+  id?: string;
+  label: string;
+  url: string;
+}
+
+interface BioPage {
+  title: string;
+  avatarUrl?: string | null;
+  entries: BioPageEntry[];
+}
+
+interface RedirectRuleTimeWindow {
+  start: string;
+  end: string;
+  days?: number[];
+  timezone?: string;
+}
+
+interface RedirectRule {
+  destination: string;
+  devices?: string[];
+  languages?: string[];
+  countries?: string[];
+  timeWindows?: RedirectRuleTimeWindow[];
+}
+
+// Form state for one rule; the editor covers a single time window per rule
+interface RedirectRuleDraft {
+  destination: string;
+  devices: string[];
+  languages: string;
+  countries: string;
+  start: string;
+  end: string;
+  days: number[];
+  timezone: string;
+  extraTimeWindows: RedirectRuleTimeWindow[];
+}
+
+type RevisionSnapshot = Record<string, unknown>;
+
+interface LinkRevision {
+  id: number;
+  snapshot: RevisionSnapshot;
+  changedFields: string[];
+  changedBy: string | null;
+  ipAddress: string | null;
+  revertedFrom: number | null;
+  createdAt: string;
+}
+
+const REVISION_FIELD_LABELS: Record<string, string> = {
+  originalUrl: 'Destination',
+  expiresAt: 'Expires',
+  activatesAt: 'Goes live',
+  maxClicks: 'Maximum uses',
+  customOptions: 'Options',
+  redirectRules: 'Redirect rules',
+  variants: 'A/B variants',
+  bioPage: 'Bio page',
+  description: 'Description'
+};
+
+const formatRevisionValue = (value: unknown) => {
+  if (value === null || value === undefined || (Array.isArray(value) && value.length === 0)) return '—';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+const DEVICE_TYPES = ['Mobile', 'Tablet', 'Desktop'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const parseJsonList = <T,>(value: unknown): T[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string' || !value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const parseBioPage = (value: unknown): BioPage | null => {
+  if (typeof value !== 'string' || !value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && Array.isArray(parsed.entries) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const isLinkExpired = (link: { expiresAt?: string | null }) =>
+  !!link.expiresAt && new Date(link.expiresAt) < new Date();
+
+// Text with the matches of a link search marked; plain text when there are no highlights
+const renderHighlight = (segments: SearchSegment[] | undefined, fallback: string) =>
+  segments && segments.length > 0
+    ? segments.map((segment, index) => (segment.match
+      ? <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">{segment.text}</mark>
+      : <React.Fragment key={index}>{segment.text}</React.Fragment>))
+    : fallback;
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const ruleToDraft = (rule: RedirectRule): RedirectRuleDraft => {
+  const [window, ...extraTimeWindows] = rule.timeWindows || [];
+  return {
+    destination: rule.destination || '',
+    devices: rule.devices || [],
+    languages: (rule.languages || []).join(', '),
+    countries: (rule.countries || []).join(', '),
+    start: window?.start || '',
+    end: window?.end || '',
+    days: window?.days || [],
+    timezone: window?.timezone || '',
+    extraTimeWindows
+  };
+};
+
+const draftToRule = (draft: RedirectRuleDraft): RedirectRule => {
+  const timeWindows = [...draft.extraTimeWindows];
+  if (draft.start && draft.end) {
+    timeWindows.unshift({
+      start: draft.start,
+      end: draft.end,
+      ...(draft.days.length > 0 ? { days: draft.days } : {}),
+      ...(draft.timezone.trim() ? { timezone: draft.timezone.trim() } : {})
+    });
+  }
+
+  return {
+    destination: draft.destination.trim(),
+    ...(draft.devices.length > 0 ? { devices: draft.devices } : {}),
+    ...(splitList(draft.languages).length > 0 ? { languages: splitList(draft.languages) } : {}),
+    ...(splitList(draft.countries).length > 0 ? { countries: splitList(draft.countries).map(code => code.toUpperCase()) } : {}),
+    ...(timeWindows.length > 0 ? { timeWindows } : {})
+  };
+};
+
+const emptyRuleDraft = (): RedirectRuleDraft => ({
+  destination: '',
+  devices: [],
+  languages: '',
+  countries: '',
+  start: '',
+  end: '',
+  days: [],
+  timezone: '',
+  extraTimeWindows: []
+});
+
 interface LogEntry {
   timestamp: string;
   level: 'info' | 'warn' | 'error' | 'debug';
@@ -96,7 +382,7 @@ const CleanAdminPanel: React.FC = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [token, setToken] = useState('');
   const [loading, setLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'links' | 'analytics' | 'system' | 'logs' | 'databases' | 'settings' | 'update' | 'bug-reports'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'links' | 'broken-links' | 'trash' | 'analytics' | 'system' | 'logs' | 'databases' | 'settings' | 'update' | 'bug-reports'>('dashboard');
   const [systemInfo, setSystemInfo] = useState<SystemInfo | null>(null);
   
   // Update management
@@ -123,12 +409,48 @@ const CleanAdminPanel: React.FC = () => {
   const [links, setLinks] = useState<LinkInterface[]>([]);
   const [filteredLinks, setFilteredLinks] = useState<LinkInterface[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortBy, setSortBy] = useState<'created' | 'clicks' | 'code'>('created');
+  const [sortBy, setSortBy] = useState<'relevance' | 'created' | 'clicks' | 'code'>('created');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [expiryFilter, setExpiryFilter] = useState<'all' | 'expired' | 'live'>('all');
+  // Ranked full-text matches by link id, in relevance order; null while no search runs
+  const [searchMatches, setSearchMatches] = useState<Map<string, LinkSearchMatch> | null>(null);
   const [selectedLinks, setSelectedLinks] = useState<string[]>([]);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [editingLink, setEditingLink] = useState<string | null>(null);
   const [editDescription, setEditDescription] = useState('');
+  const [editingRulesLink, setEditingRulesLink] = useState<LinkInterface | null>(null);
+  const [ruleDrafts, setRuleDrafts] = useState<RedirectRuleDraft[]>([]);
+  const [editingVariantsLink, setEditingVariantsLink] = useState<LinkInterface | null>(null);
+  const [variantDrafts, setVariantDrafts] = useState<LinkVariant[]>([]);
+  const [editingBioLink, setEditingBioLink] = useState<LinkInterface | null>(null);
+  const [bioDraft, setBioDraft] = useState<BioPage>({ title: '', avatarUrl: '', entries: [] });
+  const [tags, setTags] = useState<TagSummary[]>([]);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [editingTagsLink, setEditingTagsLink] = useState<LinkInterface | null>(null);
+  const [tagDraft, setTagDraft] = useState('');
+  const [historyLink, setHistoryLink] = useState<LinkInterface | null>(null);
+  const [revisions, setRevisions] = useState<LinkRevision[]>([]);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<number | null>(null);
+  const [destinationDraft, setDestinationDraft] = useState('');
+  const [domains, setDomains] = useState<DomainSummary[]>([]);
+  const [editingDomainId, setEditingDomainId] = useState<number | null>(null);
+  const [domainDraft, setDomainDraft] = useState({ hostname: '', defaultUrl: '', notFoundUrl: '' });
+  const [blocklistRules, setBlocklistRules] = useState<BlocklistRule[]>([]);
+  const [blockedLinks, setBlockedLinks] = useState<BlockedLink[]>([]);
+  const [blockedAttempts, setBlockedAttempts] = useState<BlockedAttempt[]>([]);
+  const [brokenLinks, setBrokenLinks] = useState<BrokenLink[]>([]);
+  const [trashedLinks, setTrashedLinks] = useState<TrashedLink[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null);
+  const [retentionDraft, setRetentionDraft] = useState('');
+  const [healthSummary, setHealthSummary] = useState<LinkHealthSummary | null>(null);
+  const [shortCodeSettings, setShortCodeSettings] = useState<ShortCodeSettings | null>(null);
+  const [shortCodeDraft, setShortCodeDraft] = useState({ strategy: 'random', length: '6', alphabet: '' });
+  const [showImport, setShowImport] = useState(false);
+  const [importFormat, setImportFormat] = useState<'csv' | 'json'>('csv');
+  const [importData, setImportData] = useState('');
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [blocklistDraft, setBlocklistDraft] = useState<{ type: 'domain' | 'regex'; pattern: string; reason: string }>({ type: 'domain', pattern: '', reason: '' });
   
   // Bug Reports
   const [bugReports, setBugReports] = useState<BugReport[]>([]);
@@ -204,15 +526,52 @@ const CleanAdminPanel: React.FC = () => {
     if (!isAuthenticated || !token) return;
 
     const interval = setInterval(() => {
-      // Don't auto-refresh if user is editing a link description
-      if (!editingLink) {
+      // Don't auto-refresh if user is editing a link description, its redirect rules, variants, bio page, tags or history, or importing
+      if (!editingLink && !editingRulesLink && !editingVariantsLink && !editingBioLink && !editingTagsLink && !historyLink && !showImport) {
         loadInitialData();
       }
     }, 15000); // 15 seconds
 
     return () => clearInterval(interval);
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isAuthenticated, token, editingLink]);
+  }, [isAuthenticated, token, editingLink, editingRulesLink, editingVariantsLink, editingBioLink, editingTagsLink, historyLink, showImport, selectedTag]);
+
+  // Reload links when a tag is picked in the sidebar
+  useEffect(() => {
+    if (!isAuthenticated || !token) return;
+    setSelectedLinks([]);
+    loadLinks();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedTag]);
+
+  // Ranked search on the server once the search term has two characters; reruns
+  // when the links reload so edits show up in the results
+  useEffect(() => {
+    if (!isAuthenticated || !token || searchTerm.trim().length < 2) {
+      setSearchMatches(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/admin/links/search?q=${encodeURIComponent(searchTerm)}&limit=500`, {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setSearchMatches(new Map((data.results as LinkSearchMatch[]).map(match => [match.id.toString(), match])));
+        } else {
+          // Queries without letters or numbers fall back to the plain text filter
+          setSearchMatches(null);
+        }
+      } catch (error) {
+        console.error('Error searching links:', error);
+        setSearchMatches(null);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [searchTerm, links, isAuthenticated, token]);
 
   // Filter and sort links when search term or sort options change
   useEffect(() => {
@@ -223,23 +582,43 @@ const CleanAdminPanel: React.FC = () => {
 
     let filtered = [...links];
     
-    if (searchTerm) {
+    if (searchTerm && searchMatches) {
+      filtered = filtered.filter(link => searchMatches.has(link._id));
+    } else if (searchTerm) {
       const searchLower = searchTerm.toLowerCase();
       filtered = filtered.filter(link => {
         const shortCode = (link.shortCode || '').toLowerCase();
         const originalUrl = (link.originalUrl || '').toLowerCase();
         const description = (link.description || '').toLowerCase();
+        const linkTags = (link.tags || []).map(tag => tag.toLowerCase());
         
         return shortCode.includes(searchLower) ||
                originalUrl.includes(searchLower) ||
-               description.includes(searchLower);
+               description.includes(searchLower) ||
+               linkTags.some(tag => tag.includes(searchLower));
       });
     }
+
+    if (expiryFilter !== 'all') {
+      filtered = filtered.filter(link => isLinkExpired(link) === (expiryFilter === 'expired'));
+    }
     
+    const rankedIds = searchTerm && searchMatches ? Array.from(searchMatches.keys()) : null;
+
     filtered.sort((a, b) => {
       let aValue: any, bValue: any;
       
       switch (sortBy) {
+        case 'relevance':
+          if (rankedIds) {
+            // Best match first when descending
+            aValue = -rankedIds.indexOf(a._id);
+            bValue = -rankedIds.indexOf(b._id);
+          } else {
+            aValue = new Date(a.createdAt || 0);
+            bValue = new Date(b.createdAt || 0);
+          }
+          break;
         case 'created':
           aValue = new Date(a.createdAt || 0);
           bValue = new Date(b.createdAt || 0);
@@ -265,7 +644,14 @@ const CleanAdminPanel: React.FC = () => {
     });
     
     setFilteredLinks(filtered);
-  }, [links, searchTerm, sortBy, sortOrder]);
+  }, [links, searchTerm, searchMatches, sortBy, sortOrder, expiryFilter]);
+
+  const getSearchMatch = (link: LinkInterface) => (searchTerm ? searchMatches?.get(link._id) : undefined);
+
+  const getTagHighlight = (link: LinkInterface, tag: string) => {
+    const match = getSearchMatch(link);
+    return match ? match.highlights.tags[match.tags.indexOf(tag)] : undefined;
+  };
 
   const loadInitialData = async () => {
     if (!token) return;
@@ -274,6 +660,10 @@ const CleanAdminPanel: React.FC = () => {
     try {
       await Promise.all([
         loadLinks(),
+        loadTags(),
+        loadDomains(),
+        loadBlocklist(),
+        loadShortCodeSettings(),
         loadStats(),
         loadSystemInfo(),
         loadAnalytics(),
@@ -296,6 +686,10 @@ const CleanAdminPanel: React.FC = () => {
     try {
       await Promise.all([
         loadLinks(),
+        loadTags(),
+        loadDomains(),
+        loadBlocklist(),
+        loadShortCodeSettings(),
         loadStats(),
         loadSystemInfo(),
         loadAnalytics(),
@@ -433,7 +827,8 @@ const CleanAdminPanel: React.FC = () => {
     if (!token) return;
     
     try {
-      const response = await fetch('/api/admin/links', {
+      const query = selectedTag ? `?tag=${encodeURIComponent(selectedTag)}` : '';
+      const response = await fetch(`/api/admin/links${query}`, {
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
@@ -455,7 +850,14 @@ const CleanAdminPanel: React.FC = () => {
             description: link.description || link.desc || '',
             lastClicked: link.last_clicked || link.lastClicked || link.lastAccessed || null,
             expiresAt: link.expires_at || link.expiresAt || link.expires || null,
-            password: link.password || null
+            password: link.password || null,
+            maxClicks: link.max_clicks ?? link.maxClicks ?? null,
+            redirectRules: parseJsonList<RedirectRule>(link.redirect_rules ?? link.redirectRules),
+            variants: parseJsonList<LinkVariant>(link.variants),
+            bioPage: parseBioPage(link.bio_page),
+            tags: Array.isArray(link.tags) ? link.tags : [],
+            domain: link.domain || null,
+            blockedReason: link.blocked_reason || null
           }));
           
           setLinks(validatedLinks);
@@ -476,6 +878,116 @@ const CleanAdminPanel: React.FC = () => {
     }
   };
 
+  const loadTags = async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/admin/tags', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setTags(Array.isArray(data) ? data : []);
+      }
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    }
+  };
+
+  const loadDomains = async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/admin/domains', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setDomains(Array.isArray(data) ? data : []);
+      }
+    } catch (error) {
+      console.error('Failed to load domains:', error);
+    }
+  };
+
+  const loadBlocklist = async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/admin/blocklist', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setBlocklistRules(Array.isArray(data.rules) ? data.rules : []);
+        setBlockedLinks(Array.isArray(data.blockedLinks) ? data.blockedLinks : []);
+        setBlockedAttempts(Array.isArray(data.rejections) ? data.rejections : []);
+      }
+    } catch (error) {
+      console.error('Failed to load blocklist:', error);
+    }
+  };
+
+  const loadShortCodeSettings = async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/admin/short-code-settings', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data: ShortCodeSettings = await response.json();
+        setShortCodeSettings(data);
+        // Only fill the form once, so the auto-refresh does not overwrite unsaved edits
+        setShortCodeDraft(prev => (prev.alphabet ? prev : { strategy: data.strategy, length: String(data.length), alphabet: data.alphabet }));
+      }
+    } catch (error) {
+      console.error('Failed to load short code settings:', error);
+    }
+  };
+
+  const saveShortCodeSettings = async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/admin/short-code-settings', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          strategy: shortCodeDraft.strategy,
+          length: Number(shortCodeDraft.length),
+          alphabet: shortCodeDraft.alphabet.trim()
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        toast.success('Short code settings saved');
+        setShortCodeSettings(data);
+      } else {
+        toast.error(data.error || `Failed to save short code settings: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to save short code settings:', error);
+      toast.error('Failed to save short code settings: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
   const loadAnalytics = async () => {
     if (!token) return;
     
@@ -717,18 +1229,11 @@ const CleanAdminPanel: React.FC = () => {
     }
   }, [token]);
 
-  // Check for updates when update tab is accessed
-  useEffect(() => {
-    if (activeTab === 'update' && token) {
-      checkForUpdates();
-    }
-  }, [activeTab, token, checkForUpdates]);
-
-  const loadSystemInfo = async () => {
+  const loadBrokenLinks = useCallback(async () => {
     if (!token) return;
-    
+
     try {
-      const response = await fetch('/api/admin/system', {
+      const response = await fetch('/api/admin/broken-links', {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
@@ -736,122 +1241,137 @@ const CleanAdminPanel: React.FC = () => {
 
       if (response.ok) {
         const data = await response.json();
-        setSystemInfo(data);
+        setBrokenLinks(Array.isArray(data.links) ? data.links : []);
+        setHealthSummary(data.summary || null);
       }
     } catch (error) {
-      console.error('Failed to load system info:', error);
+      console.error('Failed to load broken links:', error);
     }
-  };
+  }, [token]);
 
-  const exportData = async (type: 'links' | 'analytics') => {
+  const runHealthCheck = async () => {
     if (!token) return;
-    
+
     try {
-      const response = await fetch(`/api/admin/export/${type}`, {
+      const response = await fetch('/api/admin/broken-links/check', {
+        method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
         },
+        body: JSON.stringify({}),
       });
 
       if (response.ok) {
-        const blob = await response.blob();
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `velink-${type}-${new Date().toISOString().split('T')[0]}.csv`;
-        document.body.appendChild(a);
-        a.click();
-        window.URL.revokeObjectURL(url);
-        document.body.removeChild(a);
-        toast.success(`${type} data exported successfully`);
+        toast.success('Health check started. Results appear as links are checked.');
+        await loadBrokenLinks();
       } else {
-        toast.error(`Failed to export ${type} data`);
+        toast.error(`Failed to start health check: ${response.status}`);
       }
     } catch (error) {
-      console.error(`Failed to export ${type} data:`, error);
-      toast.error(`Failed to export ${type} data`);
+      console.error('Failed to start health check:', error);
+      toast.error('Failed to start health check: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   };
 
-  // Link management functions
-  const deleteLink = async (linkId: string) => {
-    if (!token || !linkId) {
-      toast.error('Missing token or link ID');
-      return;
-    }
-    
+  const recheckLink = async (link: BrokenLink) => {
+    if (!token) return;
+
     try {
-      setLoading(true);
-      const response = await fetch(`/api/admin/links/${linkId}`, {
-        method: 'DELETE',
+      const response = await fetch('/api/admin/broken-links/check', {
+        method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
+        body: JSON.stringify({ linkId: link.id }),
       });
 
       if (response.ok) {
-        toast.success('Link deleted successfully');
-        await loadLinks();
-        await loadStats();
+        const data = await response.json();
+        if (data.result && data.result.isBroken) {
+          toast.error(`${link.shortCode} is still broken`);
+        } else {
+          toast.success(`${link.shortCode} is reachable again`);
+        }
+        await loadBrokenLinks();
       } else {
-        const errorData = await response.text();
-        console.error('Delete failed:', errorData);
-        toast.error(`Failed to delete link: ${response.status} ${response.statusText}`);
+        toast.error(`Failed to check link: ${response.status}`);
       }
     } catch (error) {
-      console.error('Failed to delete link:', error);
-      toast.error('Failed to delete link: ' + (error instanceof Error ? error.message : 'Unknown error'));
-    } finally {
-      setShowDeleteConfirm(null);
-      setLoading(false);
+      console.error('Failed to check link:', error);
+      toast.error('Failed to check link: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   };
 
-  const deleteBulkLinks = async () => {
-    if (!token || selectedLinks.length === 0) {
-      toast.error('No links selected or missing token');
-      return;
+  const updateBrokenLinkAction = async (link: BrokenLink, onBroken: string) => {
+    if (!token) return;
+
+    let brokenFallbackUrl = link.brokenFallbackUrl;
+    if (onBroken === 'fallback') {
+      brokenFallbackUrl = window.prompt('Send visitors to this URL while the destination is down:', brokenFallbackUrl || 'https://');
+      if (!brokenFallbackUrl) return;
     }
-    
+
     try {
-      setLoading(true);
-      const response = await fetch('/api/admin/links/bulk', {
-        method: 'DELETE',
+      const response = await fetch(`/api/admin/links/${link.id}`, {
+        method: 'PATCH',
         headers: {
           'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
+          'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ linkIds: selectedLinks }),
+        body: JSON.stringify({
+          onBroken: onBroken || null,
+          brokenFallbackUrl: onBroken === 'fallback' ? brokenFallbackUrl : null
+        }),
       });
 
       if (response.ok) {
-        toast.success(`${selectedLinks.length} links deleted successfully`);
-        setSelectedLinks([]);
-        await loadLinks();
-        await loadStats();
+        toast.success('Broken link handling updated');
+        await loadBrokenLinks();
       } else {
-        const errorData = await response.text();
-        console.error('Bulk delete failed:', errorData);
-        toast.error(`Failed to delete links: ${response.status} ${response.statusText}`);
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || `Failed to update link: ${response.status}`);
       }
     } catch (error) {
-      console.error('Failed to delete links:', error);
-      toast.error('Failed to delete links: ' + (error instanceof Error ? error.message : 'Unknown error'));
-    } finally {
-      setLoading(false);
+      console.error('Failed to update link:', error);
+      toast.error('Failed to update link: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   };
 
-  const toggleLinkStatus = async (linkId: string) => {
-    if (!token || !linkId) {
-      toast.error('Missing token or link ID');
-      return;
+  useEffect(() => {
+    if (activeTab === 'broken-links' && token) {
+      loadBrokenLinks();
     }
-    
+  }, [activeTab, token, loadBrokenLinks]);
+
+  const loadTrash = useCallback(async () => {
+    if (!token) return;
+
     try {
-      const response = await fetch(`/api/admin/links/${linkId}/toggle`, {
-        method: 'PATCH',
+      const response = await fetch('/api/admin/trash', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setTrashedLinks(Array.isArray(data.links) ? data.links : []);
+        setTrashRetentionDays(data.retentionDays);
+        setRetentionDraft(draft => draft || String(data.retentionDays));
+      }
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    }
+  }, [token]);
+
+  const restoreTrashedLink = async (link: TrashedLink) => {
+    if (!token) return;
+
+    try {
+      const response = await fetch(`/api/admin/trash/${link.id}/restore`, {
+        method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
@@ -859,56 +1379,106 @@ const CleanAdminPanel: React.FC = () => {
       });
 
       if (response.ok) {
-        toast.success('Link status updated');
-        await loadLinks();
+        toast.success(`${link.shortCode} restored`);
+        await Promise.all([loadTrash(), loadLinks(), loadStats()]);
       } else {
-        const errorData = await response.text();
-        console.error('Toggle status failed:', errorData);
-        toast.error(`Failed to update link status: ${response.status} ${response.statusText}`);
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || `Failed to restore link: ${response.status}`);
       }
     } catch (error) {
-      console.error('Failed to update link status:', error);
-      toast.error('Failed to update link status: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      console.error('Failed to restore link:', error);
+      toast.error('Failed to restore link: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   };
 
-  const updateLinkDescription = async (linkId: string, description: string) => {
-    if (!token || !linkId) {
-      toast.error('Missing token or link ID');
-      return;
+  const purgeTrashedLink = async (link: TrashedLink) => {
+    if (!token) return;
+    if (!window.confirm(`Delete ${link.shortCode} for good? Its clicks and history are removed and the code becomes available again.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/trash/${link.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        toast.success(`${link.shortCode} permanently deleted`);
+        await loadTrash();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || `Failed to delete link: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to delete link:', error);
+      toast.error('Failed to delete link: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
-    
+  };
+
+  const saveTrashRetention = async () => {
+    if (!token) return;
+
     try {
-      const response = await fetch(`/api/admin/links/${linkId}`, {
-        method: 'PATCH',
+      const response = await fetch('/api/admin/trash-settings', {
+        method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
+          'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ description }),
+        body: JSON.stringify({ retentionDays: Number(retentionDraft) }),
       });
 
+      const data = await response.json().catch(() => ({}));
       if (response.ok) {
-        toast.success('Description updated');
-        setEditingLink(null);
-        setEditDescription('');
-        await loadLinks();
+        toast.success(`Links now stay in the trash for ${data.retentionDays} days`);
+        await loadTrash();
       } else {
-        const errorData = await response.text();
-        console.error('Update description failed:', errorData);
-        toast.error(`Failed to update description: ${response.status} ${response.statusText}`);
+        toast.error(data.error || `Failed to save retention: ${response.status}`);
       }
     } catch (error) {
-      console.error('Failed to update description:', error);
-      toast.error('Failed to update description: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      console.error('Failed to save retention:', error);
+      toast.error('Failed to save retention: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   };
 
-  const downloadLogs = async (date: string) => {
+  useEffect(() => {
+    if (activeTab === 'trash' && token) {
+      loadTrash();
+    }
+  }, [activeTab, token, loadTrash]);
+
+  // Check for updates when update tab is accessed
+  useEffect(() => {
+    if (activeTab === 'update' && token) {
+      checkForUpdates();
+    }
+  }, [activeTab, token, checkForUpdates]);
+
+  const loadSystemInfo = async () => {
     if (!token) return;
     
     try {
-      const response = await fetch(`/api/admin/logs/download?date=${date}`, {
+      const response = await fetch('/api/admin/system', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSystemInfo(data);
+      }
+    } catch (error) {
+      console.error('Failed to load system info:', error);
+    }
+  };
+
+  const exportData = async (type: 'links' | 'analytics') => {
+    if (!token) return;
+    
+    try {
+      const response = await fetch(`/api/admin/export/${type}`, {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
@@ -919,130 +1489,815 @@ const CleanAdminPanel: React.FC = () => {
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
-        a.download = `velink-logs-${date}.txt`;
+        a.download = `velink-${type}-${new Date().toISOString().split('T')[0]}.csv`;
         document.body.appendChild(a);
         a.click();
         window.URL.revokeObjectURL(url);
         document.body.removeChild(a);
-        toast.success('Logs downloaded successfully');
+        toast.success(`${type} data exported successfully`);
       } else {
-        toast.error('Failed to download logs');
+        toast.error(`Failed to export ${type} data`);
       }
     } catch (error) {
-      console.error('Failed to download logs:', error);
-      toast.error('Failed to download logs');
+      console.error(`Failed to export ${type} data:`, error);
+      toast.error(`Failed to export ${type} data`);
     }
   };
 
-  const copyToClipboard = (text: string) => {
-    navigator.clipboard.writeText(text);
-    toast.success('Copied to clipboard');
+  const loadImportFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      setImportFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+      setImportData(String(reader.result || ''));
+      setImportReport(null);
+    };
+    reader.readAsText(file);
   };
 
-  const logout = () => {
-    setIsAuthenticated(false);
-    setToken('');
-    setLinks([]);
-    setStats({
-      totalLinks: 0,
-      totalClicks: 0,
-      linksToday: 0,
-      clicksToday: 0,
-      topLinks: [],
-      recentActivity: []
-    });
-    localStorage.removeItem('velink-admin-token');
-    toast.success('Logged out successfully');
+  const closeImport = () => {
+    setShowImport(false);
+    setImportData('');
+    setImportReport(null);
   };
 
-  const formatUptime = (seconds: number) => {
-    const days = Math.floor(seconds / 86400);
-    const hours = Math.floor((seconds % 86400) / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    return `${days}d ${hours}h ${minutes}m`;
-  };
+  const runImport = async (dryRun: boolean) => {
+    if (!token || !importData.trim()) return;
 
-  const formatBytes = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+    try {
+      setImporting(true);
+      const response = await fetch('/api/admin/import', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ format: importFormat, data: importData, dryRun }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (data.rows) {
+        setImportReport(data);
+      }
+      if (response.ok && !dryRun) {
+        toast.success(`Imported ${data.imported} links`);
+        await Promise.all([loadLinks(), loadTags()]);
+      } else if (response.ok) {
+        toast.success(data.invalid > 0 ? `${data.invalid} of ${data.total} rows have errors` : `All ${data.total} rows are valid`);
+      } else {
+        toast.error(data.error || `Import failed: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to import links:', error);
+      toast.error('Failed to import links: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setImporting(false);
+    }
   };
 
-  // Login Form Component
-  if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 flex items-center justify-center p-6">
-        <motion.div 
-          initial={{ opacity: 0, scale: 0.9 }}
-          animate={{ opacity: 1, scale: 1 }}
-          className="bg-white/90 backdrop-blur-xl rounded-2xl p-12 shadow-xl border border-gray-200 max-w-md w-full"
-        >
-          <motion.div 
-            initial={{ y: -20, opacity: 0 }}
-            animate={{ y: 0, opacity: 1 }}
-            transition={{ delay: 0.2 }}
-            className="text-center mb-8"
-          >
-            <div className="inline-flex items-center justify-center w-20 h-20 bg-gradient-to-r from-primary-500 to-primary-600 rounded-2xl mb-6 shadow-lg">
-              <Shield className="w-10 h-10 text-white" />
-            </div>
-            <h1 className="text-3xl font-bold text-gray-900 mb-2">Velink Admin</h1>
-            <p className="text-gray-600">Enter your admin token to continue</p>
-          </motion.div>
-          
-          <form onSubmit={handleLogin} className="space-y-6">
-            <motion.div
-              initial={{ x: -20, opacity: 0 }}
-              animate={{ x: 0, opacity: 1 }}
-              transition={{ delay: 0.3 }}
-            >
-              <label className="block text-gray-700 text-sm font-medium mb-2">
-                Admin Token
-              </label>
-              <input
-                type="password"
-                value={token}
-                onChange={(e) => setToken(e.target.value)}
-                className="w-full px-4 py-3 bg-white/80 border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
-                placeholder="Enter your admin token"
-                required
-              />
-            </motion.div>
-            
-            <motion.button
-              type="submit"
-              initial={{ y: 20, opacity: 0 }}
-              animate={{ y: 0, opacity: 1 }}
-              transition={{ delay: 0.4 }}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              className="w-full bg-gradient-to-r from-primary-500 to-primary-600 text-white py-3 px-6 rounded-xl font-semibold hover:shadow-lg transform transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-primary-500"
-            >
-              Access Admin Panel
-            </motion.button>
-          </form>
-          
-          <motion.div 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.6 }}
-            className="mt-8 text-center text-gray-500 text-sm"
-          >
-            <p>Secure access required</p>
-          </motion.div>
-        </motion.div>
-      </div>
-    );
-  }
+  // Link management functions
+  const deleteLink = async (linkId: string) => {
+    if (!token || !linkId) {
+      toast.error('Missing token or link ID');
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/links/${linkId}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+      });
 
-  // Navigation Tabs
-  const navTabs = [
-    { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
-    { id: 'links', label: 'Links', icon: ExternalLink },
-    { id: 'analytics', label: 'Analytics', icon: TrendingUp },
-    { id: 'bug-reports', label: 'Bug Reports', icon: Bug },
+      if (response.ok) {
+        toast.success('Link moved to the trash');
+        await loadLinks();
+        await loadStats();
+      } else {
+        const errorData = await response.text();
+        console.error('Delete failed:', errorData);
+        toast.error(`Failed to delete link: ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Failed to delete link:', error);
+      toast.error('Failed to delete link: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setShowDeleteConfirm(null);
+      setLoading(false);
+    }
+  };
+
+  const deleteBulkLinks = async () => {
+    if (!token || selectedLinks.length === 0) {
+      toast.error('No links selected or missing token');
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/links/bulk', {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ linkIds: selectedLinks }),
+      });
+
+      if (response.ok) {
+        toast.success(`${selectedLinks.length} links moved to the trash`);
+        setSelectedLinks([]);
+        await loadLinks();
+        await loadStats();
+      } else {
+        const errorData = await response.text();
+        console.error('Bulk delete failed:', errorData);
+        toast.error(`Failed to delete links: ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Failed to delete links:', error);
+      toast.error('Failed to delete links: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleLinkStatus = async (linkId: string) => {
+    if (!token || !linkId) {
+      toast.error('Missing token or link ID');
+      return;
+    }
+    
+    try {
+      const response = await fetch(`/api/admin/links/${linkId}/toggle`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+      });
+
+      if (response.ok) {
+        toast.success('Link status updated');
+        await Promise.all([loadLinks(), loadBlocklist()]);
+      } else {
+        const errorData = await response.text();
+        console.error('Toggle status failed:', errorData);
+        toast.error(`Failed to update link status: ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Failed to update link status:', error);
+      toast.error('Failed to update link status: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const renewLink = async (link: LinkInterface) => {
+    if (!token) return;
+
+    const expiresIn = window.prompt(
+      isLinkExpired(link)
+        ? `Renew ${link.shortCode} for (1d, 7d, 30d, 365d or never):`
+        : `Extend ${link.shortCode} by (1d, 7d, 30d, 365d or never):`,
+      '30d'
+    );
+    if (!expiresIn) return;
+
+    try {
+      const response = await fetch(`/api/admin/links/${link._id}/renew`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ expiresIn: expiresIn.trim() }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (response.ok) {
+        toast.success(data.expiresAt ? `Link now expires ${new Date(data.expiresAt).toLocaleString()}` : 'Link no longer expires');
+        await loadLinks();
+      } else {
+        toast.error(data.error || `Failed to renew link: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to renew link:', error);
+      toast.error('Failed to renew link: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const openRedirectRules = (link: LinkInterface) => {
+    setEditingRulesLink(link);
+    setRuleDrafts((link.redirectRules || []).map(ruleToDraft));
+  };
+
+  const updateRuleDraft = (index: number, changes: Partial<RedirectRuleDraft>) => {
+    setRuleDrafts(drafts => drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const moveRuleDraft = (index: number, direction: -1 | 1) => {
+    setRuleDrafts(drafts => {
+      const target = index + direction;
+      if (target < 0 || target >= drafts.length) return drafts;
+      const next = [...drafts];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const saveRedirectRules = async () => {
+    if (!token || !editingRulesLink) return;
+
+    try {
+      const response = await fetch(`/api/admin/links/${editingRulesLink._id}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ redirectRules: ruleDrafts.map(draftToRule) }),
+      });
+
+      if (response.ok) {
+        toast.success('Redirect rules updated');
+        setEditingRulesLink(null);
+        setRuleDrafts([]);
+        await loadLinks();
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.error || `Failed to update redirect rules: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to update redirect rules:', error);
+      toast.error('Failed to update redirect rules: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const openVariants = (link: LinkInterface) => {
+    setEditingVariantsLink(link);
+    setVariantDrafts(link.variants && link.variants.length > 0
+      ? link.variants
+      : [{ destination: link.originalUrl, weight: 50 }, { destination: '', weight: 50 }]);
+  };
+
+  const saveVariants = async (variants: LinkVariant[]) => {
+    if (!token || !editingVariantsLink) return;
+
+    try {
+      const response = await fetch(`/api/admin/links/${editingVariantsLink._id}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ variants }),
+      });
+
+      if (response.ok) {
+        toast.success(variants.length > 0 ? 'A/B variants updated' : 'A/B test removed');
+        setEditingVariantsLink(null);
+        setVariantDrafts([]);
+        await loadLinks();
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.error || `Failed to update variants: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to update variants:', error);
+      toast.error('Failed to update variants: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const openBioPage = (link: LinkInterface) => {
+    setEditingBioLink(link);
+    setBioDraft(link.bioPage
+      ? { ...link.bioPage, avatarUrl: link.bioPage.avatarUrl || '' }
+      : { title: link.description || '', avatarUrl: '', entries: [{ label: '', url: link.originalUrl }] });
+  };
+
+  const moveBioEntry = (index: number, offset: number) => {
+    setBioDraft(draft => {
+      const entries = [...draft.entries];
+      const target = index + offset;
+      if (target < 0 || target >= entries.length) return draft;
+      [entries[index], entries[target]] = [entries[target], entries[index]];
+      return { ...draft, entries };
+    });
+  };
+
+  const saveBioPage = async (bioPage: BioPage | null) => {
+    if (!token || !editingBioLink) return;
+
+    try {
+      const response = await fetch(`/api/admin/links/${editingBioLink._id}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ bioPage: bioPage && { ...bioPage, avatarUrl: bioPage.avatarUrl || null } }),
+      });
+
+      if (response.ok) {
+        toast.success(bioPage ? 'Bio page updated' : 'Bio page removed');
+        setEditingBioLink(null);
+        await loadLinks();
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.error || `Failed to update bio page: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to update bio page:', error);
+      toast.error('Failed to update bio page: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const loadRevisions = async (link: LinkInterface) => {
+    if (!token) return;
+
+    try {
+      const response = await fetch(`/api/admin/links/${link._id}/revisions`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const list: LinkRevision[] = Array.isArray(data.revisions) ? data.revisions : [];
+        setRevisions(list);
+        setSelectedRevisionId(list.length > 0 ? list[0].id : null);
+        setDestinationDraft(typeof data.current?.originalUrl === 'string' ? data.current.originalUrl : link.originalUrl);
+      } else {
+        toast.error(`Failed to load history: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to load revisions:', error);
+      toast.error('Failed to load history: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const openHistory = (link: LinkInterface) => {
+    setHistoryLink(link);
+    setRevisions([]);
+    setSelectedRevisionId(null);
+    setDestinationDraft(link.originalUrl);
+    loadRevisions(link);
+  };
+
+  const saveDestination = async () => {
+    if (!token || !historyLink) return;
+
+    try {
+      const response = await fetch(`/api/admin/links/${historyLink._id}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ originalUrl: destinationDraft.trim() }),
+      });
+
+      if (response.ok) {
+        toast.success('Destination updated');
+        await Promise.all([loadRevisions(historyLink), loadLinks()]);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.error || `Failed to update destination: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to update destination:', error);
+      toast.error('Failed to update destination: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const revertToRevision = async (revision: LinkRevision) => {
+    if (!token || !historyLink) return;
+
+    try {
+      const response = await fetch(`/api/admin/links/${historyLink._id}/revisions/${revision.id}/revert`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        toast.success(`Restored revision #${revision.id}`);
+        await Promise.all([loadRevisions(historyLink), loadLinks()]);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.error || `Failed to restore revision: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to revert link:', error);
+      toast.error('Failed to restore revision: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const selectedRevisionIndex = revisions.findIndex(revision => revision.id === selectedRevisionId);
+  const selectedRevision = selectedRevisionIndex >= 0 ? revisions[selectedRevisionIndex] : null;
+  // Revisions are newest first, so the state before the selected one is the next entry
+  const previousRevision = selectedRevisionIndex >= 0 ? revisions[selectedRevisionIndex + 1] : undefined;
+
+  const openTags = (link: LinkInterface) => {
+    setEditingTagsLink(link);
+    setTagDraft((link.tags || []).join(', '));
+  };
+
+  const saveTags = async () => {
+    if (!token || !editingTagsLink) return;
+
+    const linkTags = tagDraft.split(',').map(tag => tag.trim()).filter(Boolean);
+
+    try {
+      const response = await fetch(`/api/admin/links/${editingTagsLink._id}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ tags: linkTags }),
+      });
+
+      if (response.ok) {
+        toast.success('Tags updated');
+        setEditingTagsLink(null);
+        setTagDraft('');
+        await Promise.all([loadLinks(), loadTags()]);
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast.error(errorData.error || `Failed to update tags: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      toast.error('Failed to update tags: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const deleteTag = async (tag: TagSummary) => {
+    if (!token) return;
+    if (!window.confirm(`Delete the tag "${tag.name}"? The links themselves are not deleted.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/tags/${tag.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        toast.success('Tag deleted');
+        if (selectedTag === tag.name) {
+          setSelectedTag(null);
+        } else {
+          await loadLinks();
+        }
+        await loadTags();
+      } else {
+        toast.error(`Failed to delete tag: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
+      toast.error('Failed to delete tag: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const resetDomainDraft = () => {
+    setEditingDomainId(null);
+    setDomainDraft({ hostname: '', defaultUrl: '', notFoundUrl: '' });
+  };
+
+  const editDomain = (domain: DomainSummary) => {
+    setEditingDomainId(domain.id);
+    setDomainDraft({
+      hostname: domain.hostname,
+      defaultUrl: domain.defaultUrl || '',
+      notFoundUrl: domain.notFoundUrl || ''
+    });
+  };
+
+  const saveDomain = async () => {
+    if (!token) return;
+    if (!editingDomainId && !domainDraft.hostname.trim()) {
+      toast.error('Please enter a hostname');
+      return;
+    }
+
+    try {
+      const response = await fetch(editingDomainId ? `/api/admin/domains/${editingDomainId}` : '/api/admin/domains', {
+        method: editingDomainId ? 'PATCH' : 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...(editingDomainId ? {} : { hostname: domainDraft.hostname.trim() }),
+          defaultUrl: domainDraft.defaultUrl.trim() || null,
+          notFoundUrl: domainDraft.notFoundUrl.trim() || null
+        }),
+      });
+
+      if (response.ok) {
+        toast.success(editingDomainId ? 'Domain updated' : 'Domain added');
+        resetDomainDraft();
+        await loadDomains();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || `Failed to save domain: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to save domain:', error);
+      toast.error('Failed to save domain: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const toggleDomain = async (domain: DomainSummary) => {
+    if (!token) return;
+
+    try {
+      const response = await fetch(`/api/admin/domains/${domain.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ isActive: !domain.isActive }),
+      });
+
+      if (response.ok) {
+        await loadDomains();
+      } else {
+        toast.error(`Failed to update domain: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to update domain:', error);
+      toast.error('Failed to update domain: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const deleteDomain = async (domain: DomainSummary) => {
+    if (!token) return;
+    if (!window.confirm(`Remove the domain "${domain.hostname}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/domains/${domain.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        toast.success('Domain removed');
+        if (editingDomainId === domain.id) {
+          resetDomainDraft();
+        }
+        await loadDomains();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || `Failed to remove domain: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to remove domain:', error);
+      toast.error('Failed to remove domain: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const addBlocklistRule = async () => {
+    if (!token) return;
+    if (!blocklistDraft.pattern.trim()) {
+      toast.error('Please enter a domain or pattern');
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/admin/blocklist', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          type: blocklistDraft.type,
+          pattern: blocklistDraft.pattern.trim(),
+          reason: blocklistDraft.reason.trim()
+        }),
+      });
+
+      if (response.ok) {
+        toast.success('Blocklist rule added');
+        setBlocklistDraft(prev => ({ ...prev, pattern: '', reason: '' }));
+        await loadBlocklist();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || `Failed to add rule: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to add blocklist rule:', error);
+      toast.error('Failed to add rule: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const deleteBlocklistRule = async (rule: BlocklistRule) => {
+    if (!token) return;
+    if (!window.confirm(`Remove the blocklist rule "${rule.pattern}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/blocklist/${rule.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        toast.success('Blocklist rule removed');
+        await loadBlocklist();
+      } else {
+        toast.error(`Failed to remove rule: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Failed to remove blocklist rule:', error);
+      toast.error('Failed to remove rule: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const updateLinkDescription = async (linkId: string, description: string) => {
+    if (!token || !linkId) {
+      toast.error('Missing token or link ID');
+      return;
+    }
+    
+    try {
+      const response = await fetch(`/api/admin/links/${linkId}`, {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ description }),
+      });
+
+      if (response.ok) {
+        toast.success('Description updated');
+        setEditingLink(null);
+        setEditDescription('');
+        await loadLinks();
+      } else {
+        const errorData = await response.text();
+        console.error('Update description failed:', errorData);
+        toast.error(`Failed to update description: ${response.status} ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Failed to update description:', error);
+      toast.error('Failed to update description: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const downloadLogs = async (date: string) => {
+    if (!token) return;
+    
+    try {
+      const response = await fetch(`/api/admin/logs/download?date=${date}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `velink-logs-${date}.txt`;
+        document.body.appendChild(a);
+        a.click();
+        window.URL.revokeObjectURL(url);
+        document.body.removeChild(a);
+        toast.success('Logs downloaded successfully');
+      } else {
+        toast.error('Failed to download logs');
+      }
+    } catch (error) {
+      console.error('Failed to download logs:', error);
+      toast.error('Failed to download logs');
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast.success('Copied to clipboard');
+  };
+
+  const logout = () => {
+    setIsAuthenticated(false);
+    setToken('');
+    setLinks([]);
+    setStats({
+      totalLinks: 0,
+      totalClicks: 0,
+      linksToday: 0,
+      clicksToday: 0,
+      topLinks: [],
+      recentActivity: []
+    });
+    localStorage.removeItem('velink-admin-token');
+    toast.success('Logged out successfully');
+  };
+
+  const formatUptime = (seconds: number) => {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return `${days}d ${hours}h ${minutes}m`;
+  };
+
+  const formatBytes = (bytes: number) => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  // Login Form Component
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 flex items-center justify-center p-6">
+        <motion.div 
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="bg-white/90 backdrop-blur-xl rounded-2xl p-12 shadow-xl border border-gray-200 max-w-md w-full"
+        >
+          <motion.div 
+            initial={{ y: -20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 0.2 }}
+            className="text-center mb-8"
+          >
+            <div className="inline-flex items-center justify-center w-20 h-20 bg-gradient-to-r from-primary-500 to-primary-600 rounded-2xl mb-6 shadow-lg">
+              <Shield className="w-10 h-10 text-white" />
+            </div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Velink Admin</h1>
+            <p className="text-gray-600">Enter your admin token to continue</p>
+          </motion.div>
+          
+          <form onSubmit={handleLogin} className="space-y-6">
+            <motion.div
+              initial={{ x: -20, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              transition={{ delay: 0.3 }}
+            >
+              <label className="block text-gray-700 text-sm font-medium mb-2">
+                Admin Token
+              </label>
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                className="w-full px-4 py-3 bg-white/80 border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent transition-all duration-200"
+                placeholder="Enter your admin token"
+                required
+              />
+            </motion.div>
+            
+            <motion.button
+              type="submit"
+              initial={{ y: 20, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              transition={{ delay: 0.4 }}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className="w-full bg-gradient-to-r from-primary-500 to-primary-600 text-white py-3 px-6 rounded-xl font-semibold hover:shadow-lg transform transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              Access Admin Panel
+            </motion.button>
+          </form>
+          
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.6 }}
+            className="mt-8 text-center text-gray-500 text-sm"
+          >
+            <p>Secure access required</p>
+          </motion.div>
+        </motion.div>
+      </div>
+    );
+  }
+
+  // Navigation Tabs
+  const navTabs = [
+    { id: 'dashboard', label: 'Dashboard', icon: BarChart3 },
+    { id: 'links', label: 'Links', icon: ExternalLink },
+    { id: 'broken-links', label: 'Broken Links', icon: Unlink },
+    { id: 'trash', label: 'Trash', icon: Trash2 },
+    { id: 'analytics', label: 'Analytics', icon: TrendingUp },
+    { id: 'bug-reports', label: 'Bug Reports', icon: Bug },
     { id: 'system', label: 'System', icon: Activity },
     { id: 'logs', label: 'Logs', icon: Terminal },
     { id: 'databases', label: 'Database', icon: Database },
@@ -1388,6 +2643,507 @@ const CleanAdminPanel: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            {/* Custom Domains */}
+            <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 shadow-lg">
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Custom Domains</h2>
+              <p className="text-gray-600 text-sm mb-6">
+                Branded hostnames pointing at this server. Each domain has its own short codes; its root and unknown codes can redirect to pages of your choice.
+              </p>
+
+              <div className="space-y-3 mb-6">
+                {domains.length === 0 ? (
+                  <p className="text-sm text-gray-500">No custom domains yet. Links are created on the primary domain.</p>
+                ) : (
+                  domains.map(domain => (
+                    <div key={domain.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl border border-gray-200">
+                      <div className="flex items-center space-x-3 min-w-0">
+                        <Globe className={`w-6 h-6 flex-shrink-0 ${domain.isActive ? 'text-primary-500' : 'text-gray-400'}`} />
+                        <div className="min-w-0">
+                          <h3 className="text-gray-900 font-medium font-mono">{domain.hostname}</h3>
+                          <p className="text-gray-600 text-xs truncate">
+                            {domain.linkCount} {domain.linkCount === 1 ? 'link' : 'links'}
+                            {' · '}root: {domain.defaultUrl || 'Velink home page'}
+                            {' · '}unknown codes: {domain.notFoundUrl || 'standard 404 page'}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <button
+                          onClick={() => toggleDomain(domain)}
+                          className={`px-3 py-1 rounded-full text-sm font-medium border ${
+                            domain.isActive
+                              ? 'bg-green-50 text-green-600 border-green-200 hover:bg-green-100'
+                              : 'bg-red-50 text-red-600 border-red-200 hover:bg-red-100'
+                          }`}
+                        >
+                          {domain.isActive ? 'Active' : 'Inactive'}
+                        </button>
+                        <button
+                          onClick={() => editDomain(domain)}
+                          className="text-primary-500 hover:text-primary-600"
+                          title="Edit domain"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => deleteDomain(domain)}
+                          className="text-red-500 hover:text-red-600 disabled:opacity-40"
+                          title={domain.linkCount > 0 ? 'Domains with links cannot be removed' : 'Remove domain'}
+                          disabled={domain.linkCount > 0}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+                <h3 className="text-gray-900 font-medium">{editingDomainId ? `Edit ${domainDraft.hostname}` : 'Add domain'}</h3>
+                {!editingDomainId && (
+                  <input
+                    type="text"
+                    value={domainDraft.hostname}
+                    onChange={(e) => setDomainDraft(prev => ({ ...prev, hostname: e.target.value }))}
+                    placeholder="go.example.com"
+                    className="w-full px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                )}
+                <input
+                  type="url"
+                  value={domainDraft.defaultUrl}
+                  onChange={(e) => setDomainDraft(prev => ({ ...prev, defaultUrl: e.target.value }))}
+                  placeholder="Root redirect, e.g. https://example.com (optional)"
+                  className="w-full px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <input
+                  type="url"
+                  value={domainDraft.notFoundUrl}
+                  onChange={(e) => setDomainDraft(prev => ({ ...prev, notFoundUrl: e.target.value }))}
+                  placeholder="Redirect for unknown codes, e.g. https://example.com/404 (optional)"
+                  className="w-full px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <div className="flex justify-end space-x-2">
+                  {editingDomainId && (
+                    <button
+                      onClick={resetDomainDraft}
+                      className="px-4 py-2 text-gray-600 hover:text-gray-800"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={saveDomain}
+                    className="px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 border border-primary-200 rounded-xl transition-all duration-200 flex items-center"
+                  >
+                    {editingDomainId ? <Save className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+                    {editingDomainId ? 'Save' : 'Add domain'}
+                  </motion.button>
+                </div>
+              </div>
+            </div>
+
+            {/* Short Codes */}
+            <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 shadow-lg">
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Short Codes</h2>
+              <p className="text-gray-600 text-sm mb-6">
+                How codes are generated for links without a custom alias. Codes containing offensive words are skipped, and the length grows by
+                itself when new codes keep colliding with existing ones. Existing links keep their codes.
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Strategy</label>
+                  <select
+                    value={shortCodeDraft.strategy}
+                    onChange={(e) => setShortCodeDraft(prev => ({ ...prev, strategy: e.target.value }))}
+                    className="w-full px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="random">Random characters</option>
+                    <option value="pronounceable">Pronounceable words</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Length</label>
+                  <input
+                    type="number"
+                    min={4}
+                    max={32}
+                    value={shortCodeDraft.length}
+                    onChange={(e) => setShortCodeDraft(prev => ({ ...prev, length: e.target.value }))}
+                    className="w-full px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Alphabet</label>
+                  <input
+                    type="text"
+                    value={shortCodeDraft.alphabet}
+                    onChange={(e) => setShortCodeDraft(prev => ({ ...prev, alphabet: e.target.value }))}
+                    disabled={shortCodeDraft.strategy === 'pronounceable'}
+                    className="w-full px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100 disabled:text-gray-400"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between mt-4">
+                <p className="text-xs text-gray-500">
+                  {shortCodeSettings && (
+                    <>
+                      New codes currently have {shortCodeSettings.effectiveLength} characters
+                      {shortCodeSettings.effectiveLength > shortCodeSettings.length && ' (grown because of collisions)'}.
+                      Recent collision rate: {Math.round(shortCodeSettings.collisionRate * 100)}%.
+                    </>
+                  )}
+                </p>
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={saveShortCodeSettings}
+                  className="px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 border border-primary-200 rounded-xl transition-all duration-200 flex items-center"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  Save
+                </motion.button>
+              </div>
+            </div>
+
+            {/* Destination Blocklist */}
+            <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 shadow-lg">
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Destination Blocklist</h2>
+              <p className="text-gray-600 text-sm mb-6">
+                New links pointing at a blocked destination are rejected. Existing links are disabled the next time they are opened; re-enable them from the links tab once the rule is gone.
+              </p>
+
+              <div className="space-y-3 mb-6">
+                {blocklistRules.length === 0 ? (
+                  <p className="text-sm text-gray-500">No blocklist rules yet.</p>
+                ) : (
+                  blocklistRules.map(rule => (
+                    <div key={rule.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-xl border border-gray-200">
+                      <div className="min-w-0">
+                        <h3 className="text-gray-900 font-medium font-mono truncate">
+                          <span className="mr-2 px-2 py-0.5 rounded-full bg-gray-200 text-gray-600 text-xs font-sans">{rule.type}</span>
+                          {rule.pattern}
+                        </h3>
+                        {rule.reason && <p className="text-gray-600 text-xs truncate">{rule.reason}</p>}
+                      </div>
+                      <button
+                        onClick={() => deleteBlocklistRule(rule)}
+                        className="text-red-500 hover:text-red-600 flex-shrink-0 ml-3"
+                        title="Remove rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3 mb-6">
+                <h3 className="text-gray-900 font-medium">Add rule</h3>
+                <div className="flex space-x-2">
+                  <select
+                    value={blocklistDraft.type}
+                    onChange={(e) => setBlocklistDraft(prev => ({ ...prev, type: e.target.value as 'domain' | 'regex' }))}
+                    className="px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="domain">Domain</option>
+                    <option value="regex">Regex</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={blocklistDraft.pattern}
+                    onChange={(e) => setBlocklistDraft(prev => ({ ...prev, pattern: e.target.value }))}
+                    placeholder={blocklistDraft.type === 'domain' ? 'malware.example (subdomains included)' : 'e.g. /wp-login\\.php'}
+                    className="flex-1 px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 font-mono focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
+                <input
+                  type="text"
+                  value={blocklistDraft.reason}
+                  onChange={(e) => setBlocklistDraft(prev => ({ ...prev, reason: e.target.value }))}
+                  placeholder="Reason shown to admins and link creators (optional)"
+                  className="w-full px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <div className="flex justify-end">
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={addBlocklistRule}
+                    className="px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 border border-primary-200 rounded-xl transition-all duration-200 flex items-center"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add rule
+                  </motion.button>
+                </div>
+              </div>
+
+              <h3 className="text-gray-900 font-medium mb-3">Disabled links</h3>
+              <div className="space-y-2 mb-6">
+                {blockedLinks.length === 0 ? (
+                  <p className="text-sm text-gray-500">No links have been disabled by screening.</p>
+                ) : (
+                  blockedLinks.map(link => (
+                    <div key={link.id} className="p-3 bg-red-50 rounded-xl border border-red-200 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono text-gray-900">
+                          {link.domain && <span className="text-gray-500">{link.domain}/</span>}
+                          {link.shortCode}
+                        </span>
+                        <span className="text-xs text-gray-500">{new Date(link.blockedAt).toLocaleString()}</span>
+                      </div>
+                      <p className="text-gray-600 truncate" title={link.originalUrl}>{link.originalUrl}</p>
+                      <p className="text-red-600 text-xs">{link.reason}</p>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <h3 className="text-gray-900 font-medium mb-3">Recently rejected destinations</h3>
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {blockedAttempts.length === 0 ? (
+                  <p className="text-sm text-gray-500">No rejected destinations.</p>
+                ) : (
+                  blockedAttempts.map(attempt => (
+                    <div key={attempt.id} className="p-3 bg-gray-50 rounded-xl border border-gray-200 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-gray-900 truncate" title={attempt.url}>{attempt.url}</span>
+                        <span className="text-xs text-gray-500 flex-shrink-0 ml-3">{new Date(attempt.createdAt).toLocaleString()}</span>
+                      </div>
+                      <p className="text-gray-600 text-xs">
+                        {attempt.provider}: {attempt.reason}{attempt.ip ? ` · ${attempt.ip}` : ''}
+                      </p>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Broken Links Tab */}
+        {activeTab === 'broken-links' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="space-y-6"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+                <Unlink className="w-6 h-6 mr-3 text-red-500" />
+                Broken Links
+              </h2>
+              <div className="flex space-x-2">
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={loadBrokenLinks}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-xl transition-all duration-200 flex items-center"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Refresh
+                </motion.button>
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={runHealthCheck}
+                  disabled={healthSummary?.running}
+                  className="px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 border border-primary-200 rounded-xl transition-all duration-200 flex items-center disabled:opacity-50"
+                >
+                  <Activity className="w-4 h-4 mr-2" />
+                  {healthSummary?.running ? 'Checking…' : 'Check all links now'}
+                </motion.button>
+              </div>
+            </div>
+
+            {healthSummary && (
+              <p className="text-sm text-gray-600">
+                {healthSummary.checked} links checked, {healthSummary.broken} broken
+                {healthSummary.lastCheckedAt && ` · last check ${new Date(healthSummary.lastCheckedAt.replace(' ', 'T') + 'Z').toLocaleString()}`}
+              </p>
+            )}
+
+            <div className="bg-white/90 backdrop-blur-xl rounded-2xl border border-gray-200 shadow-lg overflow-hidden">
+              {brokenLinks.length === 0 ? (
+                <div className="p-8 text-center text-gray-500">
+                  <CheckCircle className="w-12 h-12 mx-auto mb-3 text-green-500" />
+                  No broken links found.
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {brokenLinks.map(link => (
+                    <div key={link.id} className="p-4 space-y-2">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <span className="font-mono text-gray-900">
+                            {link.domain && <span className="text-gray-500">{link.domain}/</span>}
+                            {link.shortCode}
+                          </span>
+                          <p className="text-sm text-gray-600 truncate" title={link.originalUrl}>{link.originalUrl}</p>
+                        </div>
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                          <select
+                            value={link.onBroken || ''}
+                            onChange={(e) => updateBrokenLinkAction(link, e.target.value)}
+                            className="px-3 py-1 bg-white border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500"
+                            title="What visitors get while the destination is down"
+                          >
+                            <option value="">Keep redirecting</option>
+                            <option value="disable">Show unavailable page</option>
+                            <option value="fallback">Use fallback URL</option>
+                          </select>
+                          <button
+                            onClick={() => recheckLink(link)}
+                            className="text-primary-500 hover:text-primary-600"
+                            title="Check again"
+                          >
+                            <RefreshCw className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                      <div className="flex flex-wrap gap-2 text-xs">
+                        <span className="px-2 py-0.5 rounded-full bg-red-50 text-red-600 border border-red-200">
+                          {link.statusCode ? `HTTP ${link.statusCode}` : 'No response'}
+                          {link.error ? ` · ${link.error}` : ''}
+                        </span>
+                        {link.responseTimeMs !== null && (
+                          <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{link.responseTimeMs} ms</span>
+                        )}
+                        {link.brokenSince && (
+                          <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                            broken since {new Date(link.brokenSince.replace(' ', 'T') + 'Z').toLocaleString()}
+                          </span>
+                        )}
+                        {link.onBroken === 'fallback' && link.brokenFallbackUrl && (
+                          <span className="px-2 py-0.5 rounded-full bg-amber-50 text-amber-700">→ {link.brokenFallbackUrl}</span>
+                        )}
+                      </div>
+                      {link.redirectChain.length > 0 && (
+                        <ol className="text-xs text-gray-500 space-y-0.5">
+                          {link.redirectChain.map((hop, index) => (
+                            <li key={index} className="truncate" title={hop.url}>
+                              {hop.status} → {hop.url}
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+
+        {/* Trash Tab */}
+        {activeTab === 'trash' && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5 }}
+            className="space-y-6"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-2xl font-bold text-gray-900 flex items-center">
+                <Trash2 className="w-6 h-6 mr-3 text-red-500" />
+                Trash
+              </h2>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={loadTrash}
+                className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-xl transition-all duration-200 flex items-center"
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Refresh
+              </motion.button>
+            </div>
+
+            <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 shadow-lg flex flex-col md:flex-row md:items-center gap-4">
+              <p className="text-sm text-gray-600 flex-1">
+                Deleted links stop working but keep their code, clicks and history.
+                {trashRetentionDays !== null && ` They are purged for good after ${trashRetentionDays} days.`}
+              </p>
+              <div className="flex items-center gap-2">
+                <label htmlFor="trashRetention" className="text-sm text-gray-700">Keep for</label>
+                <input
+                  id="trashRetention"
+                  type="number"
+                  min={1}
+                  max={3650}
+                  value={retentionDraft}
+                  onChange={(e) => setRetentionDraft(e.target.value)}
+                  className="w-24 px-3 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <span className="text-sm text-gray-700">days</span>
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={saveTrashRetention}
+                  className="px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 border border-primary-200 rounded-xl transition-all duration-200 flex items-center"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  Save
+                </motion.button>
+              </div>
+            </div>
+
+            <div className="bg-white/90 backdrop-blur-xl rounded-2xl border border-gray-200 shadow-lg overflow-hidden">
+              {trashedLinks.length === 0 ? (
+                <div className="p-8 text-center text-gray-500">
+                  <Trash2 className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+                  The trash is empty.
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {trashedLinks.map(link => (
+                    <div key={link.id} className="p-4 flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <span className="font-mono text-gray-900">
+                          {link.domain && <span className="text-gray-500">{link.domain}/</span>}
+                          {link.shortCode}
+                        </span>
+                        <p className="text-sm text-gray-600 truncate" title={link.originalUrl}>{link.originalUrl}</p>
+                        <div className="mt-1 flex flex-wrap gap-2 text-xs">
+                          <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{link.clicks} clicks</span>
+                          <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                            deleted {new Date(link.deletedAt).toLocaleString()}
+                          </span>
+                          <span className="px-2 py-0.5 rounded-full bg-red-50 text-red-600 border border-red-200">
+                            purged {new Date(link.purgeAt).toLocaleDateString()}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={() => restoreTrashedLink(link)}
+                          className="px-3 py-1 bg-green-50 text-green-600 hover:bg-green-100 border border-green-200 rounded-lg text-sm flex items-center"
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </motion.button>
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={() => purgeTrashedLink(link)}
+                          className="px-3 py-1 bg-red-50 text-red-600 hover:bg-red-100 border border-red-200 rounded-lg text-sm"
+                        >
+                          Delete forever
+                        </motion.button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </motion.div>
         )}
 
@@ -1545,12 +3301,62 @@ const CleanAdminPanel: React.FC = () => {
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            className="space-y-6"
+            className="flex flex-col lg:flex-row gap-6"
           >
+            {/* Tag Sidebar */}
+            <aside className="lg:w-56 flex-shrink-0">
+              <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-4 border border-gray-200 shadow-lg">
+                <h3 className="flex items-center text-sm font-semibold text-gray-700 uppercase tracking-wide mb-3">
+                  <Tag className="w-4 h-4 mr-2" />
+                  Tags
+                </h3>
+                <ul className="space-y-1">
+                  <li>
+                    <button
+                      onClick={() => setSelectedTag(null)}
+                      className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-all duration-200 ${
+                        selectedTag === null ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      All links
+                    </button>
+                  </li>
+                  {tags.map(tag => (
+                    <li key={tag.id} className="group flex items-center">
+                      <button
+                        onClick={() => setSelectedTag(tag.name)}
+                        className={`flex-1 flex items-center justify-between min-w-0 px-3 py-2 rounded-lg text-sm transition-all duration-200 ${
+                          selectedTag === tag.name ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-600 hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="truncate">{tag.name}</span>
+                        <span className="ml-2 text-xs text-gray-400">{tag.linkCount}</span>
+                      </button>
+                      <button
+                        onClick={() => deleteTag(tag)}
+                        className="ml-1 p-1 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Delete tag"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+                {tags.length === 0 && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    No tags yet. Use the tag button on a link to add some.
+                  </p>
+                )}
+              </div>
+            </aside>
+
             {/* Links Header */}
-            <div className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 shadow-lg">
+            <div className="flex-1 min-w-0 bg-white/90 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 shadow-lg">
               <div className="flex items-center justify-between mb-6">
-                <h2 className="text-2xl font-bold text-gray-900">Link Management</h2>
+                <h2 className="text-2xl font-bold text-gray-900">
+                  Link Management
+                  {selectedTag && <span className="ml-2 text-base font-medium text-primary-600">#{selectedTag}</span>}
+                </h2>
                 <div className="flex items-center space-x-3">
                   <motion.button
                     whileHover={{ scale: 1.05 }}
@@ -1564,7 +3370,16 @@ const CleanAdminPanel: React.FC = () => {
                     title="Refresh links"
                     disabled={loading}
                   >
-                    <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                    <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                  </motion.button>
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => setShowImport(true)}
+                    className="flex items-center px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 border border-primary-200 rounded-lg transition-all duration-200"
+                  >
+                    <Upload className="w-4 h-4 mr-2" />
+                    Import
                   </motion.button>
                   {selectedLinks.length > 0 && (
                     <motion.button
@@ -1586,22 +3401,42 @@ const CleanAdminPanel: React.FC = () => {
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
                   <input
                     type="text"
-                    placeholder="Search links by code, URL, or description..."
+                    placeholder="Search links by code, URL, description, or tag..."
                     value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      // Searching switches to relevance order, clearing the search switches back
+                      if (value.trim() && !searchTerm.trim() && sortBy === 'created') {
+                        setSortBy('relevance');
+                        setSortOrder('desc');
+                      } else if (!value.trim() && sortBy === 'relevance') {
+                        setSortBy('created');
+                      }
+                      setSearchTerm(value);
+                    }}
                     className="w-full pl-10 pr-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500"
                   />
                 </div>
                 <div className="flex gap-2">
                   <select
                     value={sortBy}
-                    onChange={(e) => setSortBy(e.target.value as 'created' | 'clicks' | 'code')}
+                    onChange={(e) => setSortBy(e.target.value as 'relevance' | 'created' | 'clicks' | 'code')}
                     className="px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
                   >
+                    {searchTerm.trim() && <option value="relevance">Sort by Relevance</option>}
                     <option value="created">Sort by Date</option>
                     <option value="clicks">Sort by Clicks</option>
                     <option value="code">Sort by Code</option>
                   </select>
+                  <select
+                    value={expiryFilter}
+                    onChange={(e) => setExpiryFilter(e.target.value as 'all' | 'expired' | 'live')}
+                    className="px-4 py-2 bg-white border border-gray-300 rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="all">All links</option>
+                    <option value="live">Not expired</option>
+                    <option value="expired">Expired</option>
+                  </select>
                   <motion.button
                     whileHover={{ scale: 1.05 }}
                     whileTap={{ scale: 0.95 }}
@@ -1677,27 +3512,91 @@ const CleanAdminPanel: React.FC = () => {
                           </td>
                           <td className="p-3">
                             <div className="flex items-center space-x-2">
-                              <span className="text-gray-900 font-mono">{link.shortCode || 'N/A'}</span>
+                              <span className="text-gray-900 font-mono">
+                                {link.domain && <span className="text-gray-500">{link.domain}/</span>}
+                                {renderHighlight(getSearchMatch(link)?.highlights.shortCode, link.shortCode || 'N/A')}
+                              </span>
                               <motion.button
                                 whileHover={{ scale: 1.1 }}
                                 whileTap={{ scale: 0.9 }}
-                                onClick={() => copyToClipboard(`${window.location.origin}/${link.shortCode || ''}`)}
+                                onClick={() => copyToClipboard(link.domain ? `https://${link.domain}/${link.shortCode}` : `${window.location.origin}/${link.shortCode || ''}`)}
                                 className="text-primary-500 hover:text-primary-600"
                                 disabled={!link.shortCode}
                               >
                                 <Copy className="w-4 h-4" />
                               </motion.button>
                             </div>
+                            {link.tags && link.tags.length > 0 && (
+                              <div className="mt-1 flex flex-wrap gap-1">
+                                {link.tags.map(tag => (
+                                  <button
+                                    key={tag}
+                                    onClick={() => setSelectedTag(tag)}
+                                    className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 hover:bg-primary-50 hover:text-primary-700 text-xs"
+                                  >
+                                    {renderHighlight(getTagHighlight(link, tag), tag)}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
                           </td>
                           <td className="p-3">
                             <div className="max-w-xs truncate">
                               <span className="text-gray-600" title={link.originalUrl || 'No URL'}>
-                                {link.originalUrl || 'No URL'}
+                                {renderHighlight(getSearchMatch(link)?.highlights.originalUrl, link.originalUrl || 'No URL')}
                               </span>
                             </div>
+                            {getSearchMatch(link)?.highlights.description.some(segment => segment.match) && (
+                              <div className="mt-1 max-w-xs truncate text-xs text-gray-500">
+                                {renderHighlight(getSearchMatch(link)!.highlights.description, link.description || '')}
+                              </div>
+                            )}
+                            {link.blockedReason && (
+                              <span
+                                className="mt-1 inline-flex items-center px-2 py-0.5 rounded-full bg-red-50 text-red-600 border border-red-200 text-xs"
+                                title={link.blockedReason}
+                              >
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                Blocked: {link.blockedReason}
+                              </span>
+                            )}
+                            {link.redirectRules && link.redirectRules.length > 0 && (
+                              <button
+                                onClick={() => openRedirectRules(link)}
+                                className="mt-1 inline-flex items-center text-xs text-primary-600 hover:text-primary-700"
+                              >
+                                <Route className="w-3 h-3 mr-1" />
+                                {link.redirectRules.length} redirect {link.redirectRules.length === 1 ? 'rule' : 'rules'}
+                              </button>
+                            )}
+                            {link.variants && link.variants.length > 0 && (
+                              <button
+                                onClick={() => openVariants(link)}
+                                className="mt-1 ml-2 inline-flex items-center text-xs text-orange-600 hover:text-orange-700"
+                              >
+                                <Split className="w-3 h-3 mr-1" />
+                                A/B test ({link.variants.length} variants)
+                              </button>
+                            )}
+                            {link.bioPage && (
+                              <button
+                                onClick={() => openBioPage(link)}
+                                className="mt-1 ml-2 inline-flex items-center text-xs text-teal-600 hover:text-teal-700"
+                              >
+                                <LayoutList className="w-3 h-3 mr-1" />
+                                Link-in-bio page ({link.bioPage.entries.length} {link.bioPage.entries.length === 1 ? 'link' : 'links'})
+                              </button>
+                            )}
                           </td>
                           <td className="p-3">
                             <span className="text-gray-900 font-semibold">{link.clicks || 0}</span>
+                            {link.maxClicks ? (
+                              <div className={`text-xs ${(link.clicks || 0) >= link.maxClicks ? 'text-red-600' : 'text-gray-500'}`}>
+                                {(link.clicks || 0) >= link.maxClicks
+                                  ? 'Used up'
+                                  : `${link.maxClicks - (link.clicks || 0)} of ${link.maxClicks} uses left`}
+                              </div>
+                            ) : null}
                           </td>
                           <td className="p-3">
                             <span className="text-gray-600">
@@ -1708,7 +3607,7 @@ const CleanAdminPanel: React.FC = () => {
                             <motion.button
                               whileHover={{ scale: 1.05 }}
                               whileTap={{ scale: 0.95 }}
-                              onClick={() => toggleLinkStatus(link.shortCode)}
+                              onClick={() => toggleLinkStatus(link._id)}
                               className={`px-3 py-1 rounded-full text-sm font-medium transition-all duration-200 border ${
                                 link.isActive 
                                   ? 'bg-green-50 text-green-600 border-green-200 hover:bg-green-100' 
@@ -1718,6 +3617,17 @@ const CleanAdminPanel: React.FC = () => {
                             >
                               {link.isActive ? 'Active' : 'Inactive'}
                             </motion.button>
+                            {link.expiresAt && (
+                              <div className={`mt-1 text-xs ${isLinkExpired(link) ? 'text-red-600' : 'text-gray-500'}`}>
+                                {isLinkExpired(link) ? 'Expired' : 'Expires'} {new Date(link.expiresAt).toLocaleDateString()}
+                                <button
+                                  onClick={() => renewLink(link)}
+                                  className="ml-2 text-primary-600 hover:text-primary-700 font-medium"
+                                >
+                                  {isLinkExpired(link) ? 'Renew' : 'Extend'}
+                                </button>
+                              </div>
+                            )}
                           </td>
                           <td className="p-3">
                             <div className="flex items-center space-x-2">
@@ -1737,10 +3647,60 @@ const CleanAdminPanel: React.FC = () => {
                               <motion.button
                                 whileHover={{ scale: 1.1 }}
                                 whileTap={{ scale: 0.9 }}
-                                onClick={() => setShowDeleteConfirm(link.shortCode)}
+                                onClick={() => openRedirectRules(link)}
+                                className="text-primary-500 hover:text-primary-600"
+                                title="Edit redirect rules"
+                                disabled={!link._id}
+                              >
+                                <Route className="w-4 h-4" />
+                              </motion.button>
+                              <motion.button
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                                onClick={() => openVariants(link)}
+                                className="text-orange-500 hover:text-orange-600"
+                                title="Edit A/B variants"
+                                disabled={!link._id}
+                              >
+                                <Split className="w-4 h-4" />
+                              </motion.button>
+                              <motion.button
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                                onClick={() => openBioPage(link)}
+                                className="text-teal-500 hover:text-teal-600"
+                                title="Edit link-in-bio page"
+                                disabled={!link._id}
+                              >
+                                <LayoutList className="w-4 h-4" />
+                              </motion.button>
+                              <motion.button
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                                onClick={() => openTags(link)}
+                                className="text-primary-500 hover:text-primary-600"
+                                title="Edit tags"
+                                disabled={!link._id}
+                              >
+                                <Tag className="w-4 h-4" />
+                              </motion.button>
+                              <motion.button
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                                onClick={() => openHistory(link)}
+                                className="text-primary-500 hover:text-primary-600"
+                                title="Edit destination and view history"
+                                disabled={!link._id}
+                              >
+                                <History className="w-4 h-4" />
+                              </motion.button>
+                              <motion.button
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.9 }}
+                                onClick={() => setShowDeleteConfirm(link._id)}
                                 className="text-red-500 hover:text-red-600"
                                 title="Delete link"
-                                disabled={!link.shortCode}
+                                disabled={!link._id}
                               >
                                 <Trash2 className="w-4 h-4" />
                               </motion.button>
@@ -2491,89 +4451,505 @@ const CleanAdminPanel: React.FC = () => {
                   animate={{ opacity: 1, y: 0 }}
                   className="mt-4"
                 >
-                  <motion.button
-                    whileHover={{ scale: 1.02 }}
-                    whileTap={{ scale: 0.98 }}
-                    onClick={cancelUpdate}
-                    className="w-full flex items-center justify-center space-x-2 p-3 bg-red-50 text-red-600 hover:bg-red-100 border border-red-200 rounded-lg transition-all duration-200"
-                  >
-                    <X className="w-5 h-5" />
-                    <span>Cancel Update</span>
-                  </motion.button>
-                </motion.div>
+                  <motion.button
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                    onClick={cancelUpdate}
+                    className="w-full flex items-center justify-center space-x-2 p-3 bg-red-50 text-red-600 hover:bg-red-100 border border-red-200 rounded-lg transition-all duration-200"
+                  >
+                    <X className="w-5 h-5" />
+                    <span>Cancel Update</span>
+                  </motion.button>
+                </motion.div>
+              )}
+            </div>
+
+            {/* Update Status & Logs */}
+            {(updateStatus || updateLogs.length > 0) && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 shadow-lg"
+              >
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Update Status & Logs</h3>
+                
+                {updateStatus && (
+                  <div className="bg-gray-50 rounded-xl p-4 border border-gray-200 mb-4">
+                    <h4 className="text-sm font-semibold text-gray-900 mb-2">Current Status</h4>
+                    <div className="bg-gray-900 rounded-lg p-3 font-mono text-sm">
+                      <div className="text-green-400">{updateStatus}</div>
+                      {updateLoading && (
+                        <div className="text-yellow-400 mt-1">Please wait, this may take several minutes...</div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {updateLogs.length > 0 && (
+                  <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
+                    <h4 className="text-sm font-semibold text-gray-900 mb-2">Update Logs</h4>
+                    <div className="bg-gray-900 rounded-lg p-3 max-h-64 overflow-y-auto">
+                      {updateLogs.map((log, index) => (
+                        <div key={index} className="font-mono text-xs mb-1">
+                          <span className="text-gray-400">[{log.timestamp}]</span>
+                          <span className={`ml-2 ${
+                            log.level === 'ERROR' ? 'text-red-400' :
+                            log.level === 'WARNING' ? 'text-yellow-400' :
+                            log.level === 'SUCCESS' ? 'text-green-400' :
+                            'text-blue-400'
+                          }`}>[{log.level}]</span>
+                          <span className="text-gray-300 ml-2">{log.message}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </motion.div>
+            )}
+
+            {/* Important Notes */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="bg-yellow-50 border border-yellow-200 rounded-xl p-4"
+            >
+              <div className="flex items-start space-x-3">
+                <AlertTriangle className="w-6 h-6 text-yellow-600 mt-0.5 flex-shrink-0" />
+                <div>
+                  <h4 className="text-yellow-800 font-semibold mb-2">Update Information</h4>
+                  <ul className="text-yellow-700 text-sm space-y-1">
+                    <li>• Updates use the Ubuntu-optimized update.sh script with comprehensive error handling</li>
+                    <li>• System health checks ensure safe updates with automatic rollback on failure</li>
+                    <li>• Backups are automatically created unless explicitly skipped</li>
+                    <li>• The service will restart automatically unless disabled in options</li>
+                    <li>• Progress monitoring provides real-time status during updates</li>
+                    <li>• System package updates require sudo privileges on the server</li>
+                  </ul>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </main>
+
+      {/* Edit Link Modal */}
+      {editingLink && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-white/95 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 max-w-md w-full shadow-xl"
+          >
+            <h3 className="text-xl font-bold text-gray-900 mb-4">Edit Link Description</h3>
+            <textarea
+              value={editDescription}
+              onChange={(e) => setEditDescription(e.target.value)}
+              placeholder="Enter description..."
+              className="w-full px-4 py-3 bg-white border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 resize-none"
+              rows={3}
+            />
+            <div className="flex space-x-3 mt-6">
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => {
+                  setEditingLink(null);
+                  setEditDescription('');
+                }}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900 rounded-xl transition-all duration-200 border border-gray-300"
+              >
+                Cancel
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => updateLinkDescription(editingLink, editDescription)}
+                className="flex-1 px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 hover:text-primary-700 rounded-xl transition-all duration-200 border border-primary-200"
+              >
+                Save
+              </motion.button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+
+      {/* Redirect Rules Modal */}
+      {editingRulesLink && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-white/95 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 max-w-2xl w-full shadow-xl max-h-[90vh] overflow-y-auto"
+          >
+            <h3 className="text-xl font-bold text-gray-900 mb-1">Redirect Rules</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Rules for <span className="font-mono">/{editingRulesLink.shortCode}</span> are checked top to bottom; the first rule
+              whose conditions all match wins. Visitors matching no rule go to{' '}
+              <span className="break-all">{editingRulesLink.originalUrl}</span>. Empty conditions match everyone.
+            </p>
+
+            <div className="space-y-4">
+              {ruleDrafts.map((draft, index) => (
+                <div key={index} className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold text-gray-700">Rule {index + 1}</span>
+                    <div className="flex items-center space-x-2 text-sm">
+                      <button onClick={() => moveRuleDraft(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-700 disabled:opacity-30">↑</button>
+                      <button onClick={() => moveRuleDraft(index, 1)} disabled={index === ruleDrafts.length - 1} className="text-gray-500 hover:text-gray-700 disabled:opacity-30">↓</button>
+                      <button onClick={() => setRuleDrafts(drafts => drafts.filter((_, i) => i !== index))} className="text-red-500 hover:text-red-600" title="Remove rule">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <input
+                    type="url"
+                    value={draft.destination}
+                    onChange={(e) => updateRuleDraft(index, { destination: e.target.value })}
+                    placeholder="https://example.com/destination"
+                    className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-medium text-gray-500 w-20">Devices</span>
+                    {DEVICE_TYPES.map(device => (
+                      <button
+                        key={device}
+                        onClick={() => updateRuleDraft(index, {
+                          devices: draft.devices.includes(device)
+                            ? draft.devices.filter(d => d !== device)
+                            : [...draft.devices, device]
+                        })}
+                        className={`px-2 py-1 rounded-lg text-xs border ${
+                          draft.devices.includes(device)
+                            ? 'bg-primary-50 text-primary-700 border-primary-200'
+                            : 'bg-white text-gray-600 border-gray-300'
+                        }`}
+                      >
+                        {device}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <input
+                      type="text"
+                      value={draft.languages}
+                      onChange={(e) => updateRuleDraft(index, { languages: e.target.value })}
+                      placeholder="Languages, e.g. de, en-US"
+                      className="px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <input
+                      type="text"
+                      value={draft.countries}
+                      onChange={(e) => updateRuleDraft(index, { countries: e.target.value })}
+                      placeholder="Countries, e.g. DE, AT"
+                      className="px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-medium text-gray-500 w-20">Time</span>
+                    <input
+                      type="time"
+                      value={draft.start}
+                      onChange={(e) => updateRuleDraft(index, { start: e.target.value })}
+                      className="px-2 py-1 bg-white border border-gray-300 rounded-lg text-sm text-gray-900"
+                    />
+                    <span className="text-gray-500 text-sm">to</span>
+                    <input
+                      type="time"
+                      value={draft.end}
+                      onChange={(e) => updateRuleDraft(index, { end: e.target.value })}
+                      className="px-2 py-1 bg-white border border-gray-300 rounded-lg text-sm text-gray-900"
+                    />
+                    <input
+                      type="text"
+                      value={draft.timezone}
+                      onChange={(e) => updateRuleDraft(index, { timezone: e.target.value })}
+                      placeholder="Time zone (UTC)"
+                      className="px-2 py-1 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 w-40"
+                    />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-xs font-medium text-gray-500 w-20 mr-1">Days</span>
+                    {WEEKDAYS.map((day, dayIndex) => (
+                      <button
+                        key={day}
+                        onClick={() => updateRuleDraft(index, {
+                          days: draft.days.includes(dayIndex)
+                            ? draft.days.filter(d => d !== dayIndex)
+                            : [...draft.days, dayIndex].sort()
+                        })}
+                        className={`px-2 py-1 rounded-lg text-xs border ${
+                          draft.days.includes(dayIndex)
+                            ? 'bg-primary-50 text-primary-700 border-primary-200'
+                            : 'bg-white text-gray-600 border-gray-300'
+                        }`}
+                      >
+                        {day}
+                      </button>
+                    ))}
+                  </div>
+                  {draft.extraTimeWindows.length > 0 && (
+                    <p className="text-xs text-gray-500">
+                      + {draft.extraTimeWindows.length} more time window(s) set through the API
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              <button
+                onClick={() => setRuleDrafts(drafts => [...drafts, emptyRuleDraft()])}
+                className="w-full flex items-center justify-center px-4 py-2 border-2 border-dashed border-gray-300 rounded-xl text-sm text-gray-600 hover:border-primary-300 hover:text-primary-600"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add rule
+              </button>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => {
+                  setEditingRulesLink(null);
+                  setRuleDrafts([]);
+                }}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900 rounded-xl transition-all duration-200 border border-gray-300"
+              >
+                Cancel
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={saveRedirectRules}
+                className="flex-1 px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 hover:text-primary-700 rounded-xl transition-all duration-200 border border-primary-200"
+              >
+                Save
+              </motion.button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+
+      {/* A/B Variants Modal */}
+      {editingVariantsLink && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-white/95 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 max-w-xl w-full shadow-xl max-h-[90vh] overflow-y-auto"
+          >
+            <h3 className="text-xl font-bold text-gray-900 mb-1">A/B Variants</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Traffic for <span className="font-mono">/{editingVariantsLink.shortCode}</span> is split by weight. Returning
+              visitors keep their variant. Matching redirect rules take precedence.
+            </p>
+
+            <div className="space-y-3">
+              {variantDrafts.map((variant, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <span className="text-sm font-semibold text-gray-700 w-8">{variant.id || '—'}</span>
+                  <input
+                    type="url"
+                    value={variant.destination}
+                    onChange={(e) => setVariantDrafts(drafts => drafts.map((d, i) => (i === index ? { ...d, destination: e.target.value } : d)))}
+                    placeholder="https://example.com/variant"
+                    className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={variant.weight}
+                    onChange={(e) => setVariantDrafts(drafts => drafts.map((d, i) => (i === index ? { ...d, weight: Number(e.target.value) } : d)))}
+                    className="w-20 px-2 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900"
+                    title="Weight"
+                  />
+                  <button
+                    onClick={() => setVariantDrafts(drafts => drafts.filter((_, i) => i !== index))}
+                    className="text-red-500 hover:text-red-600"
+                    title="Remove variant"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+
+              <button
+                onClick={() => setVariantDrafts(drafts => [...drafts, { destination: '', weight: 50 }])}
+                className="w-full flex items-center justify-center px-4 py-2 border-2 border-dashed border-gray-300 rounded-xl text-sm text-gray-600 hover:border-primary-300 hover:text-primary-600"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add variant
+              </button>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => {
+                  setEditingVariantsLink(null);
+                  setVariantDrafts([]);
+                }}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900 rounded-xl transition-all duration-200 border border-gray-300"
+              >
+                Cancel
+              </motion.button>
+              {editingVariantsLink.variants && editingVariantsLink.variants.length > 0 && (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => saveVariants([])}
+                  className="flex-1 px-4 py-2 bg-red-50 text-red-600 hover:bg-red-100 hover:text-red-700 rounded-xl transition-all duration-200 border border-red-200"
+                >
+                  Stop test
+                </motion.button>
               )}
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => saveVariants(variantDrafts)}
+                className="flex-1 px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 hover:text-primary-700 rounded-xl transition-all duration-200 border border-primary-200"
+              >
+                Save
+              </motion.button>
             </div>
+          </motion.div>
+        </motion.div>
+      )}
 
-            {/* Update Status & Logs */}
-            {(updateStatus || updateLogs.length > 0) && (
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="bg-white/90 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 shadow-lg"
-              >
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Update Status & Logs</h3>
-                
-                {updateStatus && (
-                  <div className="bg-gray-50 rounded-xl p-4 border border-gray-200 mb-4">
-                    <h4 className="text-sm font-semibold text-gray-900 mb-2">Current Status</h4>
-                    <div className="bg-gray-900 rounded-lg p-3 font-mono text-sm">
-                      <div className="text-green-400">{updateStatus}</div>
-                      {updateLoading && (
-                        <div className="text-yellow-400 mt-1">Please wait, this may take several minutes...</div>
-                      )}
-                    </div>
-                  </div>
-                )}
+      {/* Link-in-Bio Page Modal */}
+      {editingBioLink && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-white/95 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 max-w-xl w-full shadow-xl max-h-[90vh] overflow-y-auto"
+          >
+            <h3 className="text-xl font-bold text-gray-900 mb-1">Link-in-Bio Page</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              <span className="font-mono">/{editingBioLink.shortCode}</span> shows a page with these buttons instead of
+              redirecting. Clicks are counted per button; redirect rules and A/B variants are paused while the page is set.
+            </p>
 
-                {updateLogs.length > 0 && (
-                  <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
-                    <h4 className="text-sm font-semibold text-gray-900 mb-2">Update Logs</h4>
-                    <div className="bg-gray-900 rounded-lg p-3 max-h-64 overflow-y-auto">
-                      {updateLogs.map((log, index) => (
-                        <div key={index} className="font-mono text-xs mb-1">
-                          <span className="text-gray-400">[{log.timestamp}]</span>
-                          <span className={`ml-2 ${
-                            log.level === 'ERROR' ? 'text-red-400' :
-                            log.level === 'WARNING' ? 'text-yellow-400' :
-                            log.level === 'SUCCESS' ? 'text-green-400' :
-                            'text-blue-400'
-                          }`}>[{log.level}]</span>
-                          <span className="text-gray-300 ml-2">{log.message}</span>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
-              </motion.div>
-            )}
+            <div className="space-y-3">
+              <input
+                type="text"
+                value={bioDraft.title}
+                onChange={(e) => setBioDraft(draft => ({ ...draft, title: e.target.value }))}
+                placeholder="Page title"
+                maxLength={100}
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <input
+                type="url"
+                value={bioDraft.avatarUrl || ''}
+                onChange={(e) => setBioDraft(draft => ({ ...draft, avatarUrl: e.target.value }))}
+                placeholder="Avatar image URL (optional)"
+                className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
 
-            {/* Important Notes */}
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              className="bg-yellow-50 border border-yellow-200 rounded-xl p-4"
-            >
-              <div className="flex items-start space-x-3">
-                <AlertTriangle className="w-6 h-6 text-yellow-600 mt-0.5 flex-shrink-0" />
-                <div>
-                  <h4 className="text-yellow-800 font-semibold mb-2">Update Information</h4>
-                  <ul className="text-yellow-700 text-sm space-y-1">
-                    <li>• Updates use the Ubuntu-optimized update.sh script with comprehensive error handling</li>
-                    <li>• System health checks ensure safe updates with automatic rollback on failure</li>
-                    <li>• Backups are automatically created unless explicitly skipped</li>
-                    <li>• The service will restart automatically unless disabled in options</li>
-                    <li>• Progress monitoring provides real-time status during updates</li>
-                    <li>• System package updates require sudo privileges on the server</li>
-                  </ul>
+              {bioDraft.entries.map((entry, index) => (
+                <div key={entry.id || `new-${index}`} className="flex items-center space-x-2">
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => moveBioEntry(index, -1)}
+                      disabled={index === 0}
+                      className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveBioEntry(index, 1)}
+                      disabled={index === bioDraft.entries.length - 1}
+                      className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    value={entry.label}
+                    onChange={(e) => setBioDraft(draft => ({ ...draft, entries: draft.entries.map((d, i) => (i === index ? { ...d, label: e.target.value } : d)) }))}
+                    placeholder="Button label"
+                    maxLength={80}
+                    className="w-36 px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                  <input
+                    type="url"
+                    value={entry.url}
+                    onChange={(e) => setBioDraft(draft => ({ ...draft, entries: draft.entries.map((d, i) => (i === index ? { ...d, url: e.target.value } : d)) }))}
+                    placeholder="https://example.com"
+                    className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                  <button
+                    onClick={() => setBioDraft(draft => ({ ...draft, entries: draft.entries.filter((_, i) => i !== index) }))}
+                    className="text-red-500 hover:text-red-600"
+                    title="Remove button"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
                 </div>
-              </div>
-            </motion.div>
+              ))}
+
+              <button
+                onClick={() => setBioDraft(draft => ({ ...draft, entries: [...draft.entries, { label: '', url: '' }] }))}
+                className="w-full flex items-center justify-center px-4 py-2 border-2 border-dashed border-gray-300 rounded-xl text-sm text-gray-600 hover:border-primary-300 hover:text-primary-600"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add button
+              </button>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => setEditingBioLink(null)}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900 rounded-xl transition-all duration-200 border border-gray-300"
+              >
+                Cancel
+              </motion.button>
+              {editingBioLink.bioPage && (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => saveBioPage(null)}
+                  className="flex-1 px-4 py-2 bg-red-50 text-red-600 hover:bg-red-100 hover:text-red-700 rounded-xl transition-all duration-200 border border-red-200"
+                >
+                  Remove page
+                </motion.button>
+              )}
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => saveBioPage(bioDraft)}
+                className="flex-1 px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 hover:text-primary-700 rounded-xl transition-all duration-200 border border-primary-200"
+              >
+                Save
+              </motion.button>
+            </div>
           </motion.div>
-        )}
-      </main>
+        </motion.div>
+      )}
 
-      {/* Edit Link Modal */}
-      {editingLink && (
+      {editingTagsLink && (
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
@@ -2584,21 +4960,45 @@ const CleanAdminPanel: React.FC = () => {
             animate={{ scale: 1, opacity: 1 }}
             className="bg-white/95 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 max-w-md w-full shadow-xl"
           >
-            <h3 className="text-xl font-bold text-gray-900 mb-4">Edit Link Description</h3>
-            <textarea
-              value={editDescription}
-              onChange={(e) => setEditDescription(e.target.value)}
-              placeholder="Enter description..."
-              className="w-full px-4 py-3 bg-white border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 resize-none"
-              rows={3}
+            <h3 className="text-xl font-bold text-gray-900 mb-1">Tags</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Separate tags for <span className="font-mono">/{editingTagsLink.shortCode}</span> with commas.
+              New tags are created automatically.
+            </p>
+
+            <input
+              type="text"
+              value={tagDraft}
+              onChange={(e) => setTagDraft(e.target.value)}
+              placeholder="marketing, spring-campaign"
+              className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              autoFocus
             />
+
+            {tags.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-1">
+                {tags
+                  .filter(tag => !tagDraft.split(',').some(name => name.trim().toLowerCase() === tag.name.toLowerCase()))
+                  .map(tag => (
+                    <button
+                      key={tag.id}
+                      onClick={() => setTagDraft(draft => (draft.trim() ? `${draft.replace(/,\s*$/, '')}, ${tag.name}` : tag.name))}
+                      className="inline-flex items-center px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 hover:bg-primary-50 hover:text-primary-700 text-xs"
+                    >
+                      <Plus className="w-3 h-3 mr-1" />
+                      {tag.name}
+                    </button>
+                  ))}
+              </div>
+            )}
+
             <div className="flex space-x-3 mt-6">
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
                 onClick={() => {
-                  setEditingLink(null);
-                  setEditDescription('');
+                  setEditingTagsLink(null);
+                  setTagDraft('');
                 }}
                 className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900 rounded-xl transition-all duration-200 border border-gray-300"
               >
@@ -2607,7 +5007,7 @@ const CleanAdminPanel: React.FC = () => {
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
-                onClick={() => updateLinkDescription(editingLink, editDescription)}
+                onClick={saveTags}
                 className="flex-1 px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 hover:text-primary-700 rounded-xl transition-all duration-200 border border-primary-200"
               >
                 Save
@@ -2617,6 +5017,278 @@ const CleanAdminPanel: React.FC = () => {
         </motion.div>
       )}
 
+      {showImport && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-white/95 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 max-w-3xl w-full shadow-xl max-h-[90vh] overflow-y-auto"
+          >
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-xl font-bold text-gray-900">Import Links</h3>
+              <button onClick={closeImport} className="p-1 text-gray-400 hover:text-gray-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Upload a CSV with the columns <span className="font-mono">code, destination, description, expiry, options</span> (and
+              optionally <span className="font-mono">tags, status, domain</span>) or a JSON array with the same keys. A links export
+              can be imported as is. Check the file with a dry run first; the import creates all links or none.
+            </p>
+
+            <div className="flex flex-col sm:flex-row gap-3 mb-3">
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => e.target.files && e.target.files[0] && loadImportFile(e.target.files[0])}
+                className="flex-1 text-sm text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border file:border-gray-300 file:bg-white file:text-gray-700"
+              />
+              <select
+                value={importFormat}
+                onChange={(e) => {
+                  setImportFormat(e.target.value as 'csv' | 'json');
+                  setImportReport(null);
+                }}
+                className="px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+              </select>
+            </div>
+
+            <textarea
+              value={importData}
+              onChange={(e) => {
+                setImportData(e.target.value);
+                setImportReport(null);
+              }}
+              rows={8}
+              placeholder={importFormat === 'csv'
+                ? 'code,destination,description,expiry,options\nspring,https://example.com/sale,Spring sale,2030-01-01T00:00:00Z,"{""redirectStatus"":301}"'
+                : '[{ "code": "spring", "destination": "https://example.com/sale", "options": { "redirectStatus": 301 } }]'}
+              className="w-full px-3 py-2 bg-white border border-gray-300 rounded-lg font-mono text-xs text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+
+            {importReport && (
+              <div className="mt-4">
+                <div className="flex flex-wrap gap-2 mb-2 text-sm">
+                  <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{importReport.total} rows</span>
+                  <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-700">{importReport.valid} valid</span>
+                  {importReport.invalid > 0 && (
+                    <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700">{importReport.invalid} with errors</span>
+                  )}
+                  {importReport.imported > 0 && (
+                    <span className="px-2 py-0.5 rounded-full bg-primary-100 text-primary-700">{importReport.imported} imported</span>
+                  )}
+                </div>
+                <div className="border border-gray-200 rounded-lg max-h-64 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-gray-600 sticky top-0">
+                      <tr>
+                        <th className="text-left px-3 py-2 font-medium">Row</th>
+                        <th className="text-left px-3 py-2 font-medium">Code</th>
+                        <th className="text-left px-3 py-2 font-medium">Destination</th>
+                        <th className="text-left px-3 py-2 font-medium">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {importReport.rows.map(row => (
+                        <tr key={row.row} className={`border-t border-gray-100 ${row.errors.length > 0 ? 'bg-red-50/50' : ''}`}>
+                          <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                          <td className="px-3 py-2 font-mono text-gray-900">
+                            {row.code ? `${row.domain ? `${row.domain}/` : ''}${row.code}` : <span className="text-gray-400">generated</span>}
+                          </td>
+                          <td className="px-3 py-2 text-gray-600 truncate max-w-xs" title={row.destination || ''}>{row.destination}</td>
+                          <td className="px-3 py-2">
+                            {row.errors.length > 0 ? (
+                              <ul className="text-red-600 text-xs space-y-0.5">
+                                {row.errors.map((error, index) => <li key={index}>{error.message}</li>)}
+                              </ul>
+                            ) : (
+                              <span className="inline-flex items-center text-green-600 text-xs">
+                                <CheckCircle className="w-3 h-3 mr-1" />
+                                {importReport.imported > 0 ? 'Imported' : 'OK'}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            <div className="flex space-x-3 mt-6">
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={closeImport}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900 rounded-xl transition-all duration-200 border border-gray-300"
+              >
+                {importReport && importReport.imported > 0 ? 'Close' : 'Cancel'}
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => runImport(true)}
+                disabled={importing || !importData.trim()}
+                className="flex-1 px-4 py-2 bg-white text-gray-700 hover:bg-gray-50 rounded-xl transition-all duration-200 border border-gray-300 disabled:opacity-50"
+              >
+                Dry run
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => runImport(false)}
+                disabled={importing || !importReport || !importReport.dryRun || importReport.invalid > 0}
+                className="flex-1 px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 hover:text-primary-700 rounded-xl transition-all duration-200 border border-primary-200 disabled:opacity-50"
+                title={!importReport || !importReport.dryRun ? 'Run a dry run first' : undefined}
+              >
+                {importing ? 'Working...' : 'Import'}
+              </motion.button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+
+      {historyLink && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50"
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-white/95 backdrop-blur-xl rounded-2xl p-6 border border-gray-200 max-w-4xl w-full shadow-xl max-h-[90vh] overflow-y-auto"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-gray-900">
+                History of <span className="font-mono">/{historyLink.shortCode}</span>
+              </h3>
+              <button
+                onClick={() => setHistoryLink(null)}
+                className="text-gray-400 hover:text-gray-600"
+                title="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <label className="block text-sm font-medium text-gray-700 mb-1">Destination</label>
+            <div className="flex space-x-2 mb-6">
+              <input
+                type="url"
+                value={destinationDraft}
+                onChange={(e) => setDestinationDraft(e.target.value)}
+                className="flex-1 px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={saveDestination}
+                className="px-4 py-2 bg-primary-50 text-primary-600 hover:bg-primary-100 hover:text-primary-700 rounded-xl transition-all duration-200 border border-primary-200"
+              >
+                Save
+              </motion.button>
+            </div>
+
+            {revisions.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-8">
+                This link has not been changed since it was created.
+              </p>
+            ) : (
+              <div className="flex flex-col md:flex-row gap-4">
+                <ul className="md:w-64 flex-shrink-0 space-y-1">
+                  {revisions.map((revision, index) => (
+                    <li key={revision.id}>
+                      <button
+                        onClick={() => setSelectedRevisionId(revision.id)}
+                        className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-all duration-200 ${
+                          revision.id === selectedRevisionId ? 'bg-primary-50 text-primary-700' : 'text-gray-600 hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="font-medium">
+                          #{revision.id} {index === 0 && <span className="text-xs text-green-600">(current)</span>}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(revision.createdAt.includes('T') ? revision.createdAt : `${revision.createdAt.replace(' ', 'T')}Z`).toLocaleString()}
+                          {' · '}
+                          {revision.changedBy === 'created' ? 'original' : revision.changedBy || 'unknown'}
+                        </div>
+                        {revision.revertedFrom && (
+                          <div className="text-xs text-orange-600">Restored #{revision.revertedFrom}</div>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                {selectedRevision && (
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between mb-3">
+                      <p className="text-sm text-gray-600">
+                        {previousRevision
+                          ? `Changes in #${selectedRevision.id} compared to #${previousRevision.id}`
+                          : `State of the link in #${selectedRevision.id}`}
+                        {selectedRevision.ipAddress && <span className="text-gray-400"> · {selectedRevision.ipAddress}</span>}
+                      </p>
+                      {selectedRevisionIndex > 0 && (
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={() => revertToRevision(selectedRevision)}
+                          className="flex items-center px-3 py-1.5 bg-orange-50 text-orange-600 hover:bg-orange-100 rounded-lg text-sm border border-orange-200"
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Revert to this version
+                        </motion.button>
+                      )}
+                    </div>
+
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200">
+                          <th className="text-left p-2 text-gray-600 font-medium w-32">Field</th>
+                          {previousRevision && <th className="text-left p-2 text-gray-600 font-medium">Before</th>}
+                          <th className="text-left p-2 text-gray-600 font-medium">{previousRevision ? 'After' : 'Value'}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {Object.keys(REVISION_FIELD_LABELS)
+                          .filter(field => !previousRevision || selectedRevision.changedFields.includes(field))
+                          .map(field => (
+                            <tr key={field} className="border-b border-gray-100 align-top">
+                              <td className="p-2 text-gray-700 font-medium">{REVISION_FIELD_LABELS[field]}</td>
+                              {previousRevision && (
+                                <td className="p-2">
+                                  <pre className="whitespace-pre-wrap break-all text-xs bg-red-50 text-red-800 rounded p-2">
+                                    {formatRevisionValue(previousRevision.snapshot[field])}
+                                  </pre>
+                                </td>
+                              )}
+                              <td className="p-2">
+                                <pre className={`whitespace-pre-wrap break-all text-xs rounded p-2 ${previousRevision ? 'bg-green-50 text-green-800' : 'bg-gray-50 text-gray-800'}`}>
+                                  {formatRevisionValue(selectedRevision.snapshot[field])}
+                                </pre>
+                              </td>
+                            </tr>
+                          ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <motion.div
@@ -2635,7 +5307,7 @@ const CleanAdminPanel: React.FC = () => {
               </div>
               <h3 className="text-xl font-bold text-gray-900 mb-2">Confirm Deletion</h3>
               <p className="text-gray-600 mb-6">
-                Are you sure you want to delete this link? This action cannot be undone.
+                The link stops working right away. It stays in the trash, where it can be restored, until it is purged.
               </p>
               
               <div className="flex space-x-3">
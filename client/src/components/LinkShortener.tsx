@@ -1,17 +1,22 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Link } from 'react-router-dom';
-import { Link2, Copy, Check, ExternalLink, BarChart3, AlertCircle, Settings } from 'lucide-react';
+import { Link2, Copy, Check, ExternalLink, BarChart3, AlertCircle, Settings, Key, QrCode, Download } from 'lucide-react';
 import toast from 'react-hot-toast';
 import axios from 'axios';
 
 interface ShortenedLink {
   shortUrl: string;
   shortCode: string;
+  domain?: string | null;
   originalUrl: string;
   clicks: number;
   createdAt: string;
   expiresAt?: string;
+  activatesAt?: string | null;
+  maxClicks?: number | null;
+  creationSecret?: string;
+  deduplicated?: boolean;
   customOptions?: {
     [key: string]: any;
   };
@@ -24,11 +29,42 @@ const LinkShortener: React.FC = () => {
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState('');
   const [expiresIn, setExpiresIn] = useState<string>('never');
+  const [customExpiresAt, setCustomExpiresAt] = useState('');
+  const [activatesAt, setActivatesAt] = useState('');
+  const [maxClicks, setMaxClicks] = useState('');
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
   const [customPassword, setCustomPassword] = useState('');
+  const [customAlias, setCustomAlias] = useState('');
   const [isPrivate, setIsPrivate] = useState(false);
   const [redirectDelay, setRedirectDelay] = useState<number>(0);
+  const [utmSource, setUtmSource] = useState('');
+  const [utmMedium, setUtmMedium] = useState('');
+  const [utmCampaign, setUtmCampaign] = useState('');
+  const [stripTracking, setStripTracking] = useState(false);
+  const [forwardQuery, setForwardQuery] = useState(false);
+  const [redirectStatus, setRedirectStatus] = useState('');
+  const [cacheControl, setCacheControl] = useState('');
+  const [referrerPolicy, setReferrerPolicy] = useState('');
+  const [onBroken, setOnBroken] = useState('');
+  const [brokenFallbackUrl, setBrokenFallbackUrl] = useState('');
+  const [onExpiry, setOnExpiry] = useState('');
+  const [expiredFallbackUrl, setExpiredFallbackUrl] = useState('');
+  const [expiredMessage, setExpiredMessage] = useState('');
+  const [previewTitle, setPreviewTitle] = useState('');
+  const [previewDescription, setPreviewDescription] = useState('');
+  const [previewImage, setPreviewImage] = useState('');
+  const [domains, setDomains] = useState<string[]>([]);
+  const [domain, setDomain] = useState('');
   const [urlPreview, setUrlPreview] = useState<string>('');
+  const [qrFormat, setQrFormat] = useState('png');
+  const [qrSize, setQrSize] = useState('300');
+
+  useEffect(() => {
+    // Custom domains are optional; without any the primary domain is used
+    axios.get('/api/domains')
+      .then(response => setDomains(Array.isArray(response.data) ? response.data : []))
+      .catch(() => setDomains([]));
+  }, []);
 
   const isValidUrl = (string: string) => {
     try {
@@ -70,6 +106,16 @@ const LinkShortener: React.FC = () => {
       return;
     }
 
+    if (customAlias && !/^[a-zA-Z0-9-_]{3,50}$/.test(customAlias)) {
+      setError('Custom alias must be 3-50 characters and contain only letters, numbers, hyphens, and underscores');
+      return;
+    }
+
+    if (expiresIn === 'custom' && !customExpiresAt) {
+      setError('Please choose an expiration date');
+      return;
+    }
+
     setError('');
     setIsLoading(true);
 
@@ -89,16 +135,75 @@ const LinkShortener: React.FC = () => {
         customOptions.redirectDelay = redirectDelay;
       }
 
+      if (stripTracking) {
+        customOptions.stripTracking = true;
+      }
+
+      if (forwardQuery) {
+        customOptions.forwardQuery = true;
+      }
+
+      if (redirectStatus) {
+        customOptions.redirectStatus = Number(redirectStatus);
+      }
+
+      if (cacheControl.trim()) {
+        customOptions.cacheControl = cacheControl.trim();
+      }
+
+      if (referrerPolicy) {
+        customOptions.referrerPolicy = referrerPolicy;
+      }
+
+      const socialPreview = {
+        ...(previewTitle.trim() ? { title: previewTitle.trim() } : {}),
+        ...(previewDescription.trim() ? { description: previewDescription.trim() } : {}),
+        ...(previewImage.trim() ? { image: previewImage.trim() } : {})
+      };
+      if (Object.keys(socialPreview).length > 0) {
+        customOptions.socialPreview = socialPreview;
+      }
+
+      if (onBroken) {
+        customOptions.onBroken = onBroken;
+        if (onBroken === 'fallback') {
+          customOptions.brokenFallbackUrl = brokenFallbackUrl.trim();
+        }
+      }
+
+      if (expiresIn !== 'never' && onExpiry) {
+        customOptions.onExpiry = onExpiry;
+        if (onExpiry === 'fallback') {
+          customOptions.expiredFallbackUrl = expiredFallbackUrl.trim();
+        } else {
+          customOptions.expiredMessage = expiredMessage.trim();
+        }
+      }
+
+      const utm = {
+        ...(utmSource.trim() ? { source: utmSource.trim() } : {}),
+        ...(utmMedium.trim() ? { medium: utmMedium.trim() } : {}),
+        ...(utmCampaign.trim() ? { campaign: utmCampaign.trim() } : {})
+      };
+
       // Prepare the request payload
+      // datetime-local values are in the visitor's local time zone
       const payload = { 
         url,
-        expiresIn,
+        ...(expiresIn === 'custom'
+          ? { expiresAt: new Date(customExpiresAt).toISOString() }
+          : { expiresIn }),
+        ...(activatesAt ? { activatesAt: new Date(activatesAt).toISOString() } : {}),
+        ...(maxClicks ? { maxClicks: Number(maxClicks) } : {}),
+        ...(customAlias ? { customAlias } : {}),
+        ...(domain ? { domain } : {}),
+        ...(Object.keys(utm).length > 0 ? { utm } : {}),
         ...(Object.keys(customOptions).length > 0 ? { customOptions } : {})
       };
 
       const response = await axios.post('/api/shorten', payload);
       setShortenedLink(response.data);
-      toast.success('Link shortened successfully!');
+      toast.success(response.data.deduplicated ? 'This URL was already shortened, here is the existing link' : 'Link shortened successfully!');
     } catch (err: any) {
       const errorMessage = err.response?.data?.error || 'Failed to shorten URL';
       setError(errorMessage);
@@ -128,10 +233,38 @@ const LinkShortener: React.FC = () => {
     setCopied(false);
     setExpiresIn('never');
     setCustomPassword('');
+    setCustomAlias('');
+    setDomain('');
     setIsPrivate(false);
     setRedirectDelay(0);
+    setUtmSource('');
+    setUtmMedium('');
+    setUtmCampaign('');
+    setStripTracking(false);
+    setForwardQuery(false);
+    setRedirectStatus('');
+    setCacheControl('');
+    setReferrerPolicy('');
+    setOnBroken('');
+    setBrokenFallbackUrl('');
+    setOnExpiry('');
+    setExpiredFallbackUrl('');
+    setExpiredMessage('');
+    setPreviewTitle('');
+    setPreviewDescription('');
+    setPreviewImage('');
     setShowAdvancedOptions(false);
     setUrlPreview('');
+    setQrFormat('png');
+    setQrSize('300');
+  };
+
+  const getQrImageUrl = (link: ShortenedLink, params: Record<string, string>) => {
+    const query = new URLSearchParams(params);
+    if (link.domain) {
+      query.set('domain', link.domain);
+    }
+    return `/api/mobile/qr/${encodeURIComponent(link.shortCode)}?${query.toString()}`;
   };
 
   return (
@@ -195,7 +328,7 @@ const LinkShortener: React.FC = () => {
                 {urlPreview && !error && (
                   <div className="mt-2 text-sm text-gray-500 flex items-center">
                     <span className="text-gray-400 mr-1">Preview:</span>
-                    <span className="font-mono bg-gray-50 px-2 py-1 rounded">velink.me/abc123</span>
+                    <span className="font-mono bg-gray-50 px-2 py-1 rounded">{domain || 'velink.me'}/{customAlias || 'abc123'}</span>
                     <span className="mx-2 text-gray-300">→</span>
                     <span className="truncate">{urlPreview}</span>
                   </div>
@@ -238,7 +371,60 @@ const LinkShortener: React.FC = () => {
                   <option value="7d">7 days</option>
                   <option value="30d">30 days</option>
                   <option value="365d">1 year</option>
+                  <option value="custom">Custom date...</option>
                 </select>
+                {expiresIn === 'custom' && (
+                  <input
+                    type="datetime-local"
+                    id="customExpiresAt"
+                    value={customExpiresAt}
+                    onChange={(e) => setCustomExpiresAt(e.target.value)}
+                    className="input-primary mt-2"
+                    disabled={isLoading}
+                  />
+                )}
+                {expiresIn !== 'never' && (
+                  <div className="mt-2">
+                    <label htmlFor="onExpiry" className="block text-sm font-medium text-gray-700 mb-1">
+                      After it expires
+                    </label>
+                    <select
+                      id="onExpiry"
+                      value={onExpiry}
+                      onChange={(e) => setOnExpiry(e.target.value)}
+                      className="select-primary"
+                      disabled={isLoading}
+                    >
+                      <option value="">Show the standard "link expired" page</option>
+                      <option value="fallback">Send visitors to a fallback URL</option>
+                      <option value="message">Show my own message</option>
+                    </select>
+                    {onExpiry === 'fallback' && (
+                      <input
+                        type="url"
+                        aria-label="Fallback URL after expiry"
+                        value={expiredFallbackUrl}
+                        onChange={(e) => setExpiredFallbackUrl(e.target.value)}
+                        placeholder="https://example.com/offer-ended"
+                        className="input-primary mt-2"
+                        maxLength={2048}
+                        disabled={isLoading}
+                      />
+                    )}
+                    {onExpiry === 'message' && (
+                      <textarea
+                        aria-label="Message after expiry"
+                        value={expiredMessage}
+                        onChange={(e) => setExpiredMessage(e.target.value)}
+                        placeholder="This offer has ended. Thanks for your interest!"
+                        className="input-primary mt-2"
+                        rows={2}
+                        maxLength={500}
+                        disabled={isLoading}
+                      />
+                    )}
+                  </div>
+                )}
               </div>
               
               {showAdvancedOptions && (
@@ -248,6 +434,48 @@ const LinkShortener: React.FC = () => {
                   exit={{ opacity: 0, height: 0 }}
                   className="space-y-4 bg-gray-50 p-4 rounded-lg"
                 >
+                  {domains.length > 0 && (
+                    <div>
+                      <label htmlFor="domain" className="block text-sm font-medium text-gray-700 mb-1">
+                        Domain
+                      </label>
+                      <select
+                        id="domain"
+                        value={domain}
+                        onChange={(e) => setDomain(e.target.value)}
+                        className="select-primary"
+                        disabled={isLoading}
+                      >
+                        <option value="">velink.me</option>
+                        {domains.map(hostname => (
+                          <option key={hostname} value={hostname}>{hostname}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Every domain has its own short codes, so an alias taken on one domain may still be free on another.
+                      </p>
+                    </div>
+                  )}
+
+                  <div>
+                    <label htmlFor="customAlias" className="block text-sm font-medium text-gray-700 mb-1">
+                      Custom alias (optional)
+                    </label>
+                    <input
+                      type="text"
+                      id="customAlias"
+                      value={customAlias}
+                      onChange={(e) => setCustomAlias(e.target.value.trim())}
+                      placeholder="my-link"
+                      className="input-primary"
+                      disabled={isLoading}
+                      maxLength={50}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      3-50 letters, numbers, hyphens or underscores. Leave empty for a random code.
+                    </p>
+                  </div>
+
                   <div>
                     <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
                       Password protection (optional)
@@ -268,6 +496,42 @@ const LinkShortener: React.FC = () => {
                     )}
                   </div>
                   
+                  <div>
+                    <label htmlFor="activatesAt" className="block text-sm font-medium text-gray-700 mb-1">
+                      Go live at (optional)
+                    </label>
+                    <input
+                      type="datetime-local"
+                      id="activatesAt"
+                      value={activatesAt}
+                      onChange={(e) => setActivatesAt(e.target.value)}
+                      className="input-primary"
+                      disabled={isLoading}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Before this time visitors see a "not live yet" page instead of being redirected
+                    </p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="maxClicks" className="block text-sm font-medium text-gray-700 mb-1">
+                      Maximum uses (optional)
+                    </label>
+                    <input
+                      type="number"
+                      id="maxClicks"
+                      min={1}
+                      value={maxClicks}
+                      onChange={(e) => setMaxClicks(e.target.value)}
+                      placeholder="Unlimited"
+                      className="input-primary"
+                      disabled={isLoading}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      The link stops working after this many visits. Use 1 for a one-time link.
+                    </p>
+                  </div>
+
                   <div>
                     <label htmlFor="redirectDelay" className="block text-sm font-medium text-gray-700 mb-1">
                       Redirect delay (seconds)
@@ -289,6 +553,212 @@ const LinkShortener: React.FC = () => {
                       Add a countdown before redirecting to the destination
                     </p>
                   </div>
+
+                  <div>
+                    <label htmlFor="redirectStatus" className="block text-sm font-medium text-gray-700 mb-1">
+                      Redirect type
+                    </label>
+                    <select
+                      id="redirectStatus"
+                      value={redirectStatus}
+                      onChange={(e) => setRedirectStatus(e.target.value)}
+                      className="select-primary"
+                      disabled={isLoading}
+                    >
+                      <option value="">Server default</option>
+                      <option value="301">301 Moved Permanently</option>
+                      <option value="302">302 Found (temporary)</option>
+                      <option value="307">307 Temporary Redirect</option>
+                      <option value="308">308 Permanent Redirect</option>
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Permanent redirects pass SEO value to the destination but browsers may cache them, so later clicks can go uncounted. Links with a click limit, schedule, password or broken-link handling always use an uncached 302
+                    </p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="cacheControl" className="block text-sm font-medium text-gray-700 mb-1">
+                      Cache-Control (optional)
+                    </label>
+                    <input
+                      type="text"
+                      id="cacheControl"
+                      value={cacheControl}
+                      onChange={(e) => setCacheControl(e.target.value)}
+                      placeholder="e.g. no-store or public, max-age=3600"
+                      className="input-primary"
+                      maxLength={200}
+                      disabled={isLoading}
+                    />
+                  </div>
+
+                  <div>
+                    <label htmlFor="referrerPolicy" className="block text-sm font-medium text-gray-700 mb-1">
+                      Referrer policy
+                    </label>
+                    <select
+                      id="referrerPolicy"
+                      value={referrerPolicy}
+                      onChange={(e) => setReferrerPolicy(e.target.value)}
+                      className="select-primary"
+                      disabled={isLoading}
+                    >
+                      <option value="">Server default</option>
+                      <option value="no-referrer">no-referrer</option>
+                      <option value="no-referrer-when-downgrade">no-referrer-when-downgrade</option>
+                      <option value="origin">origin</option>
+                      <option value="origin-when-cross-origin">origin-when-cross-origin</option>
+                      <option value="same-origin">same-origin</option>
+                      <option value="strict-origin">strict-origin</option>
+                      <option value="strict-origin-when-cross-origin">strict-origin-when-cross-origin</option>
+                      <option value="unsafe-url">unsafe-url</option>
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Controls what the destination learns about where the visitor came from
+                    </p>
+                  </div>
+
+                  <div>
+                    <label htmlFor="onBroken" className="block text-sm font-medium text-gray-700 mb-1">
+                      If the destination goes down
+                    </label>
+                    <select
+                      id="onBroken"
+                      value={onBroken}
+                      onChange={(e) => setOnBroken(e.target.value)}
+                      className="select-primary"
+                      disabled={isLoading}
+                    >
+                      <option value="">Keep redirecting</option>
+                      <option value="disable">Show a "temporarily unavailable" page</option>
+                      <option value="fallback">Send visitors to a fallback URL</option>
+                    </select>
+                    {onBroken === 'fallback' && (
+                      <input
+                        type="url"
+                        aria-label="Fallback URL"
+                        value={brokenFallbackUrl}
+                        onChange={(e) => setBrokenFallbackUrl(e.target.value)}
+                        placeholder="https://example.com/status"
+                        className="input-primary mt-2"
+                        maxLength={2048}
+                        disabled={isLoading}
+                      />
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      Destinations are checked regularly; this applies while the last check failed
+                    </p>
+                  </div>
+
+                  <div>
+                    <span className="block text-sm font-medium text-gray-700 mb-1">
+                      Social preview (optional)
+                    </span>
+                    <div className="space-y-2">
+                      <input
+                        type="text"
+                        aria-label="Preview title"
+                        value={previewTitle}
+                        onChange={(e) => setPreviewTitle(e.target.value)}
+                        placeholder="Title"
+                        className="input-primary"
+                        maxLength={200}
+                        disabled={isLoading}
+                      />
+                      <textarea
+                        aria-label="Preview description"
+                        value={previewDescription}
+                        onChange={(e) => setPreviewDescription(e.target.value)}
+                        placeholder="Description"
+                        className="input-primary"
+                        rows={2}
+                        maxLength={500}
+                        disabled={isLoading}
+                      />
+                      <input
+                        type="url"
+                        aria-label="Preview image URL"
+                        value={previewImage}
+                        onChange={(e) => setPreviewImage(e.target.value)}
+                        placeholder="Image URL, e.g. https://example.com/preview.png"
+                        className="input-primary"
+                        maxLength={2048}
+                        disabled={isLoading}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Shown when the link is shared in chat apps and social networks instead of the destination's own preview
+                    </p>
+                  </div>
+
+                  <div>
+                    <span className="block text-sm font-medium text-gray-700 mb-1">
+                      Campaign tracking (optional)
+                    </span>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                      <input
+                        type="text"
+                        aria-label="UTM source"
+                        value={utmSource}
+                        onChange={(e) => setUtmSource(e.target.value)}
+                        placeholder="Source, e.g. newsletter"
+                        className="input-primary"
+                        maxLength={200}
+                        disabled={isLoading}
+                      />
+                      <input
+                        type="text"
+                        aria-label="UTM medium"
+                        value={utmMedium}
+                        onChange={(e) => setUtmMedium(e.target.value)}
+                        placeholder="Medium, e.g. email"
+                        className="input-primary"
+                        maxLength={200}
+                        disabled={isLoading}
+                      />
+                      <input
+                        type="text"
+                        aria-label="UTM campaign"
+                        value={utmCampaign}
+                        onChange={(e) => setUtmCampaign(e.target.value)}
+                        placeholder="Campaign, e.g. spring_sale"
+                        className="input-primary"
+                        maxLength={200}
+                        disabled={isLoading}
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Added to the destination as utm_source, utm_medium and utm_campaign
+                    </p>
+                  </div>
+
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="stripTracking"
+                      checked={stripTracking}
+                      onChange={(e) => setStripTracking(e.target.checked)}
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                      disabled={isLoading}
+                    />
+                    <label htmlFor="stripTracking" className="ml-2 block text-sm text-gray-700">
+                      Remove existing tracking parameters (utm_*, gclid, fbclid, ...) from the URL
+                    </label>
+                  </div>
+
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="forwardQuery"
+                      checked={forwardQuery}
+                      onChange={(e) => setForwardQuery(e.target.checked)}
+                      className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                      disabled={isLoading}
+                    />
+                    <label htmlFor="forwardQuery" className="ml-2 block text-sm text-gray-700">
+                      Forward query parameters added to the short link to the destination
+                    </label>
+                  </div>
                   
                   <div className="flex items-center">
                     <input
@@ -377,6 +847,23 @@ const LinkShortener: React.FC = () => {
                       <ExternalLink className="h-4 w-4" />
                     </a>
                   </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Add a + to the end (
+                    <a
+                      href={`${shortenedLink.shortUrl}+`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-primary-600 hover:text-primary-700"
+                    >
+                      {shortenedLink.shortUrl}+
+                    </a>
+                    ) to preview where the link goes without opening it.
+                  </p>
+                  {shortenedLink.deduplicated && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      This is an existing public link for the same URL, so it has no owner secret and may already have clicks.
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -391,14 +878,11 @@ const LinkShortener: React.FC = () => {
                   />
                 </div>
 
-                {/* Creation Secret - REMOVED FOR SIMPLIFICATION
-                GDPR complexity was removed since no personal data is collected.
-                The entire creation secret system has been simplified.
                 {shortenedLink.creationSecret && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       <Key className="w-4 h-4 inline mr-1" />
-                      Creation Secret (Required for Data Deletion)
+                      Owner Secret
                     </label>
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                       <div className="flex items-center space-x-2 mb-2">
@@ -411,21 +895,20 @@ const LinkShortener: React.FC = () => {
                         <button
                           onClick={() => {
                             navigator.clipboard.writeText(shortenedLink.creationSecret!);
-                            toast.success('Creation secret copied!');
+                            toast.success('Owner secret copied!');
                           }}
                           className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors"
-                          title="Copy creation secret"
+                          title="Copy owner secret"
                         >
                           <Copy className="h-4 w-4" />
                         </button>
                       </div>
                       <p className="text-sm text-blue-800">
-                        � <strong>Save this code</strong> to manage your link later (delete, change settings, etc.). 
-                        <a href="/gdpr" className="text-blue-600 underline ml-1">Manage your links</a>
+                        🔑 <strong>Save this secret now</strong> - it is shown only once. You need it to change the destination or expiry, delete the link, or view private analytics.
                       </p>
                     </div>
                   </div>
-                )} */}
+                )}
 
                 <div className="grid grid-cols-2 gap-4 mb-4">
                   <div className="bg-gray-50 rounded-lg p-4 text-center">
@@ -435,7 +918,7 @@ const LinkShortener: React.FC = () => {
                     <div className="text-2xl font-bold text-gray-900">{shortenedLink.clicks}</div>
                     <div className="text-sm text-gray-600">Clicks</div>
                     <Link 
-                      to={`/analytics/${shortenedLink.shortCode}`}
+                      to={`/analytics/${shortenedLink.shortCode}${shortenedLink.domain ? `?domain=${encodeURIComponent(shortenedLink.domain)}` : ''}`}
                       className="mt-2 text-xs text-primary-600 hover:text-primary-700 inline-block"
                     >
                       View Analytics
@@ -451,14 +934,69 @@ const LinkShortener: React.FC = () => {
                         Expires: {new Date(shortenedLink.expiresAt).toLocaleDateString()}
                       </div>
                     )}
+                    {shortenedLink.maxClicks && (
+                      <div className="mt-1 text-xs text-red-600">
+                        {shortenedLink.maxClicks === 1 ? 'One-time link' : `Limited to ${shortenedLink.maxClicks} uses`}
+                      </div>
+                    )}
+                    {shortenedLink.activatesAt && (
+                      <div className="mt-1 text-xs text-blue-600">
+                        Goes live: {new Date(shortenedLink.activatesAt).toLocaleString()}
+                      </div>
+                    )}
                   </div>
                 </div>
                 
+                <div className="mb-4 p-4 bg-gray-50 rounded-lg flex flex-col sm:flex-row items-center gap-4">
+                  <img
+                    src={getQrImageUrl(shortenedLink, { format: 'svg', size: '160' })}
+                    alt={`QR code for ${shortenedLink.shortUrl}`}
+                    className="h-32 w-32 rounded bg-white"
+                  />
+                  <div className="flex-1 w-full">
+                    <div className="flex items-center text-sm font-medium text-gray-900 mb-2">
+                      <QrCode className="h-4 w-4 mr-2 text-primary-600" />
+                      QR code
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 mb-3">
+                      <select
+                        value={qrFormat}
+                        onChange={(e) => setQrFormat(e.target.value)}
+                        className="select-primary"
+                        aria-label="QR code format"
+                      >
+                        <option value="png">PNG</option>
+                        <option value="svg">SVG</option>
+                        <option value="jpeg">JPEG</option>
+                      </select>
+                      <select
+                        value={qrSize}
+                        onChange={(e) => setQrSize(e.target.value)}
+                        className="select-primary"
+                        aria-label="QR code size"
+                      >
+                        <option value="200">200 px</option>
+                        <option value="300">300 px</option>
+                        <option value="500">500 px</option>
+                        <option value="1000">1000 px</option>
+                      </select>
+                    </div>
+                    <a
+                      href={getQrImageUrl(shortenedLink, { format: qrFormat, size: qrSize, download: 'true' })}
+                      download
+                      className="btn-secondary w-full flex items-center justify-center"
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Download QR code
+                    </a>
+                  </div>
+                </div>
+
                 {shortenedLink.customOptions && Object.keys(shortenedLink.customOptions).length > 0 && (
                   <div className="mb-4 p-3 bg-gray-50 rounded-lg text-sm">
                     <div className="font-medium mb-1">Additional options:</div>
                     <ul className="text-gray-600">
-                      {shortenedLink.customOptions.password && (
+                      {shortenedLink.customOptions.passwordProtected && (
                         <li>🔒 Password protected</li>
                       )}
                       {shortenedLink.customOptions.isPrivate && (
@@ -467,6 +1005,30 @@ const LinkShortener: React.FC = () => {
                       {shortenedLink.customOptions.redirectDelay && shortenedLink.customOptions.redirectDelay > 0 && (
                         <li>⏱️ {shortenedLink.customOptions.redirectDelay}s redirect delay</li>
                       )}
+                      {shortenedLink.customOptions.stripTracking && (
+                        <li>🧹 Tracking parameters removed</li>
+                      )}
+                      {shortenedLink.customOptions.forwardQuery && (
+                        <li>↪️ Query parameters forwarded</li>
+                      )}
+                      {shortenedLink.customOptions.redirectStatus && (
+                        <li>🔀 {shortenedLink.customOptions.redirectStatus} redirect</li>
+                      )}
+                      {shortenedLink.customOptions.cacheControl && (
+                        <li>🗄️ Cache-Control: {shortenedLink.customOptions.cacheControl}</li>
+                      )}
+                      {shortenedLink.customOptions.referrerPolicy && (
+                        <li>🕵️ Referrer-Policy: {shortenedLink.customOptions.referrerPolicy}</li>
+                      )}
+                      {shortenedLink.customOptions.socialPreview && (
+                        <li>💬 Custom social preview{shortenedLink.customOptions.socialPreview.title ? `: ${shortenedLink.customOptions.socialPreview.title}` : ''}</li>
+                      )}
+                      {shortenedLink.customOptions.onBroken === 'disable' && (
+                        <li>🔧 Paused while the destination is down</li>
+                      )}
+                      {shortenedLink.customOptions.onBroken === 'fallback' && (
+                        <li>🔧 Falls back to {shortenedLink.customOptions.brokenFallbackUrl} while the destination is down</li>
+                      )}
                     </ul>
                   </div>
                 )}
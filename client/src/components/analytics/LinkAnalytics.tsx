@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { BarChart3, Calendar, Clock, ExternalLink, Info, ArrowLeft } from 'lucide-react';
+import { BarChart3, Calendar, Clock, ExternalLink, Info, ArrowLeft, Lock, Split, LayoutList } from 'lucide-react';
 import axios from 'axios';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import toast from 'react-hot-toast';
 
 interface LinkAnalyticsData {
@@ -14,22 +14,55 @@ interface LinkAnalyticsData {
     date: string;
     clicks: number;
   }[];
+  variantStats?: {
+    id: string;
+    destination: string | null;
+    weight: number;
+    active: boolean;
+    clicks: number;
+    share: number;
+  }[];
+  bioEntryStats?: {
+    id: string;
+    label: string | null;
+    url: string | null;
+    active: boolean;
+    clicks: number;
+  }[];
 }
 
 const LinkAnalytics: React.FC = () => {
   const { shortCode } = useParams<{ shortCode: string }>();
+  // Links on a custom domain are looked up in that domain's namespace
+  const [searchParams] = useSearchParams();
+  const domain = searchParams.get('domain');
   const [analytics, setAnalytics] = useState<LinkAnalyticsData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  const [requiresSecret, setRequiresSecret] = useState(false);
+  const [ownerSecret, setOwnerSecret] = useState('');
+  const [secretInput, setSecretInput] = useState('');
 
   useEffect(() => {
     const fetchAnalytics = async () => {
       try {
         setIsLoading(true);
-        const response = await axios.get(`/api/analytics/${shortCode}`);
+        const response = await axios.get(`/api/analytics/${shortCode}`, {
+          params: domain ? { domain } : undefined,
+          headers: ownerSecret ? { 'X-Creation-Secret': ownerSecret } : undefined
+        });
         setAnalytics(response.data);
         setError('');
+        setRequiresSecret(false);
       } catch (err: any) {
+        if (err.response?.data?.code === 'OWNER_SECRET_REQUIRED') {
+          setRequiresSecret(true);
+          setError(err.response.data.error);
+          if (ownerSecret) {
+            toast.error('Invalid owner secret');
+          }
+          return;
+        }
         console.error('Failed to fetch link analytics:', err);
         setError(err.response?.data?.error || 'Failed to fetch link analytics');
         toast.error('Failed to fetch link analytics');
@@ -41,7 +74,7 @@ const LinkAnalytics: React.FC = () => {
     if (shortCode) {
       fetchAnalytics();
     }
-  }, [shortCode]);
+  }, [shortCode, domain, ownerSecret]);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -64,6 +97,41 @@ const LinkAnalytics: React.FC = () => {
     );
   }
 
+  if (requiresSecret) {
+    return (
+      <div className="py-16 px-4 sm:px-6 lg:px-8 max-w-6xl mx-auto">
+        <Link to="/" className="inline-flex items-center text-primary-600 hover:text-primary-700 mb-8">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Home
+        </Link>
+
+        <div className="card max-w-md mx-auto text-center">
+          <Lock className="h-12 w-12 text-primary-600 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Private Link</h2>
+          <p className="text-gray-600 mb-6">{error}</p>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setOwnerSecret(secretInput.trim());
+            }}
+            className="space-y-4"
+          >
+            <input
+              type="password"
+              value={secretInput}
+              onChange={(e) => setSecretInput(e.target.value)}
+              placeholder="Owner secret"
+              className="input-primary font-mono"
+            />
+            <button type="submit" disabled={!secretInput.trim()} className="btn-primary w-full disabled:opacity-50">
+              View Analytics
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="py-16 px-4 sm:px-6 lg:px-8 max-w-6xl mx-auto">
@@ -106,6 +174,8 @@ const LinkAnalytics: React.FC = () => {
   // In a real implementation, we would use a proper charting library like Chart.js or Recharts
   // This is a simplified version to demonstrate the concept
   const maxClicks = Math.max(...analytics.clickData.map(d => d.clicks));
+  // Bio page buttons are compared by their share of all button clicks
+  const totalButtonClicks = (analytics.bioEntryStats || []).reduce((sum, entry) => sum + entry.clicks, 0);
   
   return (
     <div className="py-16 px-4 sm:px-6 lg:px-8 max-w-6xl mx-auto">
@@ -265,6 +335,100 @@ const LinkAnalytics: React.FC = () => {
           </div>
         </motion.div>
         
+        {analytics.variantStats && analytics.variantStats.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.45 }}
+            className="card mt-12"
+          >
+            <div className="flex items-center mb-6">
+              <div className="bg-orange-50 p-3 rounded-lg mr-4">
+                <Split className="h-6 w-6 text-orange-600" />
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900">A/B Variants</h3>
+            </div>
+
+            <div className="space-y-4">
+              {analytics.variantStats.map((variant) => (
+                <div key={variant.id}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <div className="flex items-center min-w-0">
+                      <span className="font-semibold text-gray-900 mr-2">Variant {variant.id}</span>
+                      {variant.active ? (
+                        <span className="text-gray-500 truncate">{variant.destination} · weight {variant.weight}</span>
+                      ) : (
+                        <span className="text-gray-400">removed</span>
+                      )}
+                    </div>
+                    <span className="text-gray-700 whitespace-nowrap ml-4">
+                      {variant.clicks} clicks ({variant.share}%)
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-100 rounded-full h-2">
+                    <motion.div
+                      initial={{ width: 0 }}
+                      animate={{ width: `${variant.share}%` }}
+                      transition={{ duration: 0.5 }}
+                      className="bg-orange-500 h-2 rounded-full"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
+        {analytics.bioEntryStats && analytics.bioEntryStats.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: 0.45 }}
+            className="card mt-12"
+          >
+            <div className="flex items-center mb-6">
+              <div className="bg-teal-50 p-3 rounded-lg mr-4">
+                <LayoutList className="h-6 w-6 text-teal-600" />
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900">Bio Page Buttons</h3>
+            </div>
+
+            <div className="space-y-4">
+              {analytics.bioEntryStats.map((entry) => {
+                const share = totalButtonClicks > 0 ? Math.round((entry.clicks / totalButtonClicks) * 100) : 0;
+
+                return (
+                  <div key={entry.id}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <div className="flex items-center min-w-0">
+                        {entry.active ? (
+                          <>
+                            <span className="font-semibold text-gray-900 mr-2">{entry.label}</span>
+                            <span className="text-gray-500 truncate">{entry.url}</span>
+                          </>
+                        ) : (
+                          <span className="text-gray-400">Removed button ({entry.id})</span>
+                        )}
+                      </div>
+                      <span className="text-gray-700 whitespace-nowrap ml-4">
+                        {entry.clicks} clicks ({share}%)
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-100 rounded-full h-2">
+                      <motion.div
+                        initial={{ width: 0 }}
+                        animate={{ width: `${share}%` }}
+                        transition={{ duration: 0.5 }}
+                        className="bg-teal-500 h-2 rounded-full"
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </motion.div>
+        )}
+
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
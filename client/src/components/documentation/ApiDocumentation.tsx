@@ -99,11 +99,13 @@ const ApiDocumentation: React.FC = () => {
       name: 'Shorten URL',
       method: 'POST',
       endpoint: '/api/shorten',
-      description: 'Create a new shortened URL from a long URL. This is the core functionality of Velink. Accepts any valid HTTP/HTTPS URL and returns a short code that can be used to redirect users. Optional expiration time can be set (e.g., "30d" for 30 days, "1h" for 1 hour). Rate limited to prevent abuse.',
+      description: 'Create a new shortened URL from a long URL. This is the core functionality of Velink. Accepts any valid HTTP/HTTPS URL and returns a short code that can be used to redirect users. Optional expiration time can be set (e.g., "30d" for 30 days, "1h" for 1 hour). An optional customAlias claims a specific short code; reserved words such as "admin" or "api" are rejected and taken aliases return 409. Instead of expiresIn an exact ISO expiresAt can be given, and activatesAt schedules the link to go live later (until then it shows a "not live yet" page). A utm object (source, medium, campaign) is merged into the destination as utm_* parameters. Set customOptions.stripTracking to remove existing tracking parameters such as gclid or fbclid, and customOptions.forwardQuery to pass query parameters added to the short link on to the destination. customOptions.redirectStatus (301, 302, 307 or 308) picks the redirect type, falling back to the server default, and customOptions.cacheControl and customOptions.referrerPolicy set the Cache-Control and Referrer-Policy headers of the redirect. Links with maxClicks, expiry, activation, a password, onBroken, redirect rules or variants ignore redirectStatus and cacheControl and always answer with a 302 and Cache-Control: no-store. Short links only answer GET requests, so 307 and 308 behave like 302 and 301. Destinations are health-checked in the background; customOptions.onBroken ("disable" or "fallback" with customOptions.brokenFallbackUrl) decides what visitors get while the destination is down; it applies after three failed checks in a row, and broken destinations are re-checked every 15 minutes. Once a link has expired, customOptions.onExpiry sends visitors to customOptions.expiredFallbackUrl ("fallback") or shows customOptions.expiredMessage ("message") instead of the standard expired page; expired links are kept and can be renewed by their owner. customOptions.socialPreview (title, description, image) is served as Open Graph and Twitter Card tags to link preview crawlers such as Slack or Discord; their fetches are not counted as clicks. A domain field creates the link on one of the custom domains listed by GET /api/domains; every domain has its own short codes, so look such links up with ?domain=hostname. With dedupe set to true (or DEDUPE_LINKS enabled on the server) a plain request without alias, expiry, description or customOptions returns the existing public link for the same URL with status 200 and deduplicated: true; such responses carry no creationSecret, and links with passwords, expiry or other options are never reused. A bioPage object (title, optional avatarUrl, and 1-50 entries of label and url) turns the link into a link-in-bio page: the short code shows a landing page with one button per entry instead of redirecting, and every button click is tracked on its own. Rate limited to prevent abuse.',
       category: 'public',
       requestBody: {
         url: 'https://example.com/very-long-url-to-shorten',
-        expiresIn: '30d'
+        expiresIn: '30d',
+        customAlias: 'my-link',
+        utm: { source: 'newsletter', medium: 'email', campaign: 'spring_sale' }
       },
       responseExample: {
         success: true,
@@ -220,7 +222,7 @@ const ApiDocumentation: React.FC = () => {
       name: 'Track Link Click',
       method: 'POST',
       endpoint: '/api/track/:shortCode',
-      description: 'Track analytics data for a link click. This endpoint records visitor information including user agent, referrer, and geographical data for analytics purposes. Used internally when users click on shortened links.',
+      description: 'Track analytics data for a link click. This endpoint records visitor information including user agent, referrer, and geographical data for analytics purposes. Used internally when users click on shortened links. Blocked, expired, not-yet-active and click-capped links are not counted.',
       category: 'public',
       requestBody: {
         userAgent: 'Mozilla/5.0...',
@@ -269,8 +271,8 @@ const ApiDocumentation: React.FC = () => {
       id: 'qr-code',
       name: 'QR Code Generator',
       method: 'GET',
-      endpoint: '/qr/:shortCode',
-      description: 'Generates QR codes for shortened URLs enabling easy mobile sharing and offline-to-online bridge functionality. This endpoint creates high-quality QR code images that encode the short URL for convenient scanning with mobile devices. Essential for mobile marketing, offline promotions, and seamless link sharing with customizable size and error correction levels.',
+      endpoint: '/api/mobile/qr/:shortCode',
+      description: 'Returns a QR code image of the short URL. Query parameters: format (png, svg or jpeg, default png), size (50-1000 pixels, default 200), ecc (error correction level L, M, Q or H, default M), color and background (hex colours, default 000000 and ffffff), margin (quiet zone in modules, 0-10, default 4) and logo (http(s) URL of an image drawn in the centre; needs ecc Q or H and defaults to H). download=true sends the image as a file download, and ?domain=hostname selects a link on a custom domain. Invalid options return 400 with code INVALID_QR_OPTIONS, logos that cannot be loaded 400 with code INVALID_LOGO.',
       category: 'system',
       responseExample: 'PNG image data'
     },
@@ -318,17 +320,49 @@ const ApiDocumentation: React.FC = () => {
         currentPage: 1
       }
     },
+    {
+      id: 'admin-search-links',
+      name: 'Search Links',
+      method: 'GET',
+      endpoint: '/api/admin/links/search',
+      description: 'Ranked full-text search over the short code, destination URL, description and tags of every link that is not in the trash, private links included. Every word of q (at least 2 characters) must match the start of a word, so "spr sale" finds "spring-sale". Results come best match first, up to limit (default 20, at most 500). Each result has a relevance score and highlights: every field split into segments with match set on the matching words, and one segment list per tag.',
+      category: 'admin',
+      authentication: 'Bearer Token',
+      responseExample: {
+        query: 'spring sale',
+        total: 1,
+        results: [
+          {
+            id: 12,
+            shortCode: 'spring-sale',
+            domain: null,
+            originalUrl: 'https://example.com/sale',
+            description: 'Spring offers',
+            tags: ['campaigns'],
+            clicks: 42,
+            createdAt: '2024-01-15 10:30:00',
+            score: 4.21,
+          highlights: {
+            shortCode: [{ text: 'spring', match: true }, { text: '-', match: false }, { text: 'sale', match: true }],
+            originalUrl: [{ text: 'https://example.com/', match: false }, { text: 'sale', match: true }],
+            description: [{ text: 'Spring', match: true }, { text: ' offers', match: false }],
+            tags: [[{ text: 'campaigns', match: false }]]
+          }
+          }
+        ]
+      }
+    },
     {
       id: 'admin-delete-link',
       name: 'Delete Link by ID',
       method: 'DELETE',
       endpoint: '/api/admin/links/:id',
-      description: 'Permanently delete a specific shortened link using its database ID. This action is irreversible and will break any existing references to the link. Useful for removing spam, inappropriate content, or expired promotional links. Includes audit logging for security.',
+      description: 'Move a link to the trash using its database ID or short code. The link stops resolving right away, but its code stays reserved and its clicks and history are kept, so it can be restored until it is purged after the retention period (TRASH_RETENTION_DAYS, 30 days by default).',
       category: 'admin',
       authentication: 'Bearer Token',
       responseExample: {
         success: true,
-        message: 'Link deleted successfully'
+        message: 'Link moved to the trash'
       }
     },
     {
@@ -336,7 +370,7 @@ const ApiDocumentation: React.FC = () => {
       name: 'Bulk Delete Links',
       method: 'DELETE',
       endpoint: '/api/admin/links/bulk',
-      description: 'Delete multiple shortened links simultaneously using their database IDs. Efficient for content moderation, cleanup operations, or removing batches of expired links. Includes transaction support to ensure data consistency. Returns detailed results for each deletion attempt.',
+      description: 'Move several links to the trash at once using their database IDs. Like single deletions, the links stop resolving but can be restored from the trash until they are purged.',
       category: 'admin',
       authentication: 'Bearer Token',
       requestBody: {
@@ -344,8 +378,32 @@ const ApiDocumentation: React.FC = () => {
       },
       responseExample: {
         success: true,
-        deleted: 5,
-        message: '5 links deleted successfully'
+        trashed: 5
+      }
+    },
+    {
+      id: 'admin-get-trash',
+      name: 'Get Trash',
+      method: 'GET',
+      endpoint: '/api/admin/trash',
+      description: 'List the links in the trash, newest deletion first, with the time each one will be purged. POST /api/admin/trash/:id/restore brings a link back, DELETE /api/admin/trash/:id deletes it for good together with its clicks and history. The retention period is read and changed with GET and POST /api/admin/trash-settings ({ retentionDays }).',
+      category: 'admin',
+      authentication: 'Bearer Token',
+      responseExample: {
+        retentionDays: 30,
+        links: [
+          {
+            id: 12,
+            shortCode: 'spring-sale',
+            domain: null,
+            originalUrl: 'https://example.com/sale',
+            description: null,
+            clicks: 42,
+            createdAt: '2024-01-15 10:30:00',
+            deletedAt: '2024-02-01T09:00:00.000Z',
+            purgeAt: '2024-03-02T09:00:00.000Z'
+          }
+        ]
       }
     },
     {
@@ -367,7 +425,7 @@ const ApiDocumentation: React.FC = () => {
       name: 'Update Link Details',
       method: 'PATCH',
       endpoint: '/api/admin/links/:id',
-      description: 'Update link details such as original URL or expiration',
+      description: 'Update link details such as original URL or expiration. bioPage replaces the link-in-bio page, or removes it when null so the link redirects again; entries keep their id (b1, b2, ...) when reordered, and new entries without an id get the next free one.',
       category: 'admin',
       authentication: 'Bearer Token',
       requestBody: {
@@ -384,6 +442,22 @@ const ApiDocumentation: React.FC = () => {
         }
       }
     },
+    {
+      id: 'admin-renew-link',
+      name: 'Renew Link',
+      method: 'POST',
+      endpoint: '/api/admin/links/:id/renew',
+      description: 'Extend the expiry of a link or bring an expired link back under the same code. expiresIn (1d, 7d, 30d, 365d) is added to the current expiry time, or to now if the link has already expired; "never" removes the expiry. An exact future expiresAt can be given instead. Link owners can do the same with POST /api/v1/links/:shortCode/renew and their creation secret.',
+      category: 'admin',
+      authentication: 'Bearer Token',
+      requestBody: {
+        expiresIn: '30d'
+      },
+      responseExample: {
+        success: true,
+        expiresAt: '2025-02-14T10:30:00.000Z'
+      }
+    },
 
     // =============== ADMIN STATISTICS & ANALYTICS ===============
     {
@@ -1017,6 +1091,15 @@ const ApiDocumentation: React.FC = () => {
       category: 'system',
       responseExample: 'HTTP 302 redirect to original URL'
     },
+    {
+      id: 'bio-page-entry',
+      name: 'Open Bio Page Button',
+      method: 'GET',
+      endpoint: '/:shortCode/go/:entryId',
+      description: 'Opens one button of a link-in-bio page and records the click with the entry id, so analytics (bioEntryStats) show clicks per button. Unknown entries, and links that are expired, not live yet or still need their password, redirect back to the bio page.',
+      category: 'system',
+      responseExample: 'HTTP 302 redirect to the entry URL'
+    },
 
     // =============== MOBILE APP API ===============
     {
@@ -1322,6 +1405,42 @@ const ApiDocumentation: React.FC = () => {
     },
 
     // =============== MOBILE LINK MANAGEMENT ===============
+    {
+      id: 'mobile-search-links',
+      name: 'Search Public Links',
+      method: 'GET',
+      endpoint: '/api/mobile/search',
+      description: 'Ranked full-text search over short code, destination URL, description and tags. Only links anyone could open are returned: private, password protected, disabled, blocked, expired, used up, scheduled and trashed links never match. Every word of q (at least 2 characters) must match the start of a word. limit (default 20, at most 50) and offset page through the results; highlights mark the matching words as in the admin search.',
+      category: 'mobile',
+      responseExample: {
+        success: true,
+        data: {
+          query: 'spring sale',
+          results: [
+            {
+              shortCode: 'spring-sale',
+              domain: null,
+              originalUrl: 'https://example.com/sale',
+              description: 'Spring offers',
+              tags: ['campaigns'],
+              clicks: 42,
+              createdAt: '2024-01-15 10:30:00',
+              score: 4.21,
+              highlights: {
+                shortCode: [{ text: 'spring', match: true }, { text: '-', match: false }, { text: 'sale', match: true }],
+                originalUrl: [{ text: 'https://example.com/', match: false }, { text: 'sale', match: true }],
+                description: [{ text: 'Spring', match: true }, { text: ' offers', match: false }],
+                tags: [[{ text: 'campaigns', match: false }]]
+              },
+              shortUrl: 'https://velink.me/spring-sale'
+            }
+          ],
+          total: 1,
+          limit: 20,
+          offset: 0
+        }
+      }
+    },
     {
       id: 'mobile-create-link',
       name: 'Create Short Link',
@@ -0,0 +1,176 @@
+/**
+ * Velink Link-in-Bio Pages
+ * A link with a bio page shows a hosted landing page with a title, an avatar
+ * and an ordered list of buttons instead of redirecting. Each button opens
+ * through /:shortCode/go/:entryId, which counts it as a click of its own.
+ * While a bio page is set, redirect rules and A/B variants do not apply; the
+ * link's original_url is kept and used again once the bio page is removed.
+ *
+ * Bio page format:
+ * {
+ *   title: 'Jane Doe',
+ *   avatarUrl: 'https://example.com/jane.png',  // optional
+ *   entries: [{ id: 'b1', label: 'My blog', url: 'https://blog.example.com' }]
+ * }
+ */
+
+const { isValidUrl } = require('./utils');
+const { LinkServiceError } = require('./link-service');
+const { escapeHtml, renderStatusPage } = require('./pages');
+
+const MAX_ENTRIES = 50;
+const MAX_TITLE_LENGTH = 100;
+const MAX_LABEL_LENGTH = 80;
+const MAX_URL_LENGTH = 2048;
+const ENTRY_ID_PATTERN = /^[A-Za-z0-9_-]{1,20}$/;
+
+/**
+ * Parse a stored bio page
+ * @param {string|null} value - JSON column value
+ * @returns {Object|null} Bio page, or null when the link redirects normally
+ */
+function parseBioPage(value) {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const bioPage = JSON.parse(value);
+    return bioPage && Array.isArray(bioPage.entries) ? bioPage : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Validate and normalize a bio page submitted through the API.
+ * Entries without an id get the next free one (b1, b2, ...), so clicks stay
+ * attributed to the same button when entries are reordered or renamed.
+ * @param {Object|null} bioPage - Submitted bio page, null to remove it
+ * @returns {Object|null} Normalized bio page
+ */
+function normalizeBioPage(bioPage) {
+  if (bioPage === null || bioPage === undefined) {
+    return null;
+  }
+
+  const fail = message => {
+    throw new LinkServiceError(message, 'INVALID_BIO_PAGE');
+  };
+
+  if (typeof bioPage !== 'object' || Array.isArray(bioPage)) {
+    fail('bioPage must be an object');
+  }
+
+  const title = typeof bioPage.title === 'string' ? bioPage.title.trim() : '';
+  if (!title || title.length > MAX_TITLE_LENGTH) {
+    fail(`bioPage.title is required and may have at most ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  const avatarUrl = bioPage.avatarUrl || null;
+  if (avatarUrl && (!isValidUrl(avatarUrl) || avatarUrl.length > MAX_URL_LENGTH)) {
+    fail('bioPage.avatarUrl must be a valid URL with http:// or https://');
+  }
+
+  const { entries } = bioPage;
+  if (!Array.isArray(entries) || entries.length === 0 || entries.length > MAX_ENTRIES) {
+    fail(`A bio page needs between 1 and ${MAX_ENTRIES} entries`);
+  }
+
+  const usedIds = new Set();
+  for (const entry of entries) {
+    if (entry && entry.id) {
+      if (usedIds.has(String(entry.id))) {
+        fail('Bio page entry ids must be unique');
+      }
+      usedIds.add(String(entry.id));
+    }
+  }
+
+  const nextId = () => {
+    for (let i = 1; ; i++) {
+      if (!usedIds.has(`b${i}`)) {
+        usedIds.add(`b${i}`);
+        return `b${i}`;
+      }
+    }
+  };
+
+  return {
+    title,
+    avatarUrl,
+    entries: entries.map((entry, index) => {
+      const failEntry = message => fail(`Entry ${index + 1}: ${message}`);
+
+      if (!entry || typeof entry !== 'object') {
+        failEntry('must be an object');
+      }
+
+      const label = typeof entry.label === 'string' ? entry.label.trim() : '';
+      if (!label || label.length > MAX_LABEL_LENGTH) {
+        failEntry(`label is required and may have at most ${MAX_LABEL_LENGTH} characters`);
+      }
+
+      if (!isValidUrl(entry.url) || entry.url.length > MAX_URL_LENGTH) {
+        failEntry('url must be a valid URL with http:// or https://');
+      }
+
+      if (entry.id && !ENTRY_ID_PATTERN.test(String(entry.id))) {
+        failEntry('id may only contain letters, numbers, hyphens and underscores');
+      }
+
+      return {
+        id: entry.id ? String(entry.id) : nextId(),
+        label,
+        url: entry.url
+      };
+    })
+  };
+}
+
+/**
+ * Render the landing page of a bio link
+ * @param {string} shortCode - Short code of the link
+ * @param {Object} bioPage - Parsed bio page
+ * @returns {string} HTML document
+ */
+function renderBioPage(shortCode, bioPage) {
+  const buttons = bioPage.entries.map(entry => `
+    <a class="button bio-entry" href="/${encodeURIComponent(shortCode)}/go/${encodeURIComponent(entry.id)}" rel="nofollow noopener">
+      ${escapeHtml(entry.label)}
+    </a>
+  `).join('');
+
+  return renderStatusPage({
+    title: bioPage.title,
+    heading: bioPage.title,
+    image: bioPage.avatarUrl,
+    // Pages with many entries are taller than the window
+    scrollable: true,
+    head: `
+      <style>
+        .bio-entries {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+          margin-bottom: 32px;
+        }
+        .bio-entry {
+          justify-content: center;
+          width: 100%;
+          margin-bottom: 0;
+          font-size: 16px;
+          padding: 14px 20px;
+          word-break: break-word;
+        }
+      </style>
+    `,
+    body: `<nav class="bio-entries">${buttons}</nav>`
+  });
+}
+
+module.exports = {
+  parseBioPage,
+  normalizeBioPage,
+  renderBioPage
+};
@@ -2,12 +2,18 @@ const sqlite3 = require('sqlite3').verbose();
 const path = require('path');
 const fs = require('fs');
 const crypto = require('crypto');
+const { parseTagList } = require('./tags');
+const { HIGHLIGHT_START, HIGHLIGHT_END } = require('./link-search');
+const { normalizeUrl } = require('./utils');
+
+// How long a statement waits for the write lock held by another connection, e.g. a running import
+const BUSY_TIMEOUT_MS = 10000;
 
 class Database {
-  constructor() {
-    // Use environment variable for database path or default to local
-    const dbDir = process.env.DB_PATH || __dirname;
-    
+  /**
+   * @param {string} [dbDir] - Directory of velink.db, DB_PATH or the server directory when omitted
+   */
+  constructor(dbDir = process.env.DB_PATH || __dirname) {
     // Ensure the directory exists
     if (!fs.existsSync(dbDir)) {
       fs.mkdirSync(dbDir, { recursive: true });
@@ -16,15 +22,18 @@ class Database {
     const dbPath = path.join(dbDir, 'velink.db');
     console.log(`Using database at: ${dbPath}`);
     
+    this.dbPath = dbPath;
     this.db = new sqlite3.Database(dbPath);
-    this.init();
+    this.db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+    // Resolves once tables, columns and migrations are in place
+    this.ready = this.init();
   }
 
   init() {
     const createTableSQL = `
       CREATE TABLE IF NOT EXISTS short_urls (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        short_code TEXT UNIQUE NOT NULL,
+        short_code TEXT NOT NULL,
         original_url TEXT NOT NULL,
         clicks INTEGER DEFAULT 0,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -36,7 +45,17 @@ class Database {
         is_active BOOLEAN DEFAULT 1,
         last_accessed DATETIME,
         updated_at DATETIME,
-        creation_secret TEXT
+        creation_secret TEXT,
+        activates_at DATETIME DEFAULT NULL,
+        max_clicks INTEGER DEFAULT NULL,
+        redirect_rules TEXT,
+        variants TEXT,
+        domain_id INTEGER NOT NULL DEFAULT 0,
+        blocked_reason TEXT,
+        blocked_at DATETIME,
+        deleted_at DATETIME DEFAULT NULL,
+        bio_page TEXT,
+        UNIQUE (domain_id, short_code)
       )
     `;
 
@@ -51,6 +70,9 @@ class Database {
         country TEXT,
         device_type TEXT,
         browser TEXT,
+        variant TEXT,
+        link_id INTEGER,
+        bio_entry TEXT,
         FOREIGN KEY (short_code) REFERENCES short_urls(short_code)
       )
     `;
@@ -74,6 +96,88 @@ class Database {
       )
     `;
 
+    // Branded hostnames. Each has its own short-code namespace; links with
+    // domain_id 0 belong to the primary domain the instance itself runs on.
+    const createDomainsTableSQL = `
+      CREATE TABLE IF NOT EXISTS domains (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        hostname TEXT UNIQUE NOT NULL COLLATE NOCASE,
+        default_url TEXT,
+        not_found_url TEXT,
+        is_active BOOLEAN DEFAULT 1,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    const createTagsTableSQL = `
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    const createLinkTagsTableSQL = `
+      CREATE TABLE IF NOT EXISTS link_tags (
+        link_id INTEGER NOT NULL,
+        tag_id INTEGER NOT NULL,
+        PRIMARY KEY (link_id, tag_id),
+        FOREIGN KEY (link_id) REFERENCES short_urls(id),
+        FOREIGN KEY (tag_id) REFERENCES tags(id)
+      )
+    `;
+
+    const createLinkRevisionsTableSQL = `
+      CREATE TABLE IF NOT EXISTS link_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        link_id INTEGER NOT NULL,
+        short_code TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        changed_fields TEXT,
+        changed_by TEXT,
+        ip_address TEXT,
+        reverted_from INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (link_id) REFERENCES short_urls(id)
+      )
+    `;
+
+    // Destination screening: admin managed rules and a log of rejected link creations
+    const createBlocklistRulesTableSQL = `
+      CREATE TABLE IF NOT EXISTS blocklist_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type TEXT NOT NULL,
+        pattern TEXT NOT NULL,
+        reason TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    const createBlockedAttemptsTableSQL = `
+      CREATE TABLE IF NOT EXISTS blocked_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        url TEXT NOT NULL,
+        provider TEXT,
+        reason TEXT,
+        ip_address TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    const createLinkHealthTableSQL = `
+      CREATE TABLE IF NOT EXISTS link_health (
+        link_id INTEGER PRIMARY KEY,
+        status_code INTEGER,
+        response_time_ms INTEGER,
+        redirect_chain TEXT,
+        error TEXT,
+        is_broken BOOLEAN DEFAULT 0,
+        failure_count INTEGER DEFAULT 0,
+        broken_since DATETIME,
+        checked_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
     const createIndexSQL = `
       CREATE INDEX IF NOT EXISTS idx_short_code ON short_urls(short_code);
       CREATE INDEX IF NOT EXISTS idx_original_url ON short_urls(original_url);
@@ -82,6 +186,47 @@ class Database {
       CREATE INDEX IF NOT EXISTS idx_clicks_clicked_at ON clicks(clicked_at);
       CREATE INDEX IF NOT EXISTS idx_bug_reports_created_at ON bug_reports(created_at);
       CREATE INDEX IF NOT EXISTS idx_bug_reports_status ON bug_reports(status);
+      CREATE INDEX IF NOT EXISTS idx_link_tags_tag_id ON link_tags(tag_id);
+      CREATE INDEX IF NOT EXISTS idx_link_revisions_link_id ON link_revisions(link_id);
+      CREATE INDEX IF NOT EXISTS idx_clicks_link_id ON clicks(link_id);
+      CREATE INDEX IF NOT EXISTS idx_blocked_attempts_created_at ON blocked_attempts(created_at);
+    `;
+
+    // Full-text index for link search (see link-search.js). The rowid is the
+    // link id; triggers keep it current and the last statement indexes links
+    // created before the index existed.
+    const linkSearchTagsSQL = (linkId) => `(
+      SELECT GROUP_CONCAT(tags.name)
+      FROM link_tags
+      JOIN tags ON tags.id = link_tags.tag_id
+      WHERE link_tags.link_id = ${linkId}
+    )`;
+    const createSearchIndexSQL = `
+      CREATE VIRTUAL TABLE IF NOT EXISTS link_search USING fts5(
+        short_code, original_url, description, tags, tokenize = 'unicode61'
+      );
+      CREATE TRIGGER IF NOT EXISTS link_search_insert AFTER INSERT ON short_urls BEGIN
+        INSERT INTO link_search (rowid, short_code, original_url, description, tags)
+        VALUES (new.id, new.short_code, new.original_url, new.description, ${linkSearchTagsSQL('new.id')});
+      END;
+      CREATE TRIGGER IF NOT EXISTS link_search_update AFTER UPDATE OF short_code, original_url, description ON short_urls BEGIN
+        UPDATE link_search
+        SET short_code = new.short_code, original_url = new.original_url, description = new.description
+        WHERE rowid = new.id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS link_search_delete AFTER DELETE ON short_urls BEGIN
+        DELETE FROM link_search WHERE rowid = old.id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS link_search_tag_insert AFTER INSERT ON link_tags BEGIN
+        UPDATE link_search SET tags = ${linkSearchTagsSQL('new.link_id')} WHERE rowid = new.link_id;
+      END;
+      CREATE TRIGGER IF NOT EXISTS link_search_tag_delete AFTER DELETE ON link_tags BEGIN
+        UPDATE link_search SET tags = ${linkSearchTagsSQL('old.link_id')} WHERE rowid = old.link_id;
+      END;
+      INSERT INTO link_search (rowid, short_code, original_url, description, tags)
+      SELECT id, short_code, original_url, description, ${linkSearchTagsSQL('short_urls.id')}
+      FROM short_urls
+      WHERE id NOT IN (SELECT rowid FROM link_search);
     `;
 
     // Add new columns to existing tables if they don't exist
@@ -91,17 +236,36 @@ class Database {
       ALTER TABLE short_urls ADD COLUMN last_accessed DATETIME;
       ALTER TABLE short_urls ADD COLUMN updated_at DATETIME;
       ALTER TABLE short_urls ADD COLUMN creation_secret TEXT;
+      ALTER TABLE short_urls ADD COLUMN activates_at DATETIME DEFAULT NULL;
+      ALTER TABLE short_urls ADD COLUMN max_clicks INTEGER DEFAULT NULL;
+      ALTER TABLE short_urls ADD COLUMN redirect_rules TEXT;
+      ALTER TABLE short_urls ADD COLUMN variants TEXT;
+      ALTER TABLE short_urls ADD COLUMN domain_id INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE short_urls ADD COLUMN blocked_reason TEXT;
+      ALTER TABLE short_urls ADD COLUMN blocked_at DATETIME;
+      ALTER TABLE short_urls ADD COLUMN deleted_at DATETIME DEFAULT NULL;
+      ALTER TABLE short_urls ADD COLUMN bio_page TEXT;
       ALTER TABLE clicks ADD COLUMN referrer TEXT;
       ALTER TABLE clicks ADD COLUMN country TEXT;
       ALTER TABLE clicks ADD COLUMN device_type TEXT;
       ALTER TABLE clicks ADD COLUMN browser TEXT;
+      ALTER TABLE clicks ADD COLUMN variant TEXT;
+      ALTER TABLE clicks ADD COLUMN link_id INTEGER;
+      ALTER TABLE clicks ADD COLUMN bio_entry TEXT;
+      ALTER TABLE link_health ADD COLUMN failure_count INTEGER DEFAULT 0;
     `;
 
-    this.db.serialize(() => {
+    return new Promise(resolve => this.db.serialize(() => {
       this.db.run(createTableSQL);
       this.db.run(createClicksTableSQL);
       this.db.run(createBugReportsTableSQL);
-      this.db.run(createIndexSQL);
+      this.db.run(createDomainsTableSQL);
+      this.db.run(createTagsTableSQL);
+      this.db.run(createLinkTagsTableSQL);
+      this.db.run(createLinkRevisionsTableSQL);
+      this.db.run(createBlocklistRulesTableSQL);
+      this.db.run(createBlockedAttemptsTableSQL);
+      this.db.run(createLinkHealthTableSQL);
       
       // Add new columns if they don't exist (ignore errors for existing columns)
       const statements = addColumnsSQL.split(';').filter(stmt => stmt.trim());
@@ -113,14 +277,69 @@ class Database {
           }
         });
       });
-    });
+
+      this.db.exec(createIndexSQL);
+      this.db.exec(createSearchIndexSQL, (err) => {
+        if (err) {
+          console.error('Link search index setup failed:', err.message);
+        }
+      });
+      // Dropping the old table drops its search triggers, so the rebuild recreates them
+      this.migrateShortCodeNamespaces(createTableSQL, createIndexSQL + createSearchIndexSQL).then(resolve);
+    }));
+  }
+
+  // Databases created before custom domains have a globally UNIQUE short_code.
+  // SQLite cannot drop that constraint, so the table is rebuilt once with
+  // UNIQUE (domain_id, short_code). Existing clicks are linked to their link id
+  // first, while short codes are still unique. The rebuild runs before the
+  // server accepts requests (see `ready`), and is serialized with its rollback.
+  migrateShortCodeNamespaces(createTableSQL, createIndexSQL) {
+    return new Promise(resolve => this.db.get("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'short_urls'", (err, row) => {
+      if (err || !row || row.sql.includes('UNIQUE (domain_id, short_code)')) {
+        return resolve();
+      }
+
+      this.db.all('PRAGMA table_info(short_urls)', (err, columns) => {
+        if (err) {
+          console.log('Database update note:', err.message);
+          return resolve();
+        }
+
+        const columnList = columns.map(column => column.name).join(', ');
+        const rebuildSQL = `
+          BEGIN;
+          UPDATE clicks SET link_id = (
+            SELECT id FROM short_urls WHERE short_urls.short_code = clicks.short_code
+          ) WHERE link_id IS NULL;
+          ${createTableSQL.replace('CREATE TABLE IF NOT EXISTS short_urls', 'CREATE TABLE short_urls_rebuild')};
+          INSERT INTO short_urls_rebuild (${columnList}) SELECT ${columnList} FROM short_urls;
+          DROP TABLE short_urls;
+          ALTER TABLE short_urls_rebuild RENAME TO short_urls;
+          ${createIndexSQL}
+          COMMIT;
+        `;
+
+        this.db.serialize(() => {
+          this.db.exec(rebuildSQL, (err) => {
+            if (err) {
+              console.error('Short code namespace migration failed:', err.message);
+              this.db.exec('ROLLBACK', () => resolve());
+            } else {
+              console.log('Migrated short codes to per-domain namespaces');
+              resolve();
+            }
+          });
+        });
+      });
+    }));
   }
 
   createShortUrl(data) {
     return new Promise((resolve, reject) => {
       const sql = `
-        INSERT INTO short_urls (short_code, original_url, expires_at, ip_address, user_agent, custom_options, description)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO short_urls (short_code, original_url, expires_at, ip_address, user_agent, custom_options, description, creation_secret, activates_at, max_clicks, domain_id, bio_page)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `;
       
       this.db.run(sql, [
@@ -130,7 +349,12 @@ class Database {
         data.ip, 
         data.userAgent, 
         data.customOptions ? JSON.stringify(data.customOptions) : null,
-        data.description || null
+        data.description || null,
+        data.creationSecretHash || null,
+        data.activatesAt || null,
+        data.maxClicks || null,
+        data.domainId || 0,
+        data.bioPage ? JSON.stringify(data.bioPage) : null
       ], function(err) {
         if (err) {
           reject(err);
@@ -144,10 +368,92 @@ class Database {
     });
   }
 
-  findByShortCode(shortCode) {
+  // Insert many links with their tags in one transaction: either all of them are
+  // created or none. The transaction runs on a connection of its own, so writes
+  // of concurrent requests never end up inside it (and are never rolled back
+  // with it); they wait for the write lock until the import is done.
+  async createShortUrls(links) {
+    const db = await new Promise((resolve, reject) => {
+      const connection = new sqlite3.Database(this.dbPath, (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(connection);
+        }
+      });
+    });
+    db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+
+    const run = (sql, params = []) => new Promise((resolve, reject) => {
+      db.run(sql, params, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+    const insertSQL = `
+      INSERT INTO short_urls (short_code, original_url, expires_at, ip_address, user_agent, custom_options, description, creation_secret, activates_at, max_clicks, domain_id, is_active)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    const linkTagSQL = `
+      INSERT OR IGNORE INTO link_tags (link_id, tag_id)
+      SELECT ?, id FROM tags WHERE name = ?
+    `;
+
+    try {
+      // IMMEDIATE takes the write lock up front instead of failing halfway through
+      await run('BEGIN IMMEDIATE');
+      try {
+        const ids = [];
+        for (const data of links) {
+          const id = await run(insertSQL, [
+            data.shortCode,
+            data.originalUrl,
+            data.expiresAt || null,
+            data.ip,
+            data.userAgent,
+            data.customOptions ? JSON.stringify(data.customOptions) : null,
+            data.description || null,
+            data.creationSecretHash || null,
+            data.activatesAt || null,
+            data.maxClicks || null,
+            data.domainId || 0,
+            data.isActive === false ? 0 : 1
+          ]);
+          ids.push(id);
+
+          for (const name of data.tags || []) {
+            await run('INSERT OR IGNORE INTO tags (name) VALUES (?)', [name]);
+            await run(linkTagSQL, [id, name]);
+          }
+        }
+
+        await run('COMMIT');
+        return ids;
+      } catch (error) {
+        await run('ROLLBACK').catch(() => {});
+        throw error;
+      }
+    } finally {
+      db.close();
+    }
+  }
+
+  // Resolve a short code in the namespace of the given host. Hosts that are not
+  // registered (or inactive) custom domains use the primary namespace.
+  // Links in the trash are only found with includeTrashed, e.g. to keep their code reserved
+  findByShortCode(shortCode, host, { includeTrashed = false } = {}) {
     return new Promise((resolve, reject) => {
-      const sql = 'SELECT * FROM short_urls WHERE short_code = ?';
-      this.db.get(sql, [shortCode], (err, row) => {
+      const sql = `
+        SELECT short_urls.*, (SELECT hostname FROM domains WHERE domains.id = short_urls.domain_id) as domain
+        FROM short_urls
+        WHERE short_code = ?
+          AND domain_id = COALESCE((SELECT id FROM domains WHERE hostname = ? AND is_active = 1), 0)
+          ${includeTrashed ? '' : 'AND deleted_at IS NULL'}
+      `;
+      this.db.get(sql, [shortCode, host || null], (err, row) => {
         if (err) {
           reject(err);
         } else {
@@ -157,50 +463,70 @@ class Database {
     });
   }
 
-  findByUrl(url) {
+  // Newest link for a destination that can be handed out to anyone else shortening
+  // it: public, working and without any options, schedule, cap or description.
+  // URLs match when their normalized spelling is the same (see normalizeUrl).
+  findByUrl(url, domainId = 0) {
     return new Promise((resolve, reject) => {
-      const sql = 'SELECT * FROM short_urls WHERE original_url = ? ORDER BY created_at DESC LIMIT 1';
-      this.db.get(sql, [url], (err, row) => {
+      const normalized = normalizeUrl(url);
+      // "https://example.com" is stored without the "/" that normalizing adds
+      const spellings = [...new Set([url, normalized, normalized.replace(/^(https?:\/\/[^/?#]+)\/$/, '$1')])];
+      const sql = `
+        SELECT * FROM short_urls
+        WHERE original_url COLLATE NOCASE IN (${spellings.map(() => '?').join(', ')}) AND domain_id = ?
+          AND (custom_options IS NULL OR custom_options = '{}')
+          AND expires_at IS NULL AND activates_at IS NULL AND max_clicks IS NULL
+          AND redirect_rules IS NULL AND variants IS NULL AND bio_page IS NULL AND (description IS NULL OR description = '')
+          AND is_active = 1 AND blocked_reason IS NULL AND deleted_at IS NULL
+        ORDER BY created_at DESC, id DESC
+      `;
+      this.db.all(sql, [...spellings, domainId], (err, rows) => {
         if (err) {
           reject(err);
         } else {
-          resolve(row);
+          // The case-insensitive lookup also matches paths that differ in case
+          resolve(rows.find(row => normalizeUrl(row.original_url) === normalized));
         }
       });
     });
   }
 
-  incrementClicks(shortCode) {
+  // Resolves false (and records nothing) when a click-capped link has no uses left.
+  // The cap check and the increment are a single UPDATE, so concurrent clicks cannot
+  // overshoot it. No explicit transaction: all requests share one connection, and
+  // overlapping BEGINs from concurrent clicks fail with "transaction within a transaction".
+  incrementClicks(link, clickData = {}) {
     return new Promise((resolve, reject) => {
-      // Start a transaction
-      this.db.serialize(() => {
-        this.db.run('BEGIN TRANSACTION');
+      const db = this.db;
+      const updateSql = `
+        UPDATE short_urls SET clicks = clicks + 1
+        WHERE id = ? AND (max_clicks IS NULL OR clicks < max_clicks)
+      `;
+
+      db.run(updateSql, [link.id], function(err) {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        if (this.changes === 0) {
+          resolve(false);
+          return;
+        }
+        
+        // Insert click record
+        const clickSql = `
+          INSERT INTO clicks (short_code, link_id, ip_address, user_agent, variant, bio_entry)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `;
         
-        // Update click count in short_urls
-        this.db.run('UPDATE short_urls SET clicks = clicks + 1 WHERE short_code = ?', [shortCode], function(err) {
+        db.run(clickSql, [link.short_code, link.id, '', '', clickData.variant || null, clickData.bioEntry || null], (err) => {
           if (err) {
-            this.db.run('ROLLBACK');
             reject(err);
             return;
           }
-          
-          // Insert click record
-          const clickSql = `
-            INSERT INTO clicks (short_code, ip_address, user_agent)
-            VALUES (?, ?, ?)
-          `;
-          
-          this.db.run(clickSql, [shortCode, '', ''], (err) => {
-            if (err) {
-              this.db.run('ROLLBACK');
-              reject(err);
-              return;
-            }
-            
-            this.db.run('COMMIT');
-            resolve(true);
-          });
-        }.bind(this));
+          resolve(true);
+        });
       });
     });
   }
@@ -213,7 +539,7 @@ class Database {
           SUM(clicks) as total_clicks,
           MAX(created_at) as latest_created
         FROM short_urls
-        WHERE (custom_options IS NULL OR custom_options NOT LIKE '%"isPrivate":true%')
+        WHERE deleted_at IS NULL AND (custom_options IS NULL OR custom_options NOT LIKE '%"isPrivate":true%')
       `;
       
       this.db.get(sql, [], (err, row) => {
@@ -243,7 +569,7 @@ class Database {
           COUNT(CASE WHEN created_at >= date('now', '-24 hours') THEN 1 END) as links_today,
           AVG(clicks) as avg_clicks_per_link
         FROM short_urls
-        WHERE (custom_options IS NULL OR custom_options NOT LIKE '%"isPrivate":true%')
+        WHERE deleted_at IS NULL AND (custom_options IS NULL OR custom_options NOT LIKE '%"isPrivate":true%')
       `;
 
       this.db.get(basicStatsSQL, [], (err, basicStats) => {
@@ -388,9 +714,13 @@ class Database {
   getActiveLinks() {
     return new Promise((resolve, reject) => {
       const sql = `
-        SELECT * FROM short_urls 
-        WHERE (expires_at IS NULL OR expires_at > datetime('now'))
-        ORDER BY created_at DESC
+        SELECT short_urls.*, domains.hostname as domain
+        FROM short_urls
+        LEFT JOIN domains ON domains.id = short_urls.domain_id
+        WHERE (short_urls.expires_at IS NULL OR datetime(short_urls.expires_at) > datetime('now'))
+          AND (short_urls.activates_at IS NULL OR datetime(short_urls.activates_at) <= datetime('now'))
+          AND short_urls.deleted_at IS NULL
+        ORDER BY short_urls.created_at DESC
       `;
       
       this.db.all(sql, [], (err, rows) => {
@@ -422,10 +752,10 @@ class Database {
     });
   }
 
-  getLinkAnalytics(shortCode) {
+  getLinkAnalytics(shortCode, host) {
     return new Promise((resolve, reject) => {
       // First get the basic link info
-      this.findByShortCode(shortCode)
+      this.findByShortCode(shortCode, host)
         .then(link => {
           if (!link) {
             reject(new Error('Link not found'));
@@ -438,7 +768,7 @@ class Database {
               date(clicked_at) as date,
               COUNT(*) as clicks
             FROM clicks
-            WHERE short_code = ?
+            WHERE link_id = ?
             GROUP BY date(clicked_at)
             ORDER BY date(clicked_at) DESC
             LIMIT 30
@@ -457,7 +787,7 @@ class Database {
               END as browser,
               COUNT(*) as count
             FROM clicks
-            WHERE short_code = ?
+            WHERE link_id = ?
             GROUP BY browser
             ORDER BY count DESC
           `;
@@ -471,25 +801,41 @@ class Database {
               END as device,
               COUNT(*) as count
             FROM clicks
-            WHERE short_code = ?
+            WHERE link_id = ?
             GROUP BY device
             ORDER BY count DESC
           `;
 
+          // Get A/B variant stats
+          const variantSql = `
+            SELECT variant, COUNT(*) as clicks
+            FROM clicks
+            WHERE link_id = ? AND variant IS NOT NULL
+            GROUP BY variant
+          `;
+
+          // Get link-in-bio button stats
+          const bioEntrySql = `
+            SELECT bio_entry, COUNT(*) as clicks
+            FROM clicks
+            WHERE link_id = ? AND bio_entry IS NOT NULL
+            GROUP BY bio_entry
+          `;
+
           // Get referrer stats if available
           const referrerSql = `
             SELECT 
               'Unknown' as domain,
               COUNT(*) as count
             FROM clicks
-            WHERE short_code = ?
+            WHERE link_id = ?
             LIMIT 5
           `;
 
           // Execute all queries in parallel using Promise.all
           Promise.all([
             new Promise((res, rej) => {
-              this.db.all(clickSql, [shortCode], (err, rows) => {
+              this.db.all(clickSql, [link.id], (err, rows) => {
                 if (err) return rej(err);
                 res(rows.map(row => ({
                   date: row.date,
@@ -498,7 +844,7 @@ class Database {
               });
             }),
             new Promise((res, rej) => {
-              this.db.all(browserSql, [shortCode], (err, rows) => {
+              this.db.all(browserSql, [link.id], (err, rows) => {
                 if (err) return rej(err);
                 const browsers = {};
                 rows.forEach(row => {
@@ -508,7 +854,7 @@ class Database {
               });
             }),
             new Promise((res, rej) => {
-              this.db.all(deviceSql, [shortCode], (err, rows) => {
+              this.db.all(deviceSql, [link.id], (err, rows) => {
                 if (err) return rej(err);
                 const devices = {};
                 rows.forEach(row => {
@@ -518,13 +864,70 @@ class Database {
               });
             }),
             new Promise((res, rej) => {
-              this.db.all(referrerSql, [shortCode], (err, rows) => {
+              this.db.all(referrerSql, [link.id], (err, rows) => {
+                if (err) return rej(err);
+                res(rows);
+              });
+            }),
+            new Promise((res, rej) => {
+              this.db.all(variantSql, [link.id], (err, rows) => {
+                if (err) return rej(err);
+                res(rows);
+              });
+            }),
+            new Promise((res, rej) => {
+              this.db.all(bioEntrySql, [link.id], (err, rows) => {
                 if (err) return rej(err);
                 res(rows);
               });
             })
           ])
-          .then(([clickData, browserStats, deviceStats, referrers]) => {
+          .then(([clickData, browserStats, deviceStats, referrers, variantRows, bioEntryRows]) => {
+            // Include configured variants without clicks, and variants that were removed later
+            let variants = [];
+            try {
+              variants = link.variants ? JSON.parse(link.variants) : [];
+            } catch (e) {
+              variants = [];
+            }
+            const clicksById = {};
+            variantRows.forEach(row => {
+              clicksById[row.variant] = row.clicks;
+            });
+            const variantClicks = variantRows.reduce((sum, row) => sum + row.clicks, 0);
+            const variantStats = [
+              ...variants.map(variant => ({ ...variant, active: true })),
+              ...variantRows
+                .filter(row => !variants.some(variant => variant.id === row.variant))
+                .map(row => ({ id: row.variant, destination: null, weight: 0, active: false }))
+            ].map(variant => ({
+              ...variant,
+              clicks: clicksById[variant.id] || 0,
+              share: variantClicks > 0 ? Math.round(((clicksById[variant.id] || 0) / variantClicks) * 1000) / 10 : 0
+            }));
+
+            // Bio page buttons in page order, then buttons that were removed later
+            let bioEntries = [];
+            try {
+              const bioPage = link.bio_page ? JSON.parse(link.bio_page) : null;
+              bioEntries = bioPage && Array.isArray(bioPage.entries) ? bioPage.entries : [];
+            } catch (e) {
+              bioEntries = [];
+            }
+            const bioClicksById = {};
+            bioEntryRows.forEach(row => {
+              bioClicksById[row.bio_entry] = row.clicks;
+            });
+            const bioEntryStats = [
+              ...bioEntries.map(entry => ({ ...entry, active: true })),
+              ...bioEntryRows
+                .filter(row => !bioEntries.some(entry => entry.id === row.bio_entry))
+                .map(row => ({ id: row.bio_entry, label: null, url: null, active: false }))
+            ].map(entry => ({
+              ...entry,
+              clicks: bioClicksById[entry.id] || 0
+            }));
+
             resolve({
               shortCode: link.short_code,
               originalUrl: link.original_url,
@@ -534,7 +937,9 @@ class Database {
               clickData,
               browserStats,
               deviceStats,
-              referrers
+              referrers,
+              variantStats,
+              bioEntryStats
             });
           })
           .catch(error => {
@@ -759,6 +1164,78 @@ class Database {
     });
   }
 
+  // Update owner-editable fields of a link (destination and expiry)
+  updateShortUrl(id, updateData) {
+    return new Promise((resolve, reject) => {
+      const allowedFields = {
+        originalUrl: 'original_url',
+        expiresAt: 'expires_at',
+        activatesAt: 'activates_at',
+        maxClicks: 'max_clicks',
+        customOptions: 'custom_options',
+        variants: 'variants',
+        redirectRules: 'redirect_rules',
+        description: 'description',
+        bioPage: 'bio_page'
+      };
+      const jsonFields = ['customOptions', 'variants', 'redirectRules', 'bioPage'];
+      const updates = [];
+      const values = [];
+
+      for (const [field, column] of Object.entries(allowedFields)) {
+        if (updateData[field] !== undefined) {
+          updates.push(`${column} = ?`);
+          if (jsonFields.includes(field)) {
+            const value = updateData[field];
+            values.push(value && (!Array.isArray(value) || value.length > 0) ? JSON.stringify(value) : null);
+          } else {
+            values.push(updateData[field]);
+          }
+        }
+      }
+
+      if (updates.length === 0) {
+        resolve(false);
+        return;
+      }
+
+      values.push(id);
+
+      const sql = `
+        UPDATE short_urls 
+        SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `;
+
+      this.db.run(sql, values, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes > 0);
+        }
+      });
+    });
+  }
+
+  // Get links whose custom options contain a password (used for the password hash migration)
+  getPasswordProtectedLinks() {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT id, short_code, custom_options
+        FROM short_urls
+        WHERE custom_options LIKE '%"password"%'
+      `;
+
+      this.db.all(sql, [], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
   // Check if user owns a short code (for verification)
   verifyShortCodeOwnership(shortCode, ipAddress) {
     return new Promise((resolve, reject) => {
@@ -1081,10 +1558,67 @@ class Database {
     });
   }
 
-  deleteLink(shortCode) {
+  deleteLink(id) {
+    return new Promise((resolve, reject) => {
+      const deleteDependentsSql = [
+        'DELETE FROM clicks WHERE link_id = ?',
+        'DELETE FROM link_tags WHERE link_id = ?',
+        'DELETE FROM link_revisions WHERE link_id = ?',
+        'DELETE FROM link_health WHERE link_id = ?'
+      ];
+
+      const deleteNext = (index) => {
+        if (index === deleteDependentsSql.length) {
+          this.db.run('DELETE FROM short_urls WHERE id = ?', [id], function(err) {
+            if (err) {
+              reject(err);
+            } else {
+              resolve(this.changes > 0);
+            }
+          });
+          return;
+        }
+
+        this.db.run(deleteDependentsSql[index], [id], (err) => {
+          if (err) {
+            reject(err);
+          } else {
+            deleteNext(index + 1);
+          }
+        });
+      };
+
+      deleteNext(0);
+    });
+  }
+
+  // Trash Methods
+  // Move links to the trash. They keep their row (and so their code) until purged.
+  trashLinks(ids) {
+    return new Promise((resolve, reject) => {
+      if (ids.length === 0) {
+        resolve(0);
+        return;
+      }
+
+      const sql = `
+        UPDATE short_urls SET deleted_at = ?
+        WHERE id IN (${ids.map(() => '?').join(', ')}) AND deleted_at IS NULL
+      `;
+      this.db.run(sql, [new Date().toISOString(), ...ids], function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    });
+  }
+
+  restoreLink(id) {
     return new Promise((resolve, reject) => {
-      const sql = 'DELETE FROM short_urls WHERE short_code = ?';
-      this.db.run(sql, [shortCode], function(err) {
+      const sql = 'UPDATE short_urls SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL';
+      this.db.run(sql, [id], function(err) {
         if (err) {
           reject(err);
         } else {
@@ -1094,9 +1628,55 @@ class Database {
     });
   }
 
+  getTrashedLinks() {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT short_urls.id, short_urls.short_code, short_urls.original_url, short_urls.clicks,
+          short_urls.description, short_urls.created_at, short_urls.deleted_at, domains.hostname as domain
+        FROM short_urls
+        LEFT JOIN domains ON domains.id = short_urls.domain_id
+        WHERE short_urls.deleted_at IS NOT NULL
+        ORDER BY short_urls.deleted_at DESC
+      `;
+      this.db.all(sql, [], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  // Permanently delete links that were moved to the trash before the cutoff (ISO timestamp)
+  purgeTrashedLinks(cutoff) {
+    return new Promise((resolve, reject) => {
+      const sql = 'SELECT id FROM short_urls WHERE deleted_at IS NOT NULL AND deleted_at <= ?';
+      this.db.all(sql, [cutoff], async (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        try {
+          for (const row of rows) {
+            await this.deleteLink(row.id);
+          }
+          resolve(rows.length);
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  }
+
   findById(id) {
     return new Promise((resolve, reject) => {
-      const sql = 'SELECT * FROM short_urls WHERE id = ?';
+      const sql = `
+        SELECT short_urls.*, (SELECT hostname FROM domains WHERE domains.id = short_urls.domain_id) as domain
+        FROM short_urls
+        WHERE id = ?
+      `;
       this.db.get(sql, [id], (err, row) => {
         if (err) {
           reject(err);
@@ -1107,10 +1687,17 @@ class Database {
     });
   }
 
-  toggleLinkStatus(shortCode) {
+  toggleLinkStatus(id) {
     return new Promise((resolve, reject) => {
-      const sql = 'UPDATE short_urls SET is_active = NOT is_active WHERE short_code = ?';
-      this.db.run(sql, [shortCode], function(err) {
+      // Re-activating a link also lifts a block placed on it by destination screening
+      const sql = `
+        UPDATE short_urls
+        SET is_active = NOT is_active,
+            blocked_reason = CASE WHEN is_active THEN blocked_reason ELSE NULL END,
+            blocked_at = CASE WHEN is_active THEN blocked_at ELSE NULL END
+        WHERE id = ?
+      `;
+      this.db.run(sql, [id], function(err) {
         if (err) {
           reject(err);
         } else {
@@ -1133,8 +1720,9 @@ class Database {
     });
   }
 
-  getAllLinks() {
+  getAllLinks(options = {}) {
     return new Promise((resolve, reject) => {
+      const { tag } = options;
       const sql = `
         SELECT 
           id,
@@ -1146,27 +1734,116 @@ class Database {
           description,
           is_active,
           last_accessed as last_clicked,
-          custom_options
+          custom_options,
+          max_clicks,
+          redirect_rules,
+          variants,
+          bio_page,
+          domain_id,
+          blocked_reason,
+          blocked_at,
+          (SELECT hostname FROM domains WHERE domains.id = short_urls.domain_id) as domain,
+          (
+            SELECT GROUP_CONCAT(tags.name)
+            FROM link_tags
+            JOIN tags ON tags.id = link_tags.tag_id
+            WHERE link_tags.link_id = short_urls.id
+          ) as tags
         FROM short_urls 
+        WHERE deleted_at IS NULL
+        ${tag ? `AND id IN (
+          SELECT link_tags.link_id
+          FROM link_tags
+          JOIN tags ON tags.id = link_tags.tag_id
+          WHERE tags.name = ?
+        )` : ''}
         ORDER BY created_at DESC
       `;
-      this.db.all(sql, [], (err, rows) => {
+      this.db.all(sql, tag ? [tag] : [], (err, rows) => {
         if (err) {
           reject(err);
         } else {
-          resolve(rows);
+          resolve(rows.map(row => ({
+            ...row,
+            tags: parseTagList(row.tags).sort((a, b) => a.localeCompare(b))
+          })));
         }
       });
     });
   }
 
-  getStats() {
+  // Ranked full-text search (see link-search.js). Trashed links never match;
+  // publicOnly also leaves out private, password protected, disabled, blocked,
+  // expired, used up and not yet live links, so anonymous callers only find
+  // links anyone could open. Resolves { total, rows }.
+  searchLinks(matchQuery, { publicOnly = false, limit = 20, offset = 0 } = {}) {
     return new Promise((resolve, reject) => {
-      const queries = [
-        'SELECT COUNT(*) as totalLinks FROM short_urls',
-        'SELECT SUM(clicks) as totalClicks FROM short_urls',
-        'SELECT COUNT(*) as linksToday FROM short_urls WHERE date(created_at) = date("now")',
-        'SELECT COUNT(*) as clicksToday FROM clicks WHERE date(clicked_at) = date("now")'
+      const where = `
+        WHERE link_search MATCH ? AND short_urls.deleted_at IS NULL
+        ${publicOnly ? `
+          AND (short_urls.custom_options IS NULL OR (
+            short_urls.custom_options NOT LIKE '%"isPrivate":true%' AND short_urls.custom_options NOT LIKE '%"password":%'
+          ))
+          AND short_urls.is_active = 1 AND short_urls.blocked_reason IS NULL
+          AND (short_urls.expires_at IS NULL OR datetime(short_urls.expires_at) > datetime('now'))
+          AND (short_urls.activates_at IS NULL OR datetime(short_urls.activates_at) <= datetime('now'))
+          AND (short_urls.max_clicks IS NULL OR short_urls.clicks < short_urls.max_clicks)
+        ` : ''}
+      `;
+      const countSql = `
+        SELECT COUNT(*) as total
+        FROM link_search
+        JOIN short_urls ON short_urls.id = link_search.rowid
+        ${where}
+      `;
+      // Weights per column: short code, destination URL, description, tags
+      const sql = `
+        SELECT
+          short_urls.id,
+          short_urls.short_code,
+          short_urls.original_url,
+          short_urls.description,
+          short_urls.clicks,
+          short_urls.created_at,
+          domains.hostname as domain,
+          link_search.tags as tag_list,
+          highlight(link_search, 0, ?, ?) as short_code_highlight,
+          highlight(link_search, 1, ?, ?) as original_url_highlight,
+          highlight(link_search, 2, ?, ?) as description_highlight,
+          highlight(link_search, 3, ?, ?) as tags_highlight,
+          bm25(link_search, 10.0, 1.0, 4.0, 6.0) as rank
+        FROM link_search
+        JOIN short_urls ON short_urls.id = link_search.rowid
+        LEFT JOIN domains ON domains.id = short_urls.domain_id
+        ${where}
+        ORDER BY rank, short_urls.created_at DESC
+        LIMIT ? OFFSET ?
+      `;
+      const markers = [HIGHLIGHT_START, HIGHLIGHT_END];
+
+      this.db.get(countSql, [matchQuery], (err, count) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        this.db.all(sql, [...markers, ...markers, ...markers, ...markers, matchQuery, limit, offset], (err, rows) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve({ total: count.total, rows });
+          }
+        });
+      });
+    });
+  }
+
+  getStats() {
+    return new Promise((resolve, reject) => {
+      const queries = [
+        'SELECT COUNT(*) as totalLinks FROM short_urls WHERE deleted_at IS NULL',
+        'SELECT SUM(clicks) as totalClicks FROM short_urls WHERE deleted_at IS NULL',
+        'SELECT COUNT(*) as linksToday FROM short_urls WHERE deleted_at IS NULL AND date(created_at) = date("now")',
+        'SELECT COUNT(*) as clicksToday FROM clicks WHERE date(clicked_at) = date("now")'
       ];
 
       Promise.all(queries.map(query => 
@@ -1192,13 +1869,14 @@ class Database {
   getAnalytics() {
     return new Promise((resolve, reject) => {
       const queries = {
-        totalLinks: 'SELECT COUNT(*) as count FROM short_urls',
-        totalClicks: 'SELECT SUM(clicks) as count FROM short_urls',
-        activeLinks: 'SELECT COUNT(*) as count FROM short_urls WHERE is_active = 1',
-        linksToday: 'SELECT COUNT(*) as count FROM short_urls WHERE date(created_at) = date("now")',
+        totalLinks: 'SELECT COUNT(*) as count FROM short_urls WHERE deleted_at IS NULL',
+        totalClicks: 'SELECT SUM(clicks) as count FROM short_urls WHERE deleted_at IS NULL',
+        activeLinks: 'SELECT COUNT(*) as count FROM short_urls WHERE is_active = 1 AND deleted_at IS NULL',
+        linksToday: 'SELECT COUNT(*) as count FROM short_urls WHERE deleted_at IS NULL AND date(created_at) = date("now")',
         topLinks: `
           SELECT short_code as shortCode, original_url as originalUrl, clicks 
           FROM short_urls 
+          WHERE deleted_at IS NULL
           ORDER BY clicks DESC 
           LIMIT 10
         `,
@@ -1275,11 +1953,140 @@ class Database {
     });
   }
 
-  updateLink(id, data) {
+  // Domain Methods
+  getDomains() {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT domains.*, (SELECT COUNT(*) FROM short_urls WHERE short_urls.domain_id = domains.id) as link_count
+        FROM domains
+        ORDER BY hostname
+      `;
+      this.db.all(sql, [], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  findDomainById(id) {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM domains WHERE id = ?', [id], (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      });
+    });
+  }
+
+  findDomainByHostname(hostname) {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM domains WHERE hostname = ?', [hostname], (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      });
+    });
+  }
+
+  createDomain(data) {
+    return new Promise((resolve, reject) => {
+      const sql = 'INSERT INTO domains (hostname, default_url, not_found_url, is_active) VALUES (?, ?, ?, ?)';
+      this.db.run(sql, [
+        data.hostname,
+        data.defaultUrl || null,
+        data.notFoundUrl || null,
+        data.isActive === false ? 0 : 1
+      ], function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  updateDomain(id, data) {
+    return new Promise((resolve, reject) => {
+      const allowedFields = {
+        defaultUrl: 'default_url',
+        notFoundUrl: 'not_found_url',
+        isActive: 'is_active'
+      };
+      const updates = [];
+      const values = [];
+
+      for (const [field, column] of Object.entries(allowedFields)) {
+        if (data[field] !== undefined) {
+          updates.push(`${column} = ?`);
+          values.push(field === 'isActive' ? (data[field] ? 1 : 0) : data[field] || null);
+        }
+      }
+
+      if (updates.length === 0) {
+        resolve(false);
+        return;
+      }
+
+      values.push(id);
+      this.db.run(`UPDATE domains SET ${updates.join(', ')} WHERE id = ?`, values, function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes > 0);
+        }
+      });
+    });
+  }
+
+  deleteDomain(id) {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM domains WHERE id = ?', [id], function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes > 0);
+        }
+      });
+    });
+  }
+
+  // Destination Screening Methods
+  getBlocklistRules() {
     return new Promise((resolve, reject) => {
-      const { description, isActive } = data;
-      const sql = 'UPDATE short_urls SET description = ? WHERE id = ?';
-      this.db.run(sql, [description || '', id], function(err) {
+      this.db.all('SELECT * FROM blocklist_rules ORDER BY created_at DESC, id DESC', [], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  addBlocklistRule(rule) {
+    return new Promise((resolve, reject) => {
+      const sql = 'INSERT INTO blocklist_rules (type, pattern, reason) VALUES (?, ?, ?)';
+      this.db.run(sql, [rule.type, rule.pattern, rule.reason || null], function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  deleteBlocklistRule(id) {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM blocklist_rules WHERE id = ?', [id], function(err) {
         if (err) {
           reject(err);
         } else {
@@ -1289,6 +2096,320 @@ class Database {
     });
   }
 
+  addBlockedAttempt(data) {
+    return new Promise((resolve, reject) => {
+      const sql = 'INSERT INTO blocked_attempts (url, provider, reason, ip_address) VALUES (?, ?, ?, ?)';
+      this.db.run(sql, [data.url, data.provider || null, data.reason || null, data.ip || null], function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  getBlockedAttempts(limit = 100) {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM blocked_attempts ORDER BY id DESC LIMIT ?', [limit], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  // Disable a link whose destination failed screening, keeping the reason for admins
+  blockLink(id, reason) {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        UPDATE short_urls
+        SET is_active = 0, blocked_reason = ?, blocked_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `;
+      this.db.run(sql, [reason, id], function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes > 0);
+        }
+      });
+    });
+  }
+
+  getBlockedLinks() {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT short_urls.id, short_code, original_url, blocked_reason, blocked_at, domains.hostname as domain
+        FROM short_urls
+        LEFT JOIN domains ON domains.id = short_urls.domain_id
+        WHERE blocked_reason IS NOT NULL AND deleted_at IS NULL
+        ORDER BY blocked_at DESC
+      `;
+      this.db.all(sql, [], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  // Link Health Methods
+  // With onlyBroken set, only links whose latest check failed are returned
+  getLinksForHealthCheck(onlyBroken = false) {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT id, short_code, original_url
+        FROM short_urls
+        WHERE is_active = 1 AND blocked_reason IS NULL AND deleted_at IS NULL
+          AND (expires_at IS NULL OR expires_at > ?)
+          ${onlyBroken ? 'AND id IN (SELECT link_id FROM link_health WHERE is_broken = 1)' : ''}
+        ORDER BY id
+      `;
+      this.db.all(sql, [new Date().toISOString()], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  // Store the latest check of a link; broken_since keeps the start of an outage
+  // and failure_count counts the failed checks in a row
+  saveLinkHealth(linkId, result) {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        INSERT INTO link_health (link_id, status_code, response_time_ms, redirect_chain, error, is_broken, failure_count, broken_since, checked_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, CASE WHEN ? THEN CURRENT_TIMESTAMP END, CURRENT_TIMESTAMP)
+        ON CONFLICT(link_id) DO UPDATE SET
+          status_code = excluded.status_code,
+          response_time_ms = excluded.response_time_ms,
+          redirect_chain = excluded.redirect_chain,
+          error = excluded.error,
+          is_broken = excluded.is_broken,
+          failure_count = CASE WHEN excluded.is_broken THEN COALESCE(link_health.failure_count, 0) + 1 ELSE 0 END,
+          broken_since = CASE WHEN excluded.is_broken THEN COALESCE(link_health.broken_since, excluded.broken_since) END,
+          checked_at = excluded.checked_at
+      `;
+      const isBroken = result.isBroken ? 1 : 0;
+      this.db.run(sql, [
+        linkId,
+        result.statusCode,
+        result.responseTimeMs,
+        JSON.stringify(result.redirectChain || []),
+        result.error || null,
+        isBroken,
+        isBroken,
+        isBroken
+      ], (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  getLinkHealth(linkId) {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM link_health WHERE link_id = ?', [linkId], (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row || null);
+        }
+      });
+    });
+  }
+
+  clearLinkHealth(linkId) {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM link_health WHERE link_id = ?', [linkId], (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  getBrokenLinks() {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT short_urls.id, short_urls.short_code, short_urls.original_url, short_urls.custom_options,
+          domains.hostname as domain, link_health.*
+        FROM link_health
+        JOIN short_urls ON short_urls.id = link_health.link_id
+        LEFT JOIN domains ON domains.id = short_urls.domain_id
+        WHERE link_health.is_broken = 1 AND short_urls.deleted_at IS NULL
+        ORDER BY link_health.broken_since DESC
+      `;
+      this.db.all(sql, [], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  getLinkHealthSummary() {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT COUNT(*) as checked, COALESCE(SUM(is_broken), 0) as broken, MAX(checked_at) as last_checked_at
+        FROM link_health
+      `;
+      this.db.get(sql, [], (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      });
+    });
+  }
+
+  // Tag Methods
+  getTags() {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT tags.id, tags.name, tags.created_at, COUNT(link_tags.link_id) as link_count
+        FROM tags
+        LEFT JOIN link_tags ON link_tags.tag_id = tags.id
+        GROUP BY tags.id
+        ORDER BY tags.name COLLATE NOCASE
+      `;
+      this.db.all(sql, [], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  getLinkTags(linkId) {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        SELECT tags.name
+        FROM link_tags
+        JOIN tags ON tags.id = link_tags.tag_id
+        WHERE link_tags.link_id = ?
+        ORDER BY tags.name COLLATE NOCASE
+      `;
+      this.db.all(sql, [linkId], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => row.name));
+        }
+      });
+    });
+  }
+
+  // Replace the tags of a link. Unknown tag names are created; tags that end up
+  // without links are kept so they stay available in the admin sidebar.
+  async setLinkTags(linkId, names) {
+    const run = (sql, params) => new Promise((resolve, reject) => {
+      this.db.run(sql, params, (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+
+    await run('DELETE FROM link_tags WHERE link_id = ?', [linkId]);
+    for (const name of names) {
+      await run('INSERT OR IGNORE INTO tags (name) VALUES (?)', [name]);
+      await run('INSERT OR IGNORE INTO link_tags (link_id, tag_id) SELECT ?, id FROM tags WHERE name = ?', [linkId, name]);
+    }
+
+    return this.getLinkTags(linkId);
+  }
+
+  deleteTag(id) {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM link_tags WHERE tag_id = ?', [id], (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        this.db.run('DELETE FROM tags WHERE id = ?', [id], function(err) {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(this.changes > 0);
+          }
+        });
+      });
+    });
+  }
+
+  // Link Revision Methods
+  addLinkRevision(data) {
+    return new Promise((resolve, reject) => {
+      const sql = `
+        INSERT INTO link_revisions (link_id, short_code, snapshot, changed_fields, changed_by, ip_address, reverted_from, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+      `;
+      this.db.run(sql, [
+        data.linkId,
+        data.shortCode,
+        JSON.stringify(data.snapshot),
+        data.changedFields ? JSON.stringify(data.changedFields) : null,
+        data.changedBy || null,
+        data.ip || null,
+        data.revertedFrom || null,
+        data.createdAt || null
+      ], function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    });
+  }
+
+  getLinkRevisions(linkId) {
+    return new Promise((resolve, reject) => {
+      const sql = 'SELECT * FROM link_revisions WHERE link_id = ? ORDER BY id DESC';
+      this.db.all(sql, [linkId], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  getLinkRevision(linkId, revisionId) {
+    return new Promise((resolve, reject) => {
+      const sql = 'SELECT * FROM link_revisions WHERE link_id = ? AND id = ?';
+      this.db.get(sql, [linkId, revisionId], (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row);
+        }
+      });
+    });
+  }
+
   // Bug Report Methods
   createBugReport(data) {
     return new Promise((resolve, reject) => {
@@ -1537,7 +2658,7 @@ class Database {
   }
 
   // Mobile API: Get click analytics for a specific link
-  getClickAnalytics(shortCode) {
+  getClickAnalytics(linkId) {
     return new Promise((resolve, reject) => {
       // Get clicks by day (last 30 days)
       const clicksByDaySQL = `
@@ -1545,13 +2666,13 @@ class Database {
           date(clicked_at) as date,
           COUNT(*) as clicks
         FROM clicks 
-        WHERE short_code = ? 
+        WHERE link_id = ? 
           AND clicked_at >= date('now', '-30 days')
         GROUP BY date(clicked_at)
         ORDER BY date
       `;
 
-      this.db.all(clicksByDaySQL, [shortCode], (err, clicksByDay) => {
+      this.db.all(clicksByDaySQL, [linkId], (err, clicksByDay) => {
         if (err) {
           reject(err);
           return;
@@ -1566,13 +2687,13 @@ class Database {
             END as country,
             COUNT(*) as clicks
           FROM clicks 
-          WHERE short_code = ?
+          WHERE link_id = ?
           GROUP BY country
           ORDER BY clicks DESC
           LIMIT 10
         `;
 
-        this.db.all(clicksByCountrySQL, [shortCode], (err, clicksByCountry) => {
+        this.db.all(clicksByCountrySQL, [linkId], (err, clicksByCountry) => {
           if (err) {
             reject(err);
             return;
@@ -1588,12 +2709,12 @@ class Database {
               END as device_type,
               COUNT(*) as clicks
             FROM clicks 
-            WHERE short_code = ?
+            WHERE link_id = ?
             GROUP BY device_type
             ORDER BY clicks DESC
           `;
 
-          this.db.all(clicksByDeviceSQL, [shortCode], (err, clicksByDevice) => {
+          this.db.all(clicksByDeviceSQL, [linkId], (err, clicksByDevice) => {
             if (err) {
               reject(err);
               return;
@@ -1612,13 +2733,13 @@ class Database {
                 END as browser,
                 COUNT(*) as clicks
               FROM clicks 
-              WHERE short_code = ?
+              WHERE link_id = ?
               GROUP BY browser
               ORDER BY clicks DESC
               LIMIT 10
             `;
 
-            this.db.all(clicksByBrowserSQL, [shortCode], (err, clicksByBrowser) => {
+            this.db.all(clicksByBrowserSQL, [linkId], (err, clicksByBrowser) => {
               if (err) {
                 reject(err);
                 return;
@@ -1637,13 +2758,13 @@ class Database {
                   END as os,
                   COUNT(*) as clicks
                 FROM clicks 
-                WHERE short_code = ?
+                WHERE link_id = ?
                 GROUP BY os
                 ORDER BY clicks DESC
                 LIMIT 10
               `;
 
-              this.db.all(clicksByOSSQL, [shortCode], (err, clicksByOS) => {
+              this.db.all(clicksByOSSQL, [linkId], (err, clicksByOS) => {
                 if (err) {
                   reject(err);
                   return;
@@ -1661,12 +2782,12 @@ class Database {
                       ELSE 'Desktop'
                     END as device_type
                   FROM clicks 
-                  WHERE short_code = ?
+                  WHERE link_id = ?
                   ORDER BY clicked_at DESC
                   LIMIT 50
                 `;
 
-                this.db.all(recentClicksSQL, [shortCode], (err, recentClicks) => {
+                this.db.all(recentClicksSQL, [linkId], (err, recentClicks) => {
                   if (err) {
                     reject(err);
                     return;
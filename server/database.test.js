@@ -0,0 +1,104 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const Database = require('./database');
+const { buildMatchQuery } = require('./link-search');
+
+let dbDir;
+let db;
+before(async () => {
+  dbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'velink-db-'));
+  db = new Database(dbDir);
+  await db.ready;
+});
+after(() => {
+  db.db.close();
+  fs.rmSync(dbDir, { recursive: true, force: true });
+});
+
+/**
+ * Insert a link and read back its row
+ * @param {Object} data - Fields for Database#createShortUrl
+ * @returns {Promise<Object>} Link row
+ */
+async function createLink(data) {
+  const { id } = await db.createShortUrl({ originalUrl: 'https://example.com/', ...data });
+  return db.findById(id);
+}
+
+test('concurrent clicks never use a click-capped link more often than allowed', async () => {
+  const link = await createLink({ shortCode: 'capped', maxClicks: 3 });
+
+  const results = await Promise.all(Array.from({ length: 10 }, () => db.incrementClicks(link)));
+
+  assert.strictEqual(results.filter(Boolean).length, 3);
+  assert.strictEqual((await db.findById(link.id)).clicks, 3);
+  assert.strictEqual(await db.incrementClicks(link), false);
+});
+
+test('links without a cap count every click', async () => {
+  const link = await createLink({ shortCode: 'uncapped' });
+
+  await Promise.all(Array.from({ length: 5 }, () => db.incrementClicks(link)));
+
+  assert.strictEqual((await db.findById(link.id)).clicks, 5);
+});
+
+test('trashed links stop resolving until they are restored', async () => {
+  const link = await createLink({ shortCode: 'trashme' });
+
+  assert.strictEqual(await db.trashLinks([link.id]), 1);
+  assert.strictEqual(await db.findByShortCode('trashme', null), undefined);
+  assert.ok(await db.findByShortCode('trashme', null, { includeTrashed: true }));
+  assert.ok((await db.getTrashedLinks()).some(row => row.id === link.id));
+
+  assert.strictEqual(await db.restoreLink(link.id), true);
+  assert.ok(await db.findByShortCode('trashme', null));
+  assert.strictEqual(await db.restoreLink(link.id), false);
+});
+
+test('purging only deletes links trashed before the cutoff, with their clicks', async () => {
+  const old = await createLink({ shortCode: 'purgeold' });
+  const recent = await createLink({ shortCode: 'purgenew' });
+  await db.incrementClicks(old);
+  await db.trashLinks([old.id, recent.id]);
+  await new Promise((resolve, reject) => {
+    const deletedAt = new Date(Date.now() - 40 * 86400000).toISOString();
+    db.db.run('UPDATE short_urls SET deleted_at = ? WHERE id = ?', [deletedAt, old.id], err => err ? reject(err) : resolve());
+  });
+
+  const purged = await db.purgeTrashedLinks(new Date(Date.now() - 30 * 86400000).toISOString());
+
+  assert.strictEqual(purged, 1);
+  assert.strictEqual(await db.findById(old.id), undefined);
+  assert.ok(await db.findById(recent.id));
+  const clicks = await new Promise((resolve, reject) => {
+    db.db.get('SELECT COUNT(*) as count FROM clicks WHERE link_id = ?', [old.id], (err, row) => err ? reject(err) : resolve(row.count));
+  });
+  assert.strictEqual(clicks, 0);
+});
+
+test('public search only finds links anyone could open', async () => {
+  const future = new Date(Date.now() + 86400000).toISOString();
+  const past = new Date(Date.now() - 86400000).toISOString();
+  await createLink({ shortCode: 'zebra-open', originalUrl: 'https://zebra.example/' });
+  await createLink({ shortCode: 'zebra-private', customOptions: { isPrivate: true } });
+  await createLink({ shortCode: 'zebra-password', customOptions: { password: 'scrypt$x$y' } });
+  await createLink({ shortCode: 'zebra-expired', expiresAt: past });
+  await createLink({ shortCode: 'zebra-later', activatesAt: future });
+  const usedUp = await createLink({ shortCode: 'zebra-usedup', maxClicks: 1 });
+  await db.incrementClicks(usedUp);
+  const trashed = await createLink({ shortCode: 'zebra-trashed' });
+  await db.trashLinks([trashed.id]);
+
+  const matchQuery = buildMatchQuery('zebra');
+  const publicResult = await db.searchLinks(matchQuery, { publicOnly: true });
+  assert.deepStrictEqual(publicResult.rows.map(row => row.short_code), ['zebra-open']);
+  assert.strictEqual(publicResult.total, 1);
+
+  const adminResult = await db.searchLinks(matchQuery);
+  assert.strictEqual(adminResult.total, 6);
+  assert.ok(!adminResult.rows.some(row => row.short_code === 'zebra-trashed'));
+});
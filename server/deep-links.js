@@ -0,0 +1,167 @@
+/**
+ * Velink Mobile Deep Links
+ * Per-link app targets for iOS and Android. Visitors on those platforms get a
+ * small bridge page that tries to open the app and falls back to the store
+ * (or the regular destination) when the app is not installed.
+ *
+ * Stored in customOptions.deepLinks:
+ * {
+ *   ios: { appUrl: 'myapp://product/42', fallbackUrl: 'https://apps.apple.com/app/id123' },
+ *   android: { appUrl: 'https://example.com/app/product/42', fallbackUrl: 'https://play.google.com/store/apps/details?id=com.example' }
+ * }
+ */
+
+const { isValidUrl } = require('./utils');
+const { escapeHtml, renderStatusPage } = require('./pages');
+
+const PLATFORMS = ['ios', 'android'];
+const BLOCKED_SCHEMES = ['javascript:', 'data:', 'vbscript:', 'file:', 'blob:'];
+const MAX_URL_LENGTH = 2048;
+
+// How long the bridge page waits for the app to open before falling back
+const FALLBACK_DELAY_MS = 1500;
+
+/**
+ * Check that an app URL is either a custom scheme (myapp://...) or an https universal link
+ * @param {string} value - App URL
+ * @returns {boolean} True if the URL may be used as an app target
+ */
+function isValidAppUrl(value) {
+  if (typeof value !== 'string' || value.length > MAX_URL_LENGTH) {
+    return false;
+  }
+
+  try {
+    const url = new URL(value);
+    return /^[a-z][a-z0-9+.-]*:$/.test(url.protocol) && !BLOCKED_SCHEMES.includes(url.protocol);
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Validate deep link options
+ * @param {Object} deepLinks - customOptions.deepLinks
+ * @returns {string|null} Error message, or null when the options are valid
+ */
+function getDeepLinksError(deepLinks) {
+  if (deepLinks === undefined || deepLinks === null) {
+    return null;
+  }
+
+  if (typeof deepLinks !== 'object' || Array.isArray(deepLinks)) {
+    return 'deepLinks must be an object with ios and/or android targets';
+  }
+
+  for (const key of Object.keys(deepLinks)) {
+    if (!PLATFORMS.includes(key)) {
+      return `Unknown deep link platform "${key}" (expected ios or android)`;
+    }
+
+    const target = deepLinks[key];
+    if (!target || typeof target !== 'object') {
+      return `deepLinks.${key} must be an object`;
+    }
+    if (!target.appUrl && !target.fallbackUrl) {
+      return `deepLinks.${key} needs an appUrl or a fallbackUrl`;
+    }
+    if (target.appUrl && !isValidAppUrl(target.appUrl)) {
+      return `deepLinks.${key}.appUrl must be an app scheme (myapp://...) or an https universal link`;
+    }
+    if (target.fallbackUrl && !isValidUrl(target.fallbackUrl)) {
+      return `deepLinks.${key}.fallbackUrl must be a valid URL with http:// or https://`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Detect the mobile platform from a user agent
+ * @param {string} userAgent - User-Agent header
+ * @returns {string|null} 'ios', 'android' or null for everything else
+ */
+function detectPlatform(userAgent) {
+  const ua = userAgent || '';
+  if (/iPhone|iPad|iPod/i.test(ua)) {
+    return 'ios';
+  }
+  if (/Android/i.test(ua)) {
+    return 'android';
+  }
+  return null;
+}
+
+/**
+ * Get the deep link target for the visitor's platform
+ * @param {Object} customOptions - Parsed custom options of the link
+ * @param {string} userAgent - User-Agent header
+ * @returns {Object|null} { platform, appUrl, fallbackUrl } or null
+ */
+function getDeepLinkTarget(customOptions, userAgent) {
+  const deepLinks = customOptions && customOptions.deepLinks;
+  if (!deepLinks) {
+    return null;
+  }
+
+  const platform = detectPlatform(userAgent);
+  const target = platform && deepLinks[platform];
+  if (!target || (!target.appUrl && !target.fallbackUrl)) {
+    return null;
+  }
+
+  return { platform, appUrl: target.appUrl || null, fallbackUrl: target.fallbackUrl || null };
+}
+
+/**
+ * Bridge page that tries the app first and then falls back
+ * @param {Object} target - Deep link target from getDeepLinkTarget() with an appUrl
+ * @param {string} destination - Regular destination, used when no store fallback is set
+ * @returns {string} HTML document
+ */
+function renderDeepLinkBridgePage(target, destination) {
+  const fallbackUrl = target.fallbackUrl || destination;
+  const storeName = target.platform === 'ios' ? 'the App Store' : 'Google Play';
+  // JSON inside <script>: escape "<" so a URL cannot close the script tag
+  const toScript = value => JSON.stringify(value).replace(/</g, '\\u003c');
+
+  return renderStatusPage({
+    title: 'Opening App',
+    icon: '📱',
+    heading: 'Opening the app...',
+    message: target.fallbackUrl
+      ? `If nothing happens, the app may not be installed. You will be taken to ${storeName} instead.`
+      : 'If nothing happens, the app may not be installed. You will be taken to the website instead.',
+    body: `
+      <div>
+        <a href="${escapeHtml(target.appUrl)}" class="button">Open in app</a>
+      </div>
+      <div>
+        <a href="${escapeHtml(fallbackUrl)}" class="button">Continue without the app</a>
+      </div>
+      <script>
+        (function() {
+          var appUrl = ${toScript(target.appUrl)};
+          var fallbackUrl = ${toScript(fallbackUrl)};
+          var timer = setTimeout(function() {
+            if (!document.hidden) {
+              window.location.href = fallbackUrl;
+            }
+          }, ${FALLBACK_DELAY_MS});
+          document.addEventListener('visibilitychange', function() {
+            if (document.hidden) {
+              clearTimeout(timer);
+            }
+          });
+          window.location.href = appUrl;
+        })();
+      </script>
+    `
+  });
+}
+
+module.exports = {
+  getDeepLinksError,
+  getDeepLinkTarget,
+  renderDeepLinkBridgePage
+};
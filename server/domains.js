@@ -0,0 +1,69 @@
+/**
+ * Velink Custom Domains
+ * Branded hostnames that serve short links next to the primary domain. Every
+ * domain has its own short-code namespace, an optional URL its root redirects
+ * to and an optional URL unknown codes are sent to instead of the 404 page.
+ */
+
+const { isValidUrl } = require('./utils');
+const { LinkServiceError } = require('./link-service');
+
+const MAX_HOSTNAME_LENGTH = 253;
+// Lowercase DNS name with at least one dot, e.g. "go.example.com"
+const HOSTNAME_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/;
+
+/**
+ * Validate and normalize a hostname submitted through the admin API
+ * @param {string} hostname - Submitted hostname
+ * @returns {string} Lowercase hostname
+ */
+function normalizeHostname(hostname) {
+  const value = typeof hostname === 'string' ? hostname.trim().toLowerCase().replace(/\.$/, '') : '';
+
+  if (!value || value.length > MAX_HOSTNAME_LENGTH || !HOSTNAME_PATTERN.test(value)) {
+    throw new LinkServiceError('Please provide a valid hostname such as go.example.com', 'INVALID_DOMAIN');
+  }
+
+  return value;
+}
+
+/**
+ * Validate the default or not-found URL of a domain
+ * @param {string|null} value - Submitted URL, empty to clear it
+ * @param {string} field - Field name used in the error message
+ * @returns {string|null} URL or null
+ */
+function normalizeDomainUrl(value, field) {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  if (!isValidUrl(value) || value.length > 2048) {
+    throw new LinkServiceError(`${field} must be a valid URL with http:// or https://`, 'INVALID_DOMAIN');
+  }
+
+  return value;
+}
+
+/**
+ * Shape a domain row for API responses
+ * @param {Object} domain - Domain row from the database
+ * @returns {Object} Domain
+ */
+function formatDomain(domain) {
+  return {
+    id: domain.id,
+    hostname: domain.hostname,
+    defaultUrl: domain.default_url || null,
+    notFoundUrl: domain.not_found_url || null,
+    isActive: !!domain.is_active,
+    linkCount: domain.link_count || 0,
+    createdAt: domain.created_at
+  };
+}
+
+module.exports = {
+  normalizeHostname,
+  normalizeDomainUrl,
+  formatDomain
+};
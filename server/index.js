@@ -24,7 +24,28 @@ const https = require('https');
 const Database = require('./database');
 const SitemapGenerator = require('./sitemap');
 const setupApiRoutes = require('./routes/api');
-const { generateShortCode, isValidUrl, normalizeCustomOptions } = require('./utils');
+const { isValidUrl, getShortUrl, normalizeCustomOptions, appendQueryParams, verifyPassword, getPasswordFingerprint, getPublicCustomOptions, mergeCustomOptions } = require('./utils');
+const { LinkService, LinkServiceError, normalizeBatchEntry, isNotYetActive, isUsedUp, getCreationSecretFromRequest, getLinkHostFromRequest } = require('./link-service');
+const { renderStatusPage, renderNotYetLivePage, renderUsedUpPage, renderBlockedPage } = require('./pages');
+const { renderPreviewPage } = require('./preview');
+const { normalizeRedirectRules, findMatchingRule } = require('./redirect-rules');
+const { normalizeVariants, selectVariant } = require('./variants');
+const { parseBioPage, normalizeBioPage, renderBioPage } = require('./bio-pages');
+const { getDeepLinkTarget, renderDeepLinkBridgePage } = require('./deep-links');
+const { REDIRECT_OPTION_FIELDS, getRedirectStatus, setRedirectHeaders } = require('./redirect-options');
+const { HEALTH_OPTION_FIELDS, LinkHealthChecker, getBrokenLinkAction, renderDestinationDownPage } = require('./link-health');
+const { SOCIAL_PREVIEW_FIELDS, isPreviewCrawler, getSocialPreview, renderSocialPreviewPage } = require('./social-preview');
+const { EXPIRY_OPTION_FIELDS, isExpired, getExpiredLinkAction, renderExpiredPage } = require('./link-expiry');
+const { isReservedWord } = require('./reserved-words');
+const { normalizeTags } = require('./tags');
+const { normalizeHostname, normalizeDomainUrl, formatDomain } = require('./domains');
+const { getRevisionSnapshot, getPublicSnapshot } = require('./link-revisions');
+const { BlocklistProvider, ThreatFeedProvider, DestinationScreener, normalizeBlocklistRule } = require('./screening');
+const { LinkImporter, parseImportData } = require('./link-import');
+const { CODE_STRATEGIES, ShortCodeGenerator, getShortCodeSettingsError } = require('./short-codes');
+const { TrashPurger, getTrashRetentionDays, getTrashRetentionError, getPurgeDate } = require('./link-trash');
+const { getSearchQueryError, buildMatchQuery, parseSearchLimit, formatSearchResult } = require('./link-search');
+const { QrCodeError, getQrOptionsError, parseQrOptions, renderQrCode } = require('./qr-codes');
 
 // Initialize the enhanced update manager
 const UpdateManager = require('./update-manager');
@@ -476,6 +497,42 @@ app.use(session({
 // Initialize database
 const db = new Database();
 
+// Destinations are screened against the admin blocklist and, if configured, a threat feed file
+const blocklistProvider = new BlocklistProvider(db);
+const destinationScreener = new DestinationScreener([
+  blocklistProvider,
+  ...(process.env.THREAT_FEED_PATH ? [new ThreatFeedProvider(process.env.THREAT_FEED_PATH)] : [])
+]);
+const shortCodeGenerator = new ShortCodeGenerator();
+const linkService = new LinkService(db, destinationScreener, shortCodeGenerator);
+const linkImporter = new LinkImporter(db, linkService);
+// Links in the trash are purged for good after TRASH_RETENTION_DAYS
+const trashPurger = new TrashPurger(db);
+
+// Destinations of active links are checked in the background for 4xx/5xx answers and timeouts
+const linkHealthChecker = new LinkHealthChecker(db, {
+  concurrency: parseInt(process.env.HEALTH_CHECK_CONCURRENCY) || 5,
+  timeoutMs: (parseInt(process.env.HEALTH_CHECK_TIMEOUT_SECONDS) || 10) * 1000,
+  intervalMs: (process.env.HEALTH_CHECK_INTERVAL_MINUTES === undefined
+    ? 360
+    : parseInt(process.env.HEALTH_CHECK_INTERVAL_MINUTES) || 0) * 60 * 1000,
+  retryIntervalMs: (process.env.HEALTH_CHECK_RETRY_MINUTES === undefined
+    ? 15
+    : parseInt(process.env.HEALTH_CHECK_RETRY_MINUTES) || 0) * 60 * 1000
+});
+
+// Hash link passwords that were stored in plain text by older versions
+db.ready
+  .then(() => linkService.migratePlaintextPasswords())
+  .then(count => {
+    if (count > 0) {
+      console.log(`🔒 Migrated ${count} plain text link password(s) to hashes`);
+    }
+  })
+  .catch(err => {
+    console.error('Failed to migrate link passwords:', err);
+  });
+
 // Middleware
 app.use(helmet({
   contentSecurityPolicy: false, // Disable for development
@@ -616,6 +673,23 @@ app.post('/api/shorten',
       .optional()
       .isIn(['1d', '7d', '30d', '365d', 'never'])
       .withMessage('Invalid expiration option'),
+    body('expiresAt')
+      .optional({ nullable: true })
+      .isISO8601()
+      .withMessage('expiresAt must be an ISO 8601 date'),
+    body('activatesAt')
+      .optional({ nullable: true })
+      .isISO8601()
+      .withMessage('activatesAt must be an ISO 8601 date'),
+    body('maxClicks')
+      .optional({ nullable: true })
+      .isInt({ min: 1, max: 1000000 })
+      .withMessage('maxClicks must be a whole number between 1 and 1000000'),
+    body('customAlias')
+      .optional({ checkFalsy: true })
+      .isLength({ min: 3, max: 50 })
+      .matches(/^[a-zA-Z0-9-_]+$/)
+      .withMessage('Custom alias must be 3-50 characters and contain only letters, numbers, hyphens, and underscores'),
   ],
   async (req, res) => {
     try {
@@ -626,48 +700,26 @@ app.post('/api/shorten',
         });
       }
 
-      const { url, expiresIn, customOptions } = req.body;
+      const { url, expiresIn, expiresAt, activatesAt, maxClicks, customOptions, customAlias, utm, domain, dedupe } = req.body;
       const ip = req.ip || req.connection.remoteAddress;
       
       // Normalize custom options (handle redirectDelay vs delay field name differences)
       const normalizedCustomOptions = normalizeCustomOptions(customOptions);
-      
-      // Calculate expiration date if provided
-      let expiresAt = null;
-      if (expiresIn && expiresIn !== 'never') {
-        const days = {
-          '1d': 1,
-          '7d': 7,
-          '30d': 30,
-          '365d': 365
-        };
-        
-        const expireDate = new Date();
-        expireDate.setDate(expireDate.getDate() + days[expiresIn]);
-        expiresAt = expireDate.toISOString();
-      }
+      const schedule = linkService.resolveSchedule({ expiresIn, expiresAt, activatesAt });
 
-      // Check if URL already exists (optimization) - but skip if custom alias is provided
-      // Generate or use custom short code
-      // Generate unique short code
-      let shortCode;
-      let attempts = 0;
-      do {
-        shortCode = generateShortCode();
-        attempts++;
-        if (attempts > 10) {
-          throw new Error('Failed to generate unique short code');
-        }
-      } while (await db.findByShortCode(shortCode));
-      // Save to database
-      const result = await db.createShortUrl({
-        shortCode,
-        originalUrl: url,
-        expiresAt,
+      const link = await linkService.createLink({
+        url,
+        customAlias,
+        ...schedule,
+        maxClicks,
         ip,
         userAgent: req.get('User-Agent') || '',
         customOptions: normalizedCustomOptions,
-        description: req.body.description
+        description: req.body.description,
+        bioPage: normalizeBioPage(req.body.bioPage),
+        utm,
+        domain,
+        dedupe
       });
 
       // Generate sitemap after creating new link
@@ -675,17 +727,26 @@ app.post('/api/shorten',
         console.error('Failed to update sitemap after link creation:', err);
       });
 
-      res.status(201).json({
-        shortUrl: `${req.protocol}://${req.get('host')}/${shortCode}`,
-        shortCode,
-        originalUrl: url,
-        expiresAt,
-        clicks: 0,
-        createdAt: result.created_at,
-        customOptions
+      res.status(link.deduplicated ? 200 : 201).json({
+        shortUrl: getShortUrl(req, link.shortCode, link.domain),
+        shortCode: link.shortCode,
+        domain: link.domain,
+        originalUrl: link.originalUrl,
+        expiresAt: link.expiresAt,
+        activatesAt: link.activatesAt,
+        maxClicks: link.maxClicks,
+        clicks: link.clicks,
+        createdAt: link.createdAt,
+        customOptions: getPublicCustomOptions(customOptions),
+        bioPage: link.bioPage || null,
+        creationSecret: link.creationSecret,
+        deduplicated: link.deduplicated
       });
 
     } catch (error) {
+      if (error instanceof LinkServiceError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
       console.error('Error shortening URL:', error);
       res.status(500).json({ error: 'Failed to shorten URL' });
     }
@@ -696,7 +757,7 @@ app.post('/api/shorten',
 app.get('/api/info/:shortCode', async (req, res) => {
   try {
     const { shortCode } = req.params;
-    const urlData = await db.findByShortCode(shortCode);
+    const urlData = await db.findByShortCode(shortCode, getLinkHostFromRequest(req));
     
     if (!urlData) {
       return res.status(404).json({ error: 'Short URL not found' });
@@ -714,11 +775,26 @@ app.get('/api/info/:shortCode', async (req, res) => {
   }
 });
 
+// Private links only share their analytics with the holder of the owner secret
+const canReadLinkAnalytics = (link, req) => {
+  const customOptions = link.custom_options ? JSON.parse(link.custom_options) : {};
+  return !customOptions.isPrivate || linkService.verifyCreationSecret(link, getCreationSecretFromRequest(req));
+};
+
 // Get analytics for a specific link
 app.get('/api/analytics/:shortCode', async (req, res) => {
   try {
     const { shortCode } = req.params;
-    const analytics = await db.getLinkAnalytics(shortCode);
+    const host = getLinkHostFromRequest(req);
+    const link = await db.findByShortCode(shortCode, host);
+    if (link && !canReadLinkAnalytics(link, req)) {
+      return res.status(403).json({
+        error: 'This link is private. Its creation secret is required to view analytics.',
+        code: 'OWNER_SECRET_REQUIRED'
+      });
+    }
+
+    const analytics = await db.getLinkAnalytics(shortCode, host);
     res.json(analytics);
   } catch (error) {
     console.error('Error fetching link analytics:', error);
@@ -803,10 +879,11 @@ app.post('/api/admin/reset-token-display', verifyAdminToken, (req, res) => {
   }
 });
 
-// Admin route to get all links
+// Admin route to get all links, optionally only those with a given tag (?tag=name)
 app.get('/api/admin/links', verifyAdminToken, async (req, res) => {
   try {
-    const links = await db.getAllLinks();
+    const tag = typeof req.query.tag === 'string' && req.query.tag.trim() ? req.query.tag.trim() : undefined;
+    const links = await db.getAllLinks({ tag });
     res.json(links);
   } catch (error) {
     console.error('Error fetching admin links:', error);
@@ -814,6 +891,28 @@ app.get('/api/admin/links', verifyAdminToken, async (req, res) => {
   }
 });
 
+// Admin route for ranked full-text search over all links, including private ones (?q=text&limit=100)
+app.get('/api/admin/links/search', verifyAdminToken, async (req, res) => {
+  try {
+    const queryError = getSearchQueryError(req.query.q);
+    if (queryError) {
+      return res.status(400).json({ error: queryError, code: 'INVALID_QUERY' });
+    }
+
+    const { total, rows } = await db.searchLinks(buildMatchQuery(req.query.q), {
+      limit: parseSearchLimit(req.query.limit, 500)
+    });
+    res.json({
+      query: req.query.q.trim(),
+      total,
+      results: rows.map(row => ({ id: row.id, ...formatSearchResult(row) }))
+    });
+  } catch (error) {
+    console.error('Error searching admin links:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Admin route to get stats
 app.get('/api/admin/stats', verifyAdminToken, async (req, res) => {
   try {
@@ -825,72 +924,156 @@ app.get('/api/admin/stats', verifyAdminToken, async (req, res) => {
   }
 });
 
-// Admin route to delete a link
+// Admin link routes accept the database ID; a short code is looked up in the primary namespace
+const findAdminLink = (id) => (/^\d+$/.test(id) ? db.findById(id) : db.findByShortCode(id));
+
+// Admin route to move several links to the trash. Registered before /:id so
+// "bulk" is not taken for a link ID.
+app.delete('/api/admin/links/bulk', verifyAdminToken, async (req, res) => {
+  try {
+    const { linkIds } = req.body;
+    if (!Array.isArray(linkIds)) {
+      return res.status(400).json({ error: 'linkIds must be an array' });
+    }
+
+    const ids = linkIds.map(Number).filter(Number.isInteger);
+    const trashed = await db.trashLinks(ids);
+
+    sitemapGenerator.generateSitemap().catch(err => {
+      console.error('Failed to update sitemap after bulk link deletion:', err);
+    });
+
+    log('info', `${trashed} link(s) moved to the trash`, { ip: req.ip });
+    res.json({ success: true, trashed });
+  } catch (error) {
+    console.error('Error bulk deleting links:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to move a link to the trash. It stops resolving but can be restored
+// until it is purged.
 app.delete('/api/admin/links/:id', verifyAdminToken, async (req, res) => {
   try {
-    const { id } = req.params;
-    
-    // The id parameter could be either the database ID or shortCode
-    // We need to find the shortCode first if we have a database ID
-    let shortCode = id;
-    
-    // If the id looks like a number, it might be a database ID
-    if (/^\d+$/.test(id)) {
-      // Get the link by database ID to find the shortCode
-      const links = await db.getLinks();
-      const link = links.find(l => l._id?.toString() === id || l.id?.toString() === id);
-      if (link) {
-        shortCode = link.shortCode;
-      } else {
-        return res.status(404).json({ error: 'Link not found' });
-      }
+    const link = await findAdminLink(req.params.id);
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
     }
-    
-    // Delete using shortCode
-    await db.deleteLink(shortCode);
-    
-    // Generate sitemap after deleting link
+
+    await db.trashLinks([link.id]);
+
     sitemapGenerator.generateSitemap().catch(err => {
       console.error('Failed to update sitemap after link deletion:', err);
     });
-    
-    log('info', `Link deleted: ${shortCode}`, { ip: req.ip });
-    res.json({ success: true, message: 'Link deleted successfully' });
+
+    log('info', `Link moved to the trash: ${link.short_code}`, { ip: req.ip });
+    res.json({ success: true, message: 'Link moved to the trash' });
   } catch (error) {
     log('error', 'Error deleting link', { error: error.message, ip: req.ip });
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Admin route to bulk delete links
-app.delete('/api/admin/links/bulk', verifyAdminToken, async (req, res) => {
+// Admin route to list the links in the trash
+app.get('/api/admin/trash', verifyAdminToken, async (req, res) => {
   try {
-    const { linkIds } = req.body;
-    if (!Array.isArray(linkIds)) {
-      return res.status(400).json({ error: 'linkIds must be an array' });
-    }
-    
-    for (const id of linkIds) {
-      await db.deleteLink(id);
+    const retentionDays = getTrashRetentionDays();
+    const links = await db.getTrashedLinks();
+
+    res.json({
+      retentionDays,
+      links: links.map(link => ({
+        id: link.id,
+        shortCode: link.short_code,
+        domain: link.domain || null,
+        originalUrl: link.original_url,
+        description: link.description || null,
+        clicks: link.clicks || 0,
+        createdAt: link.created_at,
+        deletedAt: link.deleted_at,
+        purgeAt: getPurgeDate(link.deleted_at, retentionDays)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to restore a link from the trash
+app.post('/api/admin/trash/:id/restore', verifyAdminToken, async (req, res) => {
+  try {
+    const link = await db.findById(req.params.id);
+    if (!link || !link.deleted_at) {
+      return res.status(404).json({ error: 'Link not found in the trash' });
     }
-    
-    // Generate sitemap after bulk deleting links
+
+    await db.restoreLink(link.id);
+
     sitemapGenerator.generateSitemap().catch(err => {
-      console.error('Failed to update sitemap after bulk link deletion:', err);
+      console.error('Failed to update sitemap after restoring link:', err);
     });
-    
-    res.json({ success: true });
+
+    log('info', `Link restored from the trash: ${link.short_code}`, { ip: req.ip });
+    res.json({ success: true, shortCode: link.short_code });
   } catch (error) {
-    console.error('Error bulk deleting links:', error);
+    console.error('Error restoring link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to delete a link in the trash for good, with its clicks and history
+app.delete('/api/admin/trash/:id', verifyAdminToken, async (req, res) => {
+  try {
+    const link = await db.findById(req.params.id);
+    if (!link || !link.deleted_at) {
+      return res.status(404).json({ error: 'Link not found in the trash' });
+    }
+
+    await db.deleteLink(link.id);
+
+    log('info', `Link permanently deleted: ${link.short_code}`, { ip: req.ip });
+    res.json({ success: true, message: 'Link permanently deleted' });
+  } catch (error) {
+    console.error('Error purging link:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Admin endpoint: Get the trash settings
+app.get('/api/admin/trash-settings', verifyAdminToken, (req, res) => {
+  res.json({ retentionDays: getTrashRetentionDays() });
+});
+
+// Admin endpoint: Change how long links stay in the trash. The next purge uses the new period.
+app.post('/api/admin/trash-settings', verifyAdminToken, (req, res) => {
+  try {
+    const retentionDays = Number(req.body.retentionDays);
+    const settingsError = getTrashRetentionError(retentionDays);
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError });
+    }
+
+    process.env.TRASH_RETENTION_DAYS = String(retentionDays);
+    saveEnvSettings({ TRASH_RETENTION_DAYS: retentionDays });
+
+    log('info', `Trash retention set to ${retentionDays} days by admin`);
+    res.json({ retentionDays });
+  } catch (error) {
+    log('error', `Error updating trash settings: ${error.message}`);
+    res.status(500).json({ error: 'Failed to update trash settings' });
+  }
+});
+
 // Admin route to toggle link status
 app.patch('/api/admin/links/:id/toggle', verifyAdminToken, async (req, res) => {
   try {
-    const { id } = req.params;
-    await db.toggleLinkStatus(id);
+    const link = await findAdminLink(req.params.id);
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    await db.toggleLinkStatus(link.id);
     res.json({ success: true });
   } catch (error) {
     console.error('Error toggling link status:', error);
@@ -898,19 +1081,426 @@ app.patch('/api/admin/links/:id/toggle', verifyAdminToken, async (req, res) => {
   }
 });
 
-// Admin route to update link
+// Admin route to update link. Changes to the destination, options and schedule
+// are recorded in the link's revision history.
 app.patch('/api/admin/links/:id', verifyAdminToken, async (req, res) => {
   try {
     const { id } = req.params;
-    const { description, isActive } = req.body;
-    await db.updateLink(id, { description, isActive });
-    res.json({ success: true });
+    const { originalUrl, expiresAt, description } = req.body;
+    const updates = {};
+
+    if (originalUrl !== undefined) {
+      if (!isValidUrl(originalUrl) || originalUrl.length > 2048) {
+        return res.status(400).json({ error: 'Please provide a valid URL with http:// or https://' });
+      }
+      updates.originalUrl = originalUrl;
+    }
+    if (description !== undefined) {
+      updates.description = description || null;
+    }
+    if (req.body.redirectRules !== undefined) {
+      updates.redirectRules = normalizeRedirectRules(req.body.redirectRules);
+    }
+    if (req.body.variants !== undefined) {
+      updates.variants = normalizeVariants(req.body.variants);
+    }
+    if (req.body.bioPage !== undefined) {
+      updates.bioPage = normalizeBioPage(req.body.bioPage);
+    }
+    let tags = req.body.tags !== undefined
+      ? normalizeTags(req.body.tags)
+      : undefined;
+
+    const link = await db.findById(id);
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    // Same schedule rules as for owners, checked against the link's activation time
+    Object.assign(updates, linkService.resolveScheduleUpdate(link, { expiresAt }));
+
+    const customOptions = mergeCustomOptions(link, req.body, [...REDIRECT_OPTION_FIELDS, ...HEALTH_OPTION_FIELDS, ...SOCIAL_PREVIEW_FIELDS, ...EXPIRY_OPTION_FIELDS]);
+    if (customOptions !== undefined) {
+      updates.customOptions = customOptions;
+    }
+
+    // Tags are written once the update has passed validation, so a rejected request changes nothing
+    await linkService.updateLink(link, updates, { type: 'admin', ip: req.ip });
+    if (tags !== undefined) {
+      tags = await db.setLinkTags(link.id, tags);
+    }
+    res.json({
+      success: true,
+      ...(updates.redirectRules !== undefined ? { redirectRules: updates.redirectRules } : {}),
+      ...(updates.variants !== undefined ? { variants: updates.variants } : {}),
+      ...(updates.bioPage !== undefined ? { bioPage: updates.bioPage } : {}),
+      ...(tags !== undefined ? { tags } : {})
+    });
   } catch (error) {
+    if (error instanceof LinkServiceError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
     console.error('Error updating link:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Admin route to extend or renew the expiry of a link
+app.post('/api/admin/links/:id/renew', verifyAdminToken, async (req, res) => {
+  try {
+    const link = await findAdminLink(req.params.id);
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const updated = await linkService.renewLink(link, req.body, { type: 'admin', ip: req.ip });
+    log('info', `Link ${link.short_code} now expires ${updated.expires_at || 'never'}`, { ip: req.ip });
+    sitemapGenerator.generateSitemap().catch(err => {
+      console.error('Failed to update sitemap after renewing link:', err);
+    });
+
+    res.json({ success: true, expiresAt: updated.expires_at });
+  } catch (error) {
+    if (error instanceof LinkServiceError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('Error renewing link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to get the revision history of a link, newest first
+app.get('/api/admin/links/:id/revisions', verifyAdminToken, async (req, res) => {
+  try {
+    const link = await db.findById(req.params.id);
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const revisions = await db.getLinkRevisions(link.id);
+    res.json({
+      shortCode: link.short_code,
+      current: getPublicSnapshot(getRevisionSnapshot(link)),
+      revisions: revisions.map(revision => ({
+        id: revision.id,
+        snapshot: getPublicSnapshot(JSON.parse(revision.snapshot)),
+        changedFields: revision.changed_fields ? JSON.parse(revision.changed_fields) : [],
+        changedBy: revision.changed_by,
+        ipAddress: revision.ip_address,
+        revertedFrom: revision.reverted_from,
+        createdAt: revision.created_at
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching link revisions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to restore a link to an earlier revision
+app.post('/api/admin/links/:id/revisions/:revisionId/revert', verifyAdminToken, async (req, res) => {
+  try {
+    const link = await db.findById(req.params.id);
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
+    }
+
+    const updated = await linkService.revertLink(link, req.params.revisionId, { type: 'admin', ip: req.ip });
+    log('info', `Link ${link.short_code} reverted to revision ${req.params.revisionId}`, { ip: req.ip });
+    res.json({
+      success: true,
+      current: getPublicSnapshot(getRevisionSnapshot(updated))
+    });
+  } catch (error) {
+    if (error instanceof LinkServiceError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('Error reverting link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to list tags with the number of links using them
+app.get('/api/admin/tags', verifyAdminToken, async (req, res) => {
+  try {
+    const tags = await db.getTags();
+    res.json(tags.map(tag => ({
+      id: tag.id,
+      name: tag.name,
+      linkCount: tag.link_count,
+      createdAt: tag.created_at
+    })));
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to delete a tag (the links themselves are kept)
+app.delete('/api/admin/tags/:id', verifyAdminToken, async (req, res) => {
+  try {
+    const deleted = await db.deleteTag(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to list custom domains
+app.get('/api/admin/domains', verifyAdminToken, async (req, res) => {
+  try {
+    const domains = await db.getDomains();
+    res.json(domains.map(formatDomain));
+  } catch (error) {
+    console.error('Error fetching domains:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to add a custom domain. DNS for the hostname must point at this server.
+app.post('/api/admin/domains', verifyAdminToken, async (req, res) => {
+  try {
+    const hostname = normalizeHostname(req.body.hostname);
+    const defaultUrl = normalizeDomainUrl(req.body.defaultUrl, 'defaultUrl');
+    const notFoundUrl = normalizeDomainUrl(req.body.notFoundUrl, 'notFoundUrl');
+
+    if (await db.findDomainByHostname(hostname)) {
+      return res.status(409).json({ error: 'Domain already exists', code: 'DOMAIN_EXISTS' });
+    }
+
+    const id = await db.createDomain({ hostname, defaultUrl, notFoundUrl, isActive: req.body.isActive !== false });
+    sitemapGenerator.generateSitemap().catch(err => {
+      console.error('Failed to update sitemap after adding domain:', err);
+    });
+
+    log('info', `Domain added: ${hostname}`, { ip: req.ip });
+    res.status(201).json(formatDomain(await db.findDomainById(id)));
+  } catch (error) {
+    if (error instanceof LinkServiceError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('Error creating domain:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to update a custom domain. The hostname cannot change because
+// existing short URLs are built from it.
+app.patch('/api/admin/domains/:id', verifyAdminToken, async (req, res) => {
+  try {
+    const domain = await db.findDomainById(req.params.id);
+    if (!domain) {
+      return res.status(404).json({ error: 'Domain not found' });
+    }
+
+    const updates = {};
+    if (req.body.defaultUrl !== undefined) {
+      updates.defaultUrl = normalizeDomainUrl(req.body.defaultUrl, 'defaultUrl');
+    }
+    if (req.body.notFoundUrl !== undefined) {
+      updates.notFoundUrl = normalizeDomainUrl(req.body.notFoundUrl, 'notFoundUrl');
+    }
+    if (req.body.isActive !== undefined) {
+      updates.isActive = !!req.body.isActive;
+    }
+
+    await db.updateDomain(domain.id, updates);
+    if (updates.isActive !== undefined) {
+      sitemapGenerator.generateSitemap().catch(err => {
+        console.error('Failed to update sitemap after domain change:', err);
+      });
+    }
+
+    res.json(formatDomain(await db.findDomainById(domain.id)));
+  } catch (error) {
+    if (error instanceof LinkServiceError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('Error updating domain:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to remove a custom domain that no longer has links
+app.delete('/api/admin/domains/:id', verifyAdminToken, async (req, res) => {
+  try {
+    const domains = await db.getDomains();
+    const domain = domains.find(d => String(d.id) === req.params.id);
+    if (!domain) {
+      return res.status(404).json({ error: 'Domain not found' });
+    }
+    if (domain.link_count > 0) {
+      return res.status(409).json({
+        error: `${domain.hostname} still has ${domain.link_count} links. Delete them or deactivate the domain instead.`,
+        code: 'DOMAIN_IN_USE'
+      });
+    }
+
+    await db.deleteDomain(domain.id);
+    const sitemapPath = sitemapGenerator.getDomainSitemapPath(domain.hostname);
+    if (fs.existsSync(sitemapPath)) {
+      fs.unlinkSync(sitemapPath);
+    }
+
+    log('info', `Domain deleted: ${domain.hostname}`, { ip: req.ip });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting domain:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route for destination screening: blocklist rules, links disabled by
+// screening and recently rejected destinations
+app.get('/api/admin/blocklist', verifyAdminToken, async (req, res) => {
+  try {
+    const [rules, blockedLinks, rejections] = await Promise.all([
+      db.getBlocklistRules(),
+      db.getBlockedLinks(),
+      db.getBlockedAttempts()
+    ]);
+
+    res.json({
+      rules: rules.map(rule => ({
+        id: rule.id,
+        type: rule.type,
+        pattern: rule.pattern,
+        reason: rule.reason,
+        createdAt: rule.created_at
+      })),
+      blockedLinks: blockedLinks.map(link => ({
+        id: link.id,
+        shortCode: link.short_code,
+        domain: link.domain || null,
+        originalUrl: link.original_url,
+        reason: link.blocked_reason,
+        blockedAt: link.blocked_at
+      })),
+      rejections: rejections.map(attempt => ({
+        id: attempt.id,
+        url: attempt.url,
+        provider: attempt.provider,
+        reason: attempt.reason,
+        ip: attempt.ip_address,
+        createdAt: attempt.created_at
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching blocklist:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to add a blocklist rule. Existing links matching the rule are
+// disabled the next time they are opened.
+app.post('/api/admin/blocklist', verifyAdminToken, async (req, res) => {
+  try {
+    const rule = normalizeBlocklistRule(req.body);
+    const id = await db.addBlocklistRule(rule);
+    blocklistProvider.invalidate();
+
+    log('info', `Blocklist rule added: ${rule.type} ${rule.pattern}`, { ip: req.ip });
+    res.status(201).json({ id, ...rule });
+  } catch (error) {
+    if (error instanceof LinkServiceError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('Error adding blocklist rule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to remove a blocklist rule. Links it disabled stay disabled
+// until they are re-enabled.
+app.delete('/api/admin/blocklist/:id', verifyAdminToken, async (req, res) => {
+  try {
+    if (!(await db.deleteBlocklistRule(req.params.id))) {
+      return res.status(404).json({ error: 'Blocklist rule not found' });
+    }
+    blocklistProvider.invalidate();
+
+    log('info', `Blocklist rule deleted: ${req.params.id}`, { ip: req.ip });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting blocklist rule:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route for the broken links view: links whose destination failed the last health check
+app.get('/api/admin/broken-links', verifyAdminToken, async (req, res) => {
+  try {
+    const [links, summary] = await Promise.all([db.getBrokenLinks(), db.getLinkHealthSummary()]);
+
+    res.json({
+      summary: {
+        checked: summary.checked,
+        broken: summary.broken,
+        lastCheckedAt: summary.last_checked_at,
+        running: !!linkHealthChecker.running
+      },
+      links: links.map(link => {
+        const customOptions = link.custom_options ? JSON.parse(link.custom_options) : {};
+        return {
+          id: link.id,
+          shortCode: link.short_code,
+          domain: link.domain || null,
+          originalUrl: link.original_url,
+          statusCode: link.status_code,
+          responseTimeMs: link.response_time_ms,
+          redirectChain: link.redirect_chain ? JSON.parse(link.redirect_chain) : [],
+          error: link.error,
+          brokenSince: link.broken_since,
+          checkedAt: link.checked_at,
+          onBroken: customOptions.onBroken || null,
+          brokenFallbackUrl: customOptions.brokenFallbackUrl || null
+        };
+      })
+    });
+  } catch (error) {
+    console.error('Error fetching broken links:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin route to run the link health check now. The check runs in the background.
+app.post('/api/admin/broken-links/check', verifyAdminToken, async (req, res) => {
+  try {
+    if (req.body.linkId !== undefined) {
+      const link = await findAdminLink(String(req.body.linkId));
+      if (!link) {
+        return res.status(404).json({ error: 'Link not found' });
+      }
+      const result = await linkHealthChecker.checkLink(link);
+      return res.json({ success: true, result });
+    }
+
+    linkHealthChecker.checkAll().catch(error => {
+      console.error('Link health check failed:', error);
+    });
+    log('info', 'Link health check started by admin', { ip: req.ip });
+    res.status(202).json({ success: true });
+  } catch (error) {
+    console.error('Error starting link health check:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Public list of the custom domains links can be created on
+app.get('/api/domains', async (req, res) => {
+  try {
+    const domains = await db.getDomains();
+    res.json(domains.filter(domain => domain.is_active).map(domain => domain.hostname));
+  } catch (error) {
+    console.error('Error fetching domains:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Admin route to get system information
 app.get('/api/admin/system', verifyAdminToken, async (req, res) => {
   try {
@@ -976,12 +1566,19 @@ app.get('/api/admin/export/:type', verifyAdminToken, async (req, res) => {
     
     if (type === 'links') {
       const links = await db.getAllLinks();
+      const csvField = value => `"${String(value === undefined || value === null ? '' : value).replace(/"/g, '""')}"`;
       
-      // Convert to CSV
-      const csvHeader = 'Short Code,Original URL,Created,Clicks,Description,Status\n';
-      const csvData = links.map(link => 
-        `"${link.shortCode}","${link.originalUrl}","${link.createdAt}","${link.clicks}","${link.description || ''}","${link.isActive !== false ? 'Active' : 'Inactive'}"`
-      ).join('\n');
+      // Convert to CSV (tags are separated by semicolons within their column)
+      const csvHeader = 'Short Code,Original URL,Created,Clicks,Description,Status,Tags\n';
+      const csvData = links.map(link => [
+        link.short_code,
+        link.original_url,
+        link.created_at,
+        link.clicks,
+        link.description,
+        link.is_active === 0 ? 'Inactive' : 'Active',
+        link.tags.join('; ')
+      ].map(csvField).join(',')).join('\n');
       
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', 'attachment; filename="velink-links.csv"');
@@ -1017,6 +1614,49 @@ app.get('/api/admin/export/:type', verifyAdminToken, async (req, res) => {
   }
 });
 
+// Admin endpoint: Import links from CSV or JSON. With dryRun the rows are only
+// validated; otherwise all links are created together, or none when a row is invalid.
+app.post('/api/admin/import', verifyAdminToken, async (req, res) => {
+  try {
+    const { format, data, dryRun } = req.body;
+    const rows = parseImportData(format, data);
+
+    const result = await linkImporter.importLinks(rows, {
+      dryRun: dryRun === true,
+      ip: req.ip,
+      userAgent: req.get('User-Agent') || ''
+    });
+
+    if (!result.dryRun && result.invalid > 0) {
+      return res.status(422).json({
+        error: `${result.invalid} of ${result.total} rows have errors, nothing was imported`,
+        code: 'IMPORT_INVALID',
+        ...result
+      });
+    }
+
+    if (result.imported > 0) {
+      sitemapGenerator.generateSitemap().catch(err => {
+        console.error('Failed to update sitemap after import:', err);
+      });
+    }
+
+    res.json({
+      ...result,
+      rows: result.rows.map(row => ({
+        ...row,
+        shortUrl: result.imported > 0 ? getShortUrl(req, row.code, row.domain) : null
+      }))
+    });
+  } catch (error) {
+    if (error instanceof LinkServiceError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('Error importing links:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Admin endpoint: Get logs
 app.get('/api/admin/logs', verifyAdminToken, async (req, res) => {
   try {
@@ -1258,6 +1898,28 @@ app.get('/api/admin/databases/:id', verifyAdminToken, async (req, res) => {
   }
 });
 
+/**
+ * Persist settings changed in the admin panel to the server's .env file
+ * @param {Object} values - Environment variables and their new values
+ */
+function saveEnvSettings(values) {
+  const envPath = path.join(__dirname, '.env');
+  let envContent = fs.existsSync(envPath) ? fs.readFileSync(envPath, 'utf8') : '';
+
+  for (const [key, value] of Object.entries(values)) {
+    const regex = new RegExp(`^${key}=.*$`, 'm');
+    const line = `${key}=${value}`;
+
+    if (regex.test(envContent)) {
+      envContent = envContent.replace(regex, line);
+    } else {
+      envContent += `\n${line}`;
+    }
+  }
+
+  fs.writeFileSync(envPath, envContent.trim() + '\n');
+}
+
 // Admin endpoint: Get privacy settings
 app.get('/api/admin/privacy-settings', verifyAdminToken, (req, res) => {
   try {
@@ -1298,42 +1960,24 @@ app.post('/api/admin/privacy-settings', verifyAdminToken, (req, res) => {
     }
     
     // Write to .env file to persist changes
-    const envPath = path.join(__dirname, '.env');
-    let envContent = '';
-    
-    if (fs.existsSync(envPath)) {
-      envContent = fs.readFileSync(envPath, 'utf8');
-    }
-    
-    // Update or add environment variables in .env file
-    const updateEnvVar = (key, value) => {
-      const regex = new RegExp(`^${key}=.*$`, 'm');
-      const line = `${key}=${value}`;
-      
-      if (regex.test(envContent)) {
-        envContent = envContent.replace(regex, line);
-      } else {
-        envContent += `\n${line}`;
-      }
-    };
-    
+    const envChanges = {};
     if (typeof isPrivate === 'boolean') {
-      updateEnvVar('WEBSITE_PRIVATE', isPrivate);
+      envChanges.WEBSITE_PRIVATE = isPrivate;
     }
     
     if (typeof password === 'string') {
-      updateEnvVar('WEBSITE_PASSWORD', password);
+      envChanges.WEBSITE_PASSWORD = password;
     }
     
     if (typeof isMaintenanceMode === 'boolean') {
-      updateEnvVar('MAINTENANCE_MODE', isMaintenanceMode);
+      envChanges.MAINTENANCE_MODE = isMaintenanceMode;
     }
     
     if (typeof maintenanceMessage === 'string') {
-      updateEnvVar('MAINTENANCE_MESSAGE', maintenanceMessage);
+      envChanges.MAINTENANCE_MESSAGE = maintenanceMessage;
     }
     
-    fs.writeFileSync(envPath, envContent.trim() + '\n');
+    saveEnvSettings(envChanges);
     
     log('info', `Privacy settings updated by admin`);
     res.json({ success: true, message: 'Privacy settings updated successfully' });
@@ -1344,6 +1988,43 @@ app.post('/api/admin/privacy-settings', verifyAdminToken, (req, res) => {
   }
 });
 
+// Admin endpoint: Get short code settings
+app.get('/api/admin/short-code-settings', verifyAdminToken, (req, res) => {
+  res.json({ ...shortCodeGenerator.getStatus(), strategies: CODE_STRATEGIES });
+});
+
+// Admin endpoint: Update short code settings. Only newly generated codes are affected.
+app.post('/api/admin/short-code-settings', verifyAdminToken, (req, res) => {
+  try {
+    const settings = {
+      strategy: req.body.strategy,
+      length: Number(req.body.length),
+      alphabet: typeof req.body.alphabet === 'string' ? req.body.alphabet.trim() : req.body.alphabet
+    };
+
+    const settingsError = getShortCodeSettingsError(settings);
+    if (settingsError) {
+      return res.status(400).json({ error: settingsError });
+    }
+
+    process.env.SHORT_CODE_STRATEGY = settings.strategy;
+    process.env.SHORT_CODE_LENGTH = String(settings.length);
+    process.env.SHORT_CODE_ALPHABET = settings.alphabet;
+    saveEnvSettings({
+      SHORT_CODE_STRATEGY: settings.strategy,
+      SHORT_CODE_LENGTH: settings.length,
+      SHORT_CODE_ALPHABET: settings.alphabet
+    });
+    shortCodeGenerator.configure(settings);
+
+    log('info', `Short code settings updated by admin: ${settings.strategy}, ${settings.length} characters`);
+    res.json({ ...shortCodeGenerator.getStatus(), strategies: CODE_STRATEGIES });
+  } catch (error) {
+    log('error', `Error updating short code settings: ${error.message}`);
+    res.status(500).json({ error: 'Failed to update short code settings' });
+  }
+});
+
 // ==========================================
 // ENHANCED UPDATE SYSTEM ENDPOINTS
 // ==========================================
@@ -1945,14 +2626,28 @@ app.post('/api/admin/update/restore', verifyAdminToken, async (req, res) => {
 app.post('/api/track/:shortCode', async (req, res) => {
   try {
     const { shortCode } = req.params;
-    const urlData = await db.findByShortCode(shortCode);
+    const urlData = await db.findByShortCode(shortCode, getLinkHostFromRequest(req));
     
     if (!urlData) {
       return res.status(404).json({ error: 'Short code not found' });
     }
 
-    // Increment click count
-    await db.incrementClicks(shortCode);
+    // Only clicks the redirect itself would have counted are tracked
+    if (urlData.blocked_reason) {
+      return res.status(403).json({ error: 'Link has been disabled', code: 'BLOCKED' });
+    }
+    if (isExpired(urlData)) {
+      return res.status(410).json({ error: 'Link has expired', code: 'EXPIRED' });
+    }
+    if (isNotYetActive(urlData)) {
+      return res.status(403).json({ error: 'Link is not live yet', code: 'NOT_YET_ACTIVE' });
+    }
+    // This endpoint needs no owner secret, so it must not use up the uses of a click-capped link
+    if (urlData.max_clicks) {
+      return res.status(409).json({ error: 'Clicks of click-capped links are only counted when the link is opened', code: 'CLICK_CAPPED' });
+    }
+
+    await db.incrementClicks(urlData);
     res.json({ success: true });
   } catch (error) {
     console.error('Error tracking click:', error);
@@ -1960,6 +2655,19 @@ app.post('/api/track/:shortCode', async (req, res) => {
   }
 });
 
+// Custom domains only serve short links; their root goes to the domain's default URL
+app.get('/', async (req, res, next) => {
+  try {
+    const domain = await db.findDomainByHostname(req.hostname);
+    if (domain && domain.is_active && domain.default_url) {
+      return res.redirect(302, domain.default_url);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Serve static files from React app
 let clientBuildPath;
 
@@ -2058,12 +2766,16 @@ try {
 }
 
 // Set up API routes
-app.use('/api/v1', setupApiRoutes(db));
+app.use('/api/v1', setupApiRoutes(db, linkService));
 
 // ================================
 // MOBILE API ROUTES (NO AUTH)
 // ================================
 
+// QR code endpoint of a link; links on a custom domain name their domain
+const getQrCodeUrl = (req, shortCode, domain) =>
+  `${req.protocol}://${req.get('host')}/api/mobile/qr/${shortCode}${domain ? `?domain=${encodeURIComponent(domain)}` : ''}`;
+
 // Mobile rate limiting - more lenient for mobile apps
 const mobileRateLimit = rateLimit({
   windowMs: 1000, // 1 second
@@ -2109,6 +2821,18 @@ app.post('/api/mobile/shorten',
       .optional()
       .isIn(['1d', '7d', '30d', '365d', 'never'])
       .withMessage('Invalid expiration option'),
+    body('expiresAt')
+      .optional({ nullable: true })
+      .isISO8601()
+      .withMessage('expiresAt must be an ISO 8601 date'),
+    body('activatesAt')
+      .optional({ nullable: true })
+      .isISO8601()
+      .withMessage('activatesAt must be an ISO 8601 date'),
+    body('maxClicks')
+      .optional({ nullable: true })
+      .isInt({ min: 1, max: 1000000 })
+      .withMessage('maxClicks must be a whole number between 1 and 1000000'),
     body('customAlias')
       .optional()
       .isLength({ min: 3, max: 50 })
@@ -2126,56 +2850,32 @@ app.post('/api/mobile/shorten',
         });
       }
 
-      const { url, expiresIn, customOptions, customAlias, description } = req.body;
+      const { url, expiresIn, expiresAt, activatesAt, maxClicks, customAlias, description, deepLinks, utm, domain, dedupe } = req.body;
       const ip = req.ip || req.connection.remoteAddress;
       const userAgent = req.get('User-Agent') || 'Mobile App';
+
+      // App deep links may be sent at the top level or inside customOptions
+      const customOptions = deepLinks !== undefined
+        ? { ...(req.body.customOptions || {}), deepLinks }
+        : req.body.customOptions;
       
       // Normalize custom options for consistent field names
       const normalizedCustomOptions = normalizeCustomOptions(customOptions);
+      const schedule = linkService.resolveSchedule({ expiresIn, expiresAt, activatesAt });
       
-      // Calculate expiration date
-      let expiresAt = null;
-      if (expiresIn && expiresIn !== 'never') {
-        const days = { '1d': 1, '7d': 7, '30d': 30, '365d': 365 };
-        const expireDate = new Date();
-        expireDate.setDate(expireDate.getDate() + days[expiresIn]);
-        expiresAt = expireDate.toISOString();
-      }
-
-      // Generate or use custom short code
-      let shortCode;
-      if (customAlias) {
-        // Check if custom alias already exists
-        const existing = await db.findByShortCode(customAlias);
-        if (existing) {
-          return res.status(409).json({
-            success: false,
-            error: 'Custom alias already exists',
-            code: 'ALIAS_EXISTS'
-          });
-        }
-        shortCode = customAlias;
-      } else {
-        // Generate unique short code
-        let attempts = 0;
-        do {
-          shortCode = generateShortCode();
-          attempts++;
-          if (attempts > 15) {
-            throw new Error('Failed to generate unique short code');
-          }
-        } while (await db.findByShortCode(shortCode));
-      }
-
-      // Save to database
-      const result = await db.createShortUrl({
-        shortCode,
-        originalUrl: url,
-        expiresAt,
+      const link = await linkService.createLink({
+        url,
+        customAlias,
+        ...schedule,
+        maxClicks,
         ip,
         userAgent,
         customOptions: normalizedCustomOptions,
-        description
+        description,
+        bioPage: normalizeBioPage(req.body.bioPage),
+        utm,
+        domain,
+        dedupe
       });
 
       // Generate sitemap in background
@@ -2184,23 +2884,36 @@ app.post('/api/mobile/shorten',
       });
 
       // Mobile-optimized response
-      res.status(201).json({
+      res.status(link.deduplicated ? 200 : 201).json({
         success: true,
         data: {
-          shortUrl: `${req.protocol}://${req.get('host')}/${shortCode}`,
-          shortCode,
-          originalUrl: url,
-          description: description || null,
-          expiresAt,
-          createdAt: result.created_at,
-          qrCode: `${req.protocol}://${req.get('host')}/api/mobile/qr/${shortCode}`,
-          clicks: 0,
-          customOptions: customOptions || null
+          shortUrl: getShortUrl(req, link.shortCode, link.domain),
+          shortCode: link.shortCode,
+          domain: link.domain,
+          originalUrl: link.originalUrl,
+          description: link.description,
+          expiresAt: link.expiresAt,
+          activatesAt: link.activatesAt,
+          maxClicks: link.maxClicks,
+          createdAt: link.createdAt,
+          qrCode: getQrCodeUrl(req, link.shortCode, link.domain),
+          clicks: link.clicks,
+          customOptions: getPublicCustomOptions(customOptions),
+          bioPage: link.bioPage || null,
+          creationSecret: link.creationSecret,
+          deduplicated: link.deduplicated
         },
-        message: 'URL shortened successfully'
+        message: link.deduplicated ? 'Existing short URL returned' : 'URL shortened successfully'
       });
 
     } catch (error) {
+      if (error instanceof LinkServiceError) {
+        return res.status(error.status).json({
+          success: false,
+          error: error.message,
+          code: error.code
+        });
+      }
       console.error('Mobile API - Error shortening URL:', error);
       res.status(500).json({ 
         success: false,
@@ -2215,7 +2928,7 @@ app.post('/api/mobile/shorten',
 app.get('/api/mobile/info/:shortCode', mobileRateLimit, async (req, res) => {
   try {
     const { shortCode } = req.params;
-    const urlData = await db.findByShortCode(shortCode);
+    const urlData = await db.findByShortCode(shortCode, getLinkHostFromRequest(req));
     
     if (!urlData) {
       return res.status(404).json({ 
@@ -2226,7 +2939,7 @@ app.get('/api/mobile/info/:shortCode', mobileRateLimit, async (req, res) => {
     }
 
     // Check if expired
-    if (urlData.expires_at && new Date(urlData.expires_at) < new Date()) {
+    if (isExpired(urlData)) {
       return res.status(410).json({ 
         success: false,
         error: 'Link has expired',
@@ -2240,14 +2953,19 @@ app.get('/api/mobile/info/:shortCode', mobileRateLimit, async (req, res) => {
       success: true,
       data: {
         shortCode: urlData.short_code,
+        domain: urlData.domain,
         originalUrl: urlData.original_url,
         description: urlData.description || null,
         clicks: urlData.clicks || 0,
         createdAt: urlData.created_at,
         expiresAt: urlData.expires_at,
-        qrCode: `${req.protocol}://${req.get('host')}/api/mobile/qr/${shortCode}`,
+        activatesAt: urlData.activates_at || null,
+        isLive: !isNotYetActive(urlData) && !isUsedUp(urlData),
+        maxClicks: urlData.max_clicks || null,
+        remainingClicks: urlData.max_clicks ? Math.max(urlData.max_clicks - (urlData.clicks || 0), 0) : null,
+        qrCode: getQrCodeUrl(req, shortCode, urlData.domain),
         isPasswordProtected: !!customOptions.password,
-        customOptions: customOptions
+        customOptions: getPublicCustomOptions(customOptions)
       }
     });
 
@@ -2308,7 +3026,7 @@ app.post('/api/mobile/verify-password/:shortCode',
       const { shortCode } = req.params;
       const { password } = req.body;
 
-      const urlData = await db.findByShortCode(shortCode);
+      const urlData = await db.findByShortCode(shortCode, getLinkHostFromRequest(req));
       
       if (!urlData) {
         return res.status(404).json({ 
@@ -2319,7 +3037,7 @@ app.post('/api/mobile/verify-password/:shortCode',
       }
 
       // Check if expired
-      if (urlData.expires_at && new Date(urlData.expires_at) < new Date()) {
+      if (isExpired(urlData)) {
         return res.status(410).json({ 
           success: false,
           error: 'Link has expired',
@@ -2327,6 +3045,14 @@ app.post('/api/mobile/verify-password/:shortCode',
         });
       }
 
+      if (isNotYetActive(urlData)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Link is not live yet',
+          code: 'NOT_YET_ACTIVE'
+        });
+      }
+
       const customOptions = urlData.custom_options ? JSON.parse(urlData.custom_options) : {};
       
       if (!customOptions.password) {
@@ -2338,7 +3064,7 @@ app.post('/api/mobile/verify-password/:shortCode',
       }
 
       // Verify password
-      if (customOptions.password !== password) {
+      if (!(await verifyPassword(customOptions.password, password))) {
         return res.status(401).json({ 
           success: false,
           error: 'Invalid password',
@@ -2375,7 +3101,7 @@ app.post('/api/mobile/batch-shorten',
   mobileDailyLimit,
   [
     body('urls').isArray({ min: 1, max: 10 }).withMessage('URLs must be an array with 1-10 items'),
-    body('urls.*').isURL({ protocols: ['http', 'https'], require_protocol: true })
+    body('urls.*').custom(entry => isValidUrl(normalizeBatchEntry(entry).url))
       .withMessage('Each URL must be valid and include http:// or https://'),
     body('expiresIn')
       .optional()
@@ -2393,64 +3119,51 @@ app.post('/api/mobile/batch-shorten',
         });
       }
 
-      const { urls, expiresIn, customOptions } = req.body;
+      const { urls, expiresIn, customOptions, domain, dedupe } = req.body;
       const ip = req.ip || req.connection.remoteAddress;
       const userAgent = req.get('User-Agent') || 'Mobile App';
       
       // Normalize custom options (handle redirectDelay vs delay field name differences)
       const normalizedCustomOptions = normalizeCustomOptions(customOptions);
       
-      // Calculate expiration date
-      let expiresAt = null;
-      if (expiresIn && expiresIn !== 'never') {
-        const days = { '1d': 1, '7d': 7, '30d': 30, '365d': 365 };
-        const expireDate = new Date();
-        expireDate.setDate(expireDate.getDate() + days[expiresIn]);
-        expiresAt = expireDate.toISOString();
-      }
-
+      const expiresAt = linkService.calculateExpiresAt(expiresIn);
       const results = [];
       const processingErrors = [];
 
-      for (let i = 0; i < urls.length; i++) {
-        try {
-          const url = urls[i];
-          
-          // Generate unique short code
-          let shortCode;
-          let attempts = 0;
-          do {
-            shortCode = generateShortCode();
-            attempts++;
-            if (attempts > 15) {
-              throw new Error('Failed to generate unique short code');
-            }
-          } while (await db.findByShortCode(shortCode));
+      for (const entry of urls) {
+        const { url, customAlias } = normalizeBatchEntry(entry);
 
-          // Save to database
-          const result = await db.createShortUrl({
-            shortCode,
-            originalUrl: url,
+        try {
+          const link = await linkService.createLink({
+            url,
+            customAlias,
             expiresAt,
             ip,
             userAgent,
-            customOptions: normalizedCustomOptions
+            customOptions: normalizedCustomOptions,
+            domain,
+            dedupe
           });
 
           results.push({
-            shortUrl: `${req.protocol}://${req.get('host')}/${shortCode}`,
-            shortCode,
-            originalUrl: url,
-            expiresAt,
-            createdAt: result.created_at,
-            qrCode: `${req.protocol}://${req.get('host')}/api/mobile/qr/${shortCode}`,
-            clicks: 0
+            shortUrl: getShortUrl(req, link.shortCode, link.domain),
+            shortCode: link.shortCode,
+            domain: link.domain,
+            originalUrl: link.originalUrl,
+            expiresAt: link.expiresAt,
+            createdAt: link.createdAt,
+            qrCode: getQrCodeUrl(req, link.shortCode, link.domain),
+            clicks: link.clicks,
+            creationSecret: link.creationSecret,
+            deduplicated: link.deduplicated
           });
 
         } catch (error) {
           processingErrors.push({
-            url: urls[i],
-            error: error.message
+            url,
+            ...(customAlias ? { customAlias } : {}),
+            error: error.message,
+            ...(error instanceof LinkServiceError ? { code: error.code } : {})
           });
         }
       }
@@ -2485,17 +3198,21 @@ app.post('/api/mobile/batch-shorten',
   }
 );
 
-// Mobile API: Generate QR Code (No Auth)
+// Mobile API: QR code image of a link (PNG, SVG or JPEG, see qr-codes.js for the options)
 app.get('/api/mobile/qr/:shortCode', mobileRateLimit, async (req, res) => {
   try {
     const { shortCode } = req.params;
-    const { size = '200', format = 'png' } = req.query;
-    
-    // Validate parameters
-    const qrSize = Math.min(Math.max(parseInt(size) || 200, 50), 500);
-    const qrFormat = ['png', 'svg', 'jpeg'].includes(format) ? format : 'png';
-    
-    const urlData = await db.findByShortCode(shortCode);
+
+    const optionsError = getQrOptionsError(req.query);
+    if (optionsError) {
+      return res.status(400).json({
+        success: false,
+        error: optionsError,
+        code: 'INVALID_QR_OPTIONS'
+      });
+    }
+
+    const urlData = await db.findByShortCode(shortCode, getLinkHostFromRequest(req));
     if (!urlData) {
       return res.status(404).json({ 
         success: false,
@@ -2504,28 +3221,22 @@ app.get('/api/mobile/qr/:shortCode', mobileRateLimit, async (req, res) => {
       });
     }
 
-    const qrUrl = `${req.protocol}://${req.get('host')}/${shortCode}`;
-    
-    // Simple QR code generation without external dependencies
-    const qrCodeData = {
-      url: qrUrl,
-      size: qrSize,
-      format: qrFormat,
-      text: qrUrl
-    };
-    
-    // For now, return QR code data - in production you'd generate actual QR image
-    res.json({
-      success: true,
-      data: {
-        qrCode: qrCodeData,
-        shortUrl: qrUrl,
-        originalUrl: urlData.original_url,
-        downloadUrl: `${req.protocol}://${req.get('host')}/api/mobile/qr/${shortCode}?download=true&size=${qrSize}&format=${qrFormat}`
-      }
-    });
+    const qrCode = await renderQrCode(getShortUrl(req, shortCode, urlData.domain), parseQrOptions(req.query));
 
+    res.type(qrCode.contentType);
+    res.set('Cache-Control', 'public, max-age=86400');
+    if (req.query.download === 'true') {
+      res.attachment(`velink-${shortCode}.${qrCode.extension}`);
+    }
+    res.send(qrCode.body);
   } catch (error) {
+    if (error instanceof QrCodeError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+    }
     console.error('Mobile API - Error generating QR code:', error);
     res.status(500).json({ 
       success: false,
@@ -2539,7 +3250,7 @@ app.get('/api/mobile/qr/:shortCode', mobileRateLimit, async (req, res) => {
 app.get('/api/mobile/analytics/:shortCode', mobileRateLimit, async (req, res) => {
   try {
     const { shortCode } = req.params;
-    const urlData = await db.findByShortCode(shortCode);
+    const urlData = await db.findByShortCode(shortCode, getLinkHostFromRequest(req));
     
     if (!urlData) {
       return res.status(404).json({ 
@@ -2549,8 +3260,17 @@ app.get('/api/mobile/analytics/:shortCode', mobileRateLimit, async (req, res) =>
       });
     }
 
+    if (!canReadLinkAnalytics(urlData, req)) {
+      return res.status(403).json({
+        success: false,
+        error: 'This link is private. Its creation secret is required to view analytics.',
+        code: 'OWNER_SECRET_REQUIRED'
+      });
+    }
+
     // Get click analytics
-    const analytics = await db.getClickAnalytics(shortCode);
+    const analytics = await db.getClickAnalytics(urlData.id);
+    const isOwner = linkService.verifyCreationSecret(urlData, getCreationSecretFromRequest(req));
     
     res.json({
       success: true,
@@ -2566,7 +3286,8 @@ app.get('/api/mobile/analytics/:shortCode', mobileRateLimit, async (req, res) =>
           clicksByBrowser: analytics.clicksByBrowser || [],
           clicksByOS: analytics.clicksByOS || [],
           clicksByDevice: analytics.clicksByDevice || [],
-          recentClicks: analytics.recentClicks || []
+          // Individual clicks include visitor IPs and are only shown to the owner
+          recentClicks: isOwner ? (analytics.recentClicks || []) : []
         }
       }
     });
@@ -2596,32 +3317,40 @@ app.get('/api/mobile/health', (req, res) => {
   });
 });
 
-// Mobile API: Search links (No Auth - Limited)
+// Mobile API: Ranked full-text search over public links (No Auth)
 app.get('/api/mobile/search', mobileRateLimit, async (req, res) => {
   try {
-    const { q, limit = 20 } = req.query;
-    
-    if (!q || q.trim().length < 2) {
+    const { q, limit, offset } = req.query;
+
+    const queryError = getSearchQueryError(q);
+    if (queryError) {
       return res.status(400).json({
         success: false,
-        error: 'Search query must be at least 2 characters',
+        error: queryError,
         code: 'INVALID_QUERY'
       });
     }
 
-    const searchLimit = Math.min(Math.max(parseInt(limit) || 20, 1), 50);
-    
-    // Basic search functionality - you might want to implement this in database.js
-    // For now, return a simple response
+    const searchLimit = parseSearchLimit(limit, 50);
+    const searchOffset = Math.max(parseInt(offset) || 0, 0);
+    const { total, rows } = await db.searchLinks(buildMatchQuery(q), {
+      publicOnly: true,
+      limit: searchLimit,
+      offset: searchOffset
+    });
+
     res.json({
       success: true,
       data: {
         query: q.trim(),
-        results: [],
-        total: 0,
-        limit: searchLimit
-      },
-      message: 'Search completed (feature in development)'
+        results: rows.map(row => ({
+          ...formatSearchResult(row),
+          shortUrl: getShortUrl(req, row.short_code, row.domain)
+        })),
+        total,
+        limit: searchLimit,
+        offset: searchOffset
+      }
     });
 
   } catch (error) {
@@ -2638,8 +3367,12 @@ console.log('✅ Mobile API routes (no auth) registered successfully');
 
 // Special routes that must be handled before static files
 // Enhanced Sitemap route with Velink branding and design
-app.get('/sitemap.xml', (req, res) => {
-  const sitemapPath = path.join(__dirname, 'public', 'sitemap.xml');
+app.get('/sitemap.xml', async (req, res) => {
+  // Custom domains serve the sitemap of their own namespace
+  const domain = await db.findDomainByHostname(req.hostname).catch(() => null);
+  const sitemapPath = domain && domain.is_active
+    ? sitemapGenerator.getDomainSitemapPath(domain.hostname)
+    : path.join(__dirname, 'public', 'sitemap.xml');
   const acceptsHtml = req.headers.accept && req.headers.accept.includes('text/html');
   
   // Function to serve the actual XML sitemap
@@ -3146,30 +3879,34 @@ app.post('/:shortCode/verify', async (req, res) => {
     const { shortCode } = req.params;
     const { password } = req.body;
 
-    const urlData = await db.findByShortCode(shortCode);
+    const urlData = await db.findByShortCode(shortCode, req.hostname);
     
     if (!urlData) {
       return res.status(404).json({ success: false, error: 'Link not found' });
     }
 
     // Check if expired
-    if (urlData.expires_at && new Date(urlData.expires_at) < new Date()) {
+    if (isExpired(urlData)) {
       return res.status(410).json({ success: false, error: 'Link has expired' });
     }
 
+    if (isNotYetActive(urlData)) {
+      return res.status(403).json({ success: false, error: 'Link is not live yet' });
+    }
+
     const customOptions = urlData.custom_options ? JSON.parse(urlData.custom_options) : {};
     
     if (!customOptions.password) {
       return res.status(400).json({ success: false, error: 'This link is not password protected' });
     }
 
-    if (customOptions.password !== password) {
+    if (!(await verifyPassword(customOptions.password, password))) {
       return res.status(401).json({ success: false, error: 'Invalid password' });
     }
 
-    // Set session flag that password was verified
+    // Set session flag that password was verified (tied to the current password)
     req.session = req.session || {};
-    req.session[`verified_${shortCode}`] = true;
+    req.session[`verified_${shortCode}`] = getPasswordFingerprint(customOptions.password);
 
     // Ensure session is saved before responding
     req.session.save((err) => {
@@ -3186,24 +3923,112 @@ app.post('/:shortCode/verify', async (req, res) => {
   }
 });
 
-app.get('/:shortCode', async (req, res, next) => {
+// Link preview: "/abc123+" shows where a short link goes without following it or counting a click
+app.get(/^\/([^/]+)\+$/, async (req, res, next) => {
   try {
-    const { shortCode } = req.params;
-    
-    // Skip API routes and sitemap
-    if (shortCode.startsWith('api') || shortCode === 'sitemap.xml') {
+    const shortCode = req.params[0];
+    if (isReservedWord(shortCode)) {
+      return next();
+    }
+
+    const urlData = await db.findByShortCode(shortCode, req.hostname);
+    if (!urlData) {
+      return res.status(404).send(renderStatusPage({
+        title: 'Link Not Found',
+        icon: '🔍',
+        heading: 'Link Not Found',
+        message: 'There is no short link with this code, so there is nothing to preview.',
+        theme: 'red'
+      }));
+    }
+
+    res.send(renderPreviewPage(urlData, getShortUrl(req, urlData.short_code, urlData.domain)));
+  } catch (error) {
+    console.error('Error rendering link preview:', error);
+    res.status(500).send('Internal server error');
+  }
+});
+
+/**
+ * Screen the URL a visitor is about to be sent to. A flagged URL disables the
+ * link for everyone and the visitor gets the blocked page instead.
+ * @param {Object} urlData - Link row from the database
+ * @param {string} target - URL the visitor would be redirected to
+ * @param {Object} req - Express request
+ * @param {Object} res - Express response
+ * @returns {Promise<boolean>} True when the link was blocked and the response sent
+ */
+async function blockScreenedRedirect(urlData, target, req, res) {
+  const verdict = await destinationScreener.screen(target);
+  if (!verdict) {
+    return false;
+  }
+
+  await db.blockLink(urlData.id, `${verdict.provider}: ${verdict.reason}`);
+  log('warn', `Link ${urlData.short_code} disabled by destination screening: ${verdict.reason}`, { ip: req.ip });
+  res.status(403).send(renderBlockedPage());
+  return true;
+}
+
+// Button of a link-in-bio page: count the click for the button and redirect to its URL.
+// Whenever the page itself would not show its buttons (expired, password not entered
+// yet, button removed, ...) the visitor is sent back to the page, which explains why.
+app.get('/:shortCode/go/:entryId', async (req, res, next) => {
+  try {
+    const { shortCode, entryId } = req.params;
+    if (isReservedWord(shortCode)) {
       return next();
     }
 
-    // Skip known React routes
-    const knownRoutes = ['admin', 'privacy', 'terms', 'impressum', 'analytics', 'docs'];
-    if (knownRoutes.includes(shortCode)) {
+    const pageUrl = `/${encodeURIComponent(shortCode)}`;
+    const urlData = await db.findByShortCode(shortCode, req.hostname);
+    const bioPage = urlData ? parseBioPage(urlData.bio_page) : null;
+    const entry = bioPage ? bioPage.entries.find(item => item.id === entryId) : null;
+    if (!entry || urlData.blocked_reason || isExpired(urlData) || isNotYetActive(urlData) || isUsedUp(urlData)) {
+      return res.redirect(302, pageUrl);
+    }
+
+    const customOptions = urlData.custom_options ? JSON.parse(urlData.custom_options) : {};
+    if (customOptions.password &&
+        !(req.session && req.session[`verified_${shortCode}`] === getPasswordFingerprint(customOptions.password))) {
+      return res.redirect(302, pageUrl);
+    }
+
+    if (await blockScreenedRedirect(urlData, entry.url, req, res)) {
+      return;
+    }
+
+    if (!(await db.incrementClicks(urlData, { bioEntry: entry.id }))) {
+      return res.status(410).send(renderUsedUpPage());
+    }
+
+    // Always 302: a cached permanent redirect would skip counting later clicks
+    setRedirectHeaders(res, urlData, customOptions);
+    res.redirect(302, entry.url);
+  } catch (error) {
+    console.error('Error following bio page entry:', error);
+    res.status(500).send('Internal server error');
+  }
+});
+
+app.get('/:shortCode', async (req, res, next) => {
+  try {
+    const { shortCode } = req.params;
+    
+    // Skip API routes, sitemap and known React routes
+    if (isReservedWord(shortCode)) {
       return next();
     }
 
-    const urlData = await db.findByShortCode(shortCode);
+    const urlData = await db.findByShortCode(shortCode, req.hostname);
     
     if (!urlData) {
+      // Custom domains may send unknown codes to a page of their own
+      const domain = await db.findDomainByHostname(req.hostname);
+      if (domain && domain.is_active && domain.not_found_url) {
+        return res.redirect(302, domain.not_found_url);
+      }
+
       return res.status(404).send(`
         <!DOCTYPE html>
         <html lang="en">
@@ -3406,202 +4231,56 @@ app.get('/:shortCode', async (req, res, next) => {
       `);
     }
 
-    // Check if the link has expired
-    if (urlData.expires_at && new Date(urlData.expires_at) < new Date()) {
-      return res.status(410).send(`
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>Link Expired - Velink</title>
-          <link rel="preconnect" href="https://fonts.googleapis.com">
-          <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
-          <link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap" rel="stylesheet">
-          <style>
-            * {
-              margin: 0;
-              padding: 0;
-              box-sizing: border-box;
-            }
-            body { 
-              font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
-              background: linear-gradient(135deg, #fef3f2 0%, #ffffff 50%, #fef3f2 100%);
-              min-height: 100vh;
-              display: flex;
-              align-items: center;
-              justify-content: center;
-              color: #1e293b;
-              position: relative;
-              overflow: hidden;
-            }
-            
-            /* Background decoration */
-            body::before,
-            body::after {
-              content: '';
-              position: absolute;
-              width: 320px;
-              height: 320px;
-              border-radius: 50%;
-              filter: blur(40px);
-              opacity: 0.7;
-              z-index: -1;
-            }
-            body::before {
-              background: #fed7d7;
-              top: -160px;
-              right: -160px;
-              animation: pulse 6s infinite;
-            }
-            body::after {
-              background: #fecaca;
-              bottom: -160px;
-              left: -160px;
-              animation: pulse 8s infinite reverse;
-            }
-            
-            @keyframes pulse {
-              0%, 100% { transform: scale(1); opacity: 0.7; }
-              50% { transform: scale(1.1); opacity: 0.5; }
-            }
-            
-            .container { 
-              max-width: 450px;
-              width: 100%;
-              margin: 20px;
-              background: rgba(255, 255, 255, 0.9);
-              backdrop-filter: blur(16px);
-              border: 1px solid rgba(255, 255, 255, 0.2);
-              border-radius: 24px;
-              padding: 48px 32px;
-              text-align: center;
-              box-shadow: 0 25px 50px rgba(0, 0, 0, 0.1);
-              position: relative;
-              z-index: 1;
-            }
-            
-            .logo {
-              display: flex;
-              align-items: center;
-              justify-content: center;
-              gap: 12px;
-              margin-bottom: 32px;
-            }
-            
-            .logo-icon {
-              width: 48px;
-              height: 48px;
-              background: linear-gradient(135deg, #3b82f6, #2563eb);
-              border-radius: 12px;
-              display: flex;
-              align-items: center;
-              justify-content: center;
-              color: white;
-              font-weight: 700;
-              font-size: 24px;
-              box-shadow: 0 8px 25px rgba(59, 130, 246, 0.3);
-            }
-            
-            .logo-text {
-              font-size: 28px;
-              font-weight: 700;
-              background: linear-gradient(135deg, #3b82f6, #2563eb);
-              -webkit-background-clip: text;
-              -webkit-text-fill-color: transparent;
-              background-clip: text;
-            }
-            
-            .icon {
-              font-size: 48px;
-              margin-bottom: 24px;
-              display: block;
-              animation: bounce 2s infinite;
-            }
-            
-            @keyframes bounce {
-              0%, 20%, 50%, 80%, 100% { transform: translateY(0); }
-              40% { transform: translateY(-10px); }
-              60% { transform: translateY(-5px); }
-            }
-            
-            h1 { 
-              font-size: 28px;
-              font-weight: 700;
-              color: #1e293b;
-              margin-bottom: 16px;
-              line-height: 1.2;
-            }
-            
-            p { 
-              color: #64748b;
-              font-size: 16px;
-              line-height: 1.6;
-              margin-bottom: 32px;
-            }
-            
-            .back-link { 
-              display: inline-flex;
-              align-items: center;
-              gap: 8px;
-              color: #64748b;
-              text-decoration: none;
-              font-size: 14px;
-              font-weight: 500;
-              padding: 12px 20px;
-              border: 2px solid #e2e8f0;
-              border-radius: 12px;
-              transition: all 0.2s ease;
-            }
-            
-            .back-link:hover { 
-              color: #3b82f6;
-              border-color: #bfdbfe;
-              background: #f0f9ff;
-              transform: translateY(-1px);
-            }
-            
-            @media (max-width: 640px) {
-              .container {
-                margin: 16px;
-                padding: 32px 24px;
-              }
-              .logo-text {
-                font-size: 24px;
-              }
-              h1 {
-                font-size: 24px;
-              }
-            }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="logo">
-              
-              <span class="logo-text">Velink</span>
-            </div>
-            
-            <span class="icon">⏰</span>
-            <h1>Link Expired</h1>
-            <p>This short link has expired and is no longer accessible.</p>
-            <a href="/" class="back-link">
-              <span>←</span>
-              Back to Velink
-            </a>
-          </div>
-        </body>
-        </html>
-      `);
+    // Links disabled by destination screening stay down until an admin re-enables them
+    if (urlData.blocked_reason) {
+      return res.status(403).send(renderBlockedPage());
+    }
+
+    // Expired links send visitors to the owner's fallback URL or show the expired page
+    if (isExpired(urlData)) {
+      const customOptions = urlData.custom_options ? JSON.parse(urlData.custom_options) : {};
+      const expiredAction = getExpiredLinkAction(customOptions);
+      if (expiredAction.fallbackUrl) {
+        if (await blockScreenedRedirect(urlData, expiredAction.fallbackUrl, req, res)) {
+          return;
+        }
+        return res.redirect(302, expiredAction.fallbackUrl);
+      }
+      return res.status(410).send(renderExpiredPage(expiredAction.message));
+    }
+
+    // Scheduled links are not reachable before their activation time
+    if (isNotYetActive(urlData)) {
+      res.set('Retry-After', new Date(urlData.activates_at).toUTCString());
+      return res.status(503).send(renderNotYetLivePage(urlData.activates_at));
+    }
+
+    if (isUsedUp(urlData)) {
+      return res.status(410).send(renderUsedUpPage());
     }
 
     // Parse custom options
     const customOptions = urlData.custom_options ? JSON.parse(urlData.custom_options) : {};
+
+    // Link preview crawlers get the owner's Open Graph tags instead of the redirect.
+    // They never count as a click, and password protected destinations stay hidden.
+    const socialPreview = getSocialPreview(customOptions);
+    if (socialPreview) {
+      res.vary('User-Agent');
+      if (isPreviewCrawler(req.get('User-Agent'))) {
+        return res.send(renderSocialPreviewPage(
+          socialPreview,
+          getShortUrl(req, urlData.short_code, urlData.domain),
+          customOptions.password ? null : urlData.original_url
+        ));
+      }
+    }
     
     // Check for password protection
     if (customOptions.password) {
       // Check if already verified in session
-      const isVerified = req.session && req.session[`verified_${shortCode}`];
+      const isVerified = req.session &&
+        req.session[`verified_${shortCode}`] === getPasswordFingerprint(customOptions.password);
       
       if (!isVerified) {
         return res.send(`
@@ -3916,6 +4595,72 @@ app.get('/:shortCode', async (req, res, next) => {
       }
     }
     
+    // Link-in-bio pages show their buttons instead of redirecting. Viewing the page
+    // is not a click; following a button is (see /:shortCode/go/:entryId)
+    const bioPage = parseBioPage(urlData.bio_page);
+    if (bioPage) {
+      return res.send(renderBioPage(urlData.short_code, bioPage));
+    }
+
+    // Pick the destination: a matching redirect rule wins, then the visitor's
+    // A/B variant, then the link's original_url
+    const rule = findMatchingRule(urlData, req);
+    const variant = rule ? null : selectVariant(urlData, req, res);
+    let destination = rule ? rule.destination : (variant ? variant.destination : urlData.original_url);
+
+    // While the destination is down, owners can have the link disabled or sent to a fallback URL.
+    // Health checks only cover original_url, so rule and variant destinations are left alone.
+    if (!rule && !variant && customOptions.onBroken) {
+      const brokenAction = getBrokenLinkAction(customOptions, await db.getLinkHealth(urlData.id));
+      if (brokenAction && brokenAction.disable) {
+        return res.status(503).send(renderDestinationDownPage());
+      }
+      if (brokenAction) {
+        destination = brokenAction.fallbackUrl;
+      }
+    }
+
+    if (customOptions.forwardQuery) {
+      const queryIndex = req.originalUrl.indexOf('?');
+      destination = appendQueryParams(destination, queryIndex === -1 ? '' : req.originalUrl.slice(queryIndex));
+    }
+    const clickData = { variant: variant ? variant.id : null };
+
+    // Destinations are screened again on every visit: rules added after a link
+    // was created, or a threat feed update, disable the link for everyone
+    if (await blockScreenedRedirect(urlData, destination, req, res)) {
+      return;
+    }
+
+    // iOS and Android visitors of links with app targets get the deep link bridge page,
+    // which sends them on to the app or store URL, so those are screened as well
+    const deepLinkTarget = getDeepLinkTarget(customOptions, req.get('User-Agent'));
+    for (const target of deepLinkTarget ? [deepLinkTarget.appUrl, deepLinkTarget.fallbackUrl] : []) {
+      if (target && await blockScreenedRedirect(urlData, target, req, res)) {
+        return;
+      }
+    }
+
+    // Click-capped links use up a click before the destination is revealed.
+    // The cap is checked again inside incrementClicks, so concurrent visits cannot overshoot it.
+    const isClickCapped = !!urlData.max_clicks;
+    if (isClickCapped && !(await db.incrementClicks(urlData, clickData))) {
+      return res.status(410).send(renderUsedUpPage());
+    }
+
+    setRedirectHeaders(res, urlData, customOptions);
+
+    if (deepLinkTarget) {
+      if (!isClickCapped) {
+        await db.incrementClicks(urlData, clickData);
+      }
+      // Without an app URL there is nothing to try first: go straight to the store
+      if (!deepLinkTarget.appUrl) {
+        return res.redirect(302, deepLinkTarget.fallbackUrl);
+      }
+      return res.send(renderDeepLinkBridgePage(deepLinkTarget, destination));
+    }
+
     // Check for delay (accept both 'delay' and 'redirectDelay' for compatibility)
     const delayValue = customOptions.delay || customOptions.redirectDelay;
     if (delayValue && delayValue > 0) {
@@ -4148,7 +4893,7 @@ app.get('/:shortCode', async (req, res, next) => {
             </div>
             
             <div class="destination">
-              Destination: ${urlData.original_url}
+              Destination: ${destination}
             </div>
             
             <a href="/" class="cancel-btn">
@@ -4172,7 +4917,7 @@ app.get('/:shortCode', async (req, res, next) => {
               
               if (timeLeft <= 0) {
                 clearInterval(timer);
-                window.location.href = '${urlData.original_url}';
+                window.location.href = '${destination}';
               }
             }, 1000);
           </script>
@@ -4182,8 +4927,10 @@ app.get('/:shortCode', async (req, res, next) => {
     }
 
     // No special handling needed - redirect normally
-    await db.incrementClicks(shortCode);
-    res.redirect(302, urlData.original_url);
+    if (!isClickCapped) {
+      await db.incrementClicks(urlData, clickData);
+    }
+    res.redirect(getRedirectStatus(urlData, customOptions), destination);
 
   } catch (error) {
     console.error('Error redirecting:', error);
@@ -4223,13 +4970,20 @@ const sitemapGenerator = new SitemapGenerator(
 );
 
 // Generate sitemap on startup
-sitemapGenerator.generateSitemap();
+db.ready.then(() => sitemapGenerator.generateSitemap());
 
 // Regenerate sitemap every hour
 setInterval(() => {
   sitemapGenerator.generateSitemap();
 }, 60 * 60 * 1000);
 
+// Check link destinations on the configured interval (HEALTH_CHECK_INTERVAL_MINUTES, 0 disables it)
+// and re-check broken ones every HEALTH_CHECK_RETRY_MINUTES
+linkHealthChecker.start();
+
+// Purge links that have been in the trash longer than the retention period
+trashPurger.start();
+
 // Admin authentication middleware
 const adminAuth = (req, res, next) => {
   const token = req.headers.authorization?.replace('Bearer ', '');
@@ -4476,7 +5230,7 @@ app.delete('/api/admin/links/:id', adminAuth, async (req, res) => {
       return res.status(404).json({ error: 'Link not found' });
     }
     
-    await db.deleteLink(link.short_code);
+    await db.deleteLink(link.id);
     
     // Generate sitemap after deleting link
     sitemapGenerator.generateSitemap().catch(err => {
@@ -4499,7 +5253,7 @@ app.delete('/api/admin/links/bulk', adminAuth, async (req, res) => {
     for (const id of linkIds) {
       const link = await db.findById(id);
       if (link) {
-        await db.deleteLink(link.short_code);
+        await db.deleteLink(link.id);
       }
     }
     
@@ -4526,7 +5280,7 @@ app.patch('/api/admin/links/:id/toggle', adminAuth, async (req, res) => {
       return res.status(404).json({ error: 'Link not found' });
     }
     
-    await db.toggleLinkStatus(link.short_code);
+    await db.toggleLinkStatus(link.id);
     log('info', `Admin toggled link status: ${link.short_code}`);
     res.json({ success: true });
   } catch (error) {
@@ -4902,7 +5656,8 @@ const startServer = () => {
   }
 };
 
-startServer();
+// Requests are only accepted once the database schema is up to date
+db.ready.then(startServer);
 
 
 
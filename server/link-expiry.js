@@ -0,0 +1,92 @@
+/**
+ * Velink Link Expiry
+ * What visitors get once a link has passed its expiry time. Owners choose per
+ * link, stored in customOptions:
+ * {
+ *   onExpiry: 'fallback' | 'message',
+ *   expiredFallbackUrl: 'https://example.com/offer-ended',  // required for 'fallback'
+ *   expiredMessage: 'The spring sale is over, see you in autumn!'  // required for 'message'
+ * }
+ * Without onExpiry, visitors get the standard expired page. Expired links are
+ * kept, so owners can renew them later under the same code.
+ */
+
+const { isValidUrl } = require('./utils');
+const { renderStatusPage } = require('./pages');
+
+const EXPIRY_ACTIONS = ['fallback', 'message'];
+const EXPIRY_OPTION_FIELDS = ['onExpiry', 'expiredFallbackUrl', 'expiredMessage'];
+const MAX_MESSAGE_LENGTH = 500;
+
+/**
+ * Check whether a link has passed its expiry time
+ * @param {Object} link - Link row from the database
+ * @returns {boolean} True if the link has expired
+ */
+function isExpired(link) {
+  return !!(link && link.expires_at && new Date(link.expires_at) < new Date());
+}
+
+/**
+ * Validate the expiry options in submitted custom options
+ * @param {Object} customOptions - Custom options as submitted
+ * @returns {string|null} Error message, or null when the options are valid
+ */
+function getExpiryOptionsError(customOptions) {
+  if (!customOptions || typeof customOptions !== 'object' || !customOptions.onExpiry) {
+    return null;
+  }
+
+  const { onExpiry, expiredFallbackUrl, expiredMessage } = customOptions;
+  if (!EXPIRY_ACTIONS.includes(onExpiry)) {
+    return `onExpiry must be one of ${EXPIRY_ACTIONS.join(', ')}`;
+  }
+  if (onExpiry === 'fallback' && (!isValidUrl(expiredFallbackUrl) || expiredFallbackUrl.length > 2048)) {
+    return 'expiredFallbackUrl must be a valid URL with http:// or https://';
+  }
+  if (onExpiry === 'message' &&
+      (typeof expiredMessage !== 'string' || !expiredMessage.trim() || expiredMessage.length > MAX_MESSAGE_LENGTH)) {
+    return `onExpiry "message" needs an expiredMessage of at most ${MAX_MESSAGE_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Decide what a visitor of an expired link gets
+ * @param {Object} customOptions - Parsed custom options of the link
+ * @returns {Object} { fallbackUrl } or { message }, where message is null for the standard page
+ */
+function getExpiredLinkAction(customOptions) {
+  const options = customOptions || {};
+  if (options.onExpiry === 'fallback' && options.expiredFallbackUrl) {
+    return { fallbackUrl: options.expiredFallbackUrl };
+  }
+  if (options.onExpiry === 'message' && options.expiredMessage) {
+    return { message: options.expiredMessage };
+  }
+  return { message: null };
+}
+
+/**
+ * Page shown for expired links
+ * @param {string|null} [message] - The owner's message, the standard text when omitted
+ * @returns {string} HTML document
+ */
+function renderExpiredPage(message) {
+  return renderStatusPage({
+    title: 'Link Expired',
+    icon: '⏰',
+    heading: 'Link Expired',
+    message: message || 'This short link has expired and is no longer accessible.',
+    theme: 'red'
+  });
+}
+
+module.exports = {
+  EXPIRY_OPTION_FIELDS,
+  isExpired,
+  getExpiryOptionsError,
+  getExpiredLinkAction,
+  renderExpiredPage
+};
@@ -0,0 +1,285 @@
+/**
+ * Velink Link Health
+ * A background job that checks the destination of every active link and
+ * records the HTTP status, response time and redirect chain. Links whose
+ * destination answers with 4xx/5xx, fails or times out are flagged as broken.
+ *
+ * Owners choose per link what visitors get while the destination is down,
+ * stored in customOptions:
+ * {
+ *   onBroken: 'disable' | 'fallback',
+ *   brokenFallbackUrl: 'https://example.com/status'  // required for 'fallback'
+ * }
+ * Without onBroken, broken links keep redirecting and are only reported to admins.
+ * onBroken only takes effect after BROKEN_AFTER_FAILURES failed checks in a row,
+ * so a single timeout does not take a link offline. Broken links are checked
+ * again every retryIntervalMs, which confirms an outage and ends it soon after
+ * the destination is back.
+ */
+
+const { isValidUrl, requestPublicUrl } = require('./utils');
+const { renderStatusPage } = require('./pages');
+
+const BROKEN_ACTIONS = ['disable', 'fallback'];
+const HEALTH_OPTION_FIELDS = ['onBroken', 'brokenFallbackUrl'];
+const MAX_REDIRECTS = 10;
+const BROKEN_AFTER_FAILURES = 3;
+// Some servers reject HEAD requests; the check is retried with GET for these
+const HEAD_UNSUPPORTED_STATUSES = [403, 405, 501];
+
+/**
+ * Validate the health options in submitted custom options
+ * @param {Object} customOptions - Custom options as submitted
+ * @returns {string|null} Error message, or null when the options are valid
+ */
+function getHealthOptionsError(customOptions) {
+  if (!customOptions || typeof customOptions !== 'object' || !customOptions.onBroken) {
+    return null;
+  }
+
+  if (!BROKEN_ACTIONS.includes(customOptions.onBroken)) {
+    return `onBroken must be one of ${BROKEN_ACTIONS.join(', ')}`;
+  }
+  if (customOptions.onBroken === 'fallback' &&
+      (!isValidUrl(customOptions.brokenFallbackUrl) || customOptions.brokenFallbackUrl.length > 2048)) {
+    return 'brokenFallbackUrl must be a valid URL with http:// or https://';
+  }
+
+  return null;
+}
+
+/**
+ * Decide where a visitor of a link with a broken destination goes
+ * @param {Object} customOptions - Parsed custom options of the link
+ * @param {Object|null} health - Latest health check of the link
+ * @returns {Object|null} { disable: true } or { fallbackUrl }, null when the link redirects as usual
+ */
+function getBrokenLinkAction(customOptions, health) {
+  if (!health || !health.is_broken || health.failure_count < BROKEN_AFTER_FAILURES || !customOptions.onBroken) {
+    return null;
+  }
+
+  if (customOptions.onBroken === 'fallback' && customOptions.brokenFallbackUrl) {
+    return { fallbackUrl: customOptions.brokenFallbackUrl };
+  }
+  return { disable: true };
+}
+
+/**
+ * Page shown for links disabled while their destination is down
+ * @returns {string} HTML document
+ */
+function renderDestinationDownPage() {
+  return renderStatusPage({
+    title: 'Destination Unavailable',
+    icon: '🔧',
+    heading: 'This Link Is Temporarily Unavailable',
+    message: 'The page this short link points to is currently not reachable. Please try again later.',
+    theme: 'amber'
+  });
+}
+
+class LinkHealthChecker {
+  /**
+   * @param {Object} db - Database
+   * @param {Object} [options]
+   * @param {number} [options.concurrency] - Number of destinations checked at the same time
+   * @param {number} [options.timeoutMs] - Time a destination gets to answer
+   * @param {number} [options.intervalMs] - Time between two runs, 0 disables the schedule
+   * @param {number} [options.retryIntervalMs] - Time between two re-checks of broken links, 0 disables them
+   */
+  constructor(db, options = {}) {
+    this.db = db;
+    this.concurrency = options.concurrency || 5;
+    this.timeoutMs = options.timeoutMs || 10000;
+    this.intervalMs = options.intervalMs || 0;
+    this.retryIntervalMs = options.retryIntervalMs || 0;
+    this.running = null;
+    this.runningOnlyBroken = false;
+    this.lastRun = null;
+  }
+
+  /**
+   * Check a destination, following redirects by hand to record the chain
+   * @param {string} destination - Destination URL
+   * @returns {Promise<Object>} { statusCode, responseTimeMs, redirectChain, error, isBroken }
+   */
+  async checkUrl(destination) {
+    const startedAt = Date.now();
+    const redirectChain = [];
+    let url = destination;
+    let statusCode = null;
+    let error = null;
+    let skipped = false;
+
+    try {
+      for (let hop = 0; ; hop++) {
+        let response = await this.request(url, 'HEAD');
+        if (HEAD_UNSUPPORTED_STATUSES.includes(response.statusCode)) {
+          response = await this.request(url, 'GET');
+        }
+        statusCode = response.statusCode;
+
+        const location = response.headers.location;
+        if (statusCode < 300 || statusCode >= 400 || !location) {
+          break;
+        }
+        if (hop >= MAX_REDIRECTS) {
+          error = `More than ${MAX_REDIRECTS} redirects`;
+          break;
+        }
+
+        url = new URL(location, url).href;
+        redirectChain.push({ status: statusCode, url });
+      }
+    } catch (requestError) {
+      // The server's own network is never probed on behalf of link creators, on any hop
+      if (requestError.code === 'EPRIVATEADDRESS') {
+        error = 'Private or local address, not checked';
+        skipped = true;
+      } else {
+        error = requestError.name === 'TimeoutError'
+          ? `No response within ${Math.round(this.timeoutMs / 1000)} seconds`
+          : (requestError.cause && requestError.cause.code) || requestError.code || requestError.message;
+      }
+    }
+
+    return {
+      statusCode,
+      responseTimeMs: Date.now() - startedAt,
+      redirectChain,
+      error,
+      isBroken: !skipped && (error !== null || statusCode >= 400)
+    };
+  }
+
+  /**
+   * Send a single request without following redirects
+   * @param {string} url - URL to request
+   * @param {string} method - HEAD or GET
+   * @returns {Promise<http.IncomingMessage>} Response
+   */
+  async request(url, method) {
+    const response = await requestPublicUrl(url, {
+      method,
+      headers: { 'User-Agent': 'Velink-LinkHealth/1.0 (+https://velink.me)' },
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+    // Only the status matters; drop the body so the connection is released
+    response.destroy();
+    return response;
+  }
+
+  /**
+   * Check a link and store the result
+   * @param {Object} link - Link row with id and original_url
+   * @returns {Promise<Object>} Check result
+   */
+  async checkLink(link) {
+    const result = await this.checkUrl(link.original_url);
+    await this.db.saveLinkHealth(link.id, result);
+    return result;
+  }
+
+  /**
+   * Check every active link, at most `concurrency` at a time. A run that is
+   * already in progress is shared instead of starting a second one; a
+   * re-check of broken links in progress is waited for first.
+   * @returns {Promise<Object>} { checked, broken }
+   */
+  checkAll() {
+    if (this.running && this.runningOnlyBroken) {
+      return this.running.catch(() => {}).then(() => this.checkAll());
+    }
+    if (!this.running) {
+      this.startRun(false);
+    }
+    return this.running;
+  }
+
+  /**
+   * Check the links whose latest check failed. Skipped while any run is in progress.
+   * @returns {Promise<Object>} { checked, broken }
+   */
+  recheckBroken() {
+    if (!this.running) {
+      this.startRun(true);
+    }
+    return this.running;
+  }
+
+  /**
+   * Start a run and remember it until it has finished
+   * @param {boolean} onlyBroken - Only check links whose latest check failed
+   */
+  startRun(onlyBroken) {
+    this.runningOnlyBroken = onlyBroken;
+    this.running = this.runCheck(onlyBroken).finally(() => {
+      this.running = null;
+    });
+  }
+
+  /**
+   * Check active links with a pool of `concurrency` workers
+   * @param {boolean} [onlyBroken] - Only check links whose latest check failed
+   * @returns {Promise<Object>} { checked, broken }
+   */
+  async runCheck(onlyBroken = false) {
+    const links = await this.db.getLinksForHealthCheck(onlyBroken);
+    let next = 0;
+    let broken = 0;
+
+    const worker = async () => {
+      while (next < links.length) {
+        const link = links[next++];
+        try {
+          if ((await this.checkLink(link)).isBroken) {
+            broken++;
+          }
+        } catch (error) {
+          console.error(`Health check of ${link.short_code} failed:`, error.message);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, links.length) }, worker));
+    if (onlyBroken) {
+      if (links.length > 0) {
+        console.log(`🩺 Broken links re-checked: ${links.length - broken} recovered, ${broken} still broken`);
+      }
+      return { checked: links.length, broken };
+    }
+    this.lastRun = new Date().toISOString();
+    console.log(`🩺 Link health check finished: ${links.length} links checked, ${broken} broken`);
+    return { checked: links.length, broken };
+  }
+
+  /**
+   * Run the check and the re-check of broken links on their configured intervals
+   */
+  start() {
+    if (this.intervalMs) {
+      setInterval(() => {
+        this.checkAll().catch(error => {
+          console.error('Link health check failed:', error);
+        });
+      }, this.intervalMs);
+    }
+
+    if (this.retryIntervalMs) {
+      setInterval(() => {
+        this.recheckBroken().catch(error => {
+          console.error('Broken link re-check failed:', error);
+        });
+      }, this.retryIntervalMs);
+    }
+  }
+}
+
+module.exports = {
+  HEALTH_OPTION_FIELDS,
+  LinkHealthChecker,
+  getHealthOptionsError,
+  getBrokenLinkAction,
+  renderDestinationDownPage
+};
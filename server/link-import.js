@@ -0,0 +1,395 @@
+/**
+ * Velink Link Import
+ * Bulk creation of links from CSV or JSON, the counterpart of the CSV export in
+ * the admin panel. Every row is validated like a link created through the API;
+ * a dry run only reports the outcome, a real import creates all links in one
+ * transaction or none at all when any row has an error.
+ *
+ * Columns (CSV header or JSON keys, case and spacing ignored):
+ *   code         custom short code, generated when empty   (also: Short Code, alias)
+ *   destination  destination URL, required                 (also: Original URL, url)
+ *   description  link description
+ *   expiry       ISO 8601 expiration timestamp             (also: expires, expiresAt)
+ *   options      custom options as a JSON object           (also: customOptions)
+ *   tags         tag names separated by ";" (JSON: array)
+ *   status       Active or Inactive
+ *   domain       custom domain hostname
+ * Other columns, such as Created and Clicks in an export, are ignored.
+ *
+ * Imported links have no owner secret; they are managed through the admin panel.
+ */
+
+const { normalizeCustomOptions } = require('./utils');
+const { LinkServiceError } = require('./link-service');
+const { normalizeTags } = require('./tags');
+
+const IMPORT_FORMATS = ['csv', 'json'];
+const MAX_IMPORT_ROWS = 5000;
+// Generated codes are regenerated when they clash with a code used elsewhere in the
+// file, and the whole import is retried when one of them turns out to be taken
+const MAX_CODE_RETRIES = 5;
+
+const COLUMN_NAMES = {
+  code: ['code', 'shortcode', 'alias', 'customalias'],
+  destination: ['destination', 'url', 'originalurl'],
+  description: ['description'],
+  expiry: ['expiry', 'expires', 'expiresat'],
+  options: ['options', 'customoptions'],
+  tags: ['tags'],
+  status: ['status'],
+  domain: ['domain']
+};
+
+/**
+ * Map a CSV header or JSON key to the import field it fills
+ * @param {string} name - Column name as found in the file
+ * @returns {string|null} Import field, or null for ignored columns
+ */
+function getImportField(name) {
+  const key = String(name).toLowerCase().replace(/[^a-z]/g, '');
+  return Object.keys(COLUMN_NAMES).find(field => COLUMN_NAMES[field].includes(key)) || null;
+}
+
+/**
+ * Split CSV text into records. Fields may be quoted; quoted fields can contain
+ * commas, line breaks and doubled quotes.
+ * @param {string} text - CSV text
+ * @returns {Array<Array<string>>} Records, each an array of fields
+ */
+function parseCsv(text) {
+  const records = [];
+  let record = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new LinkServiceError('CSV has a quoted field that is never closed', 'INVALID_IMPORT');
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Turn submitted import data into rows keyed by import field
+ * @param {string} format - 'csv' or 'json'
+ * @param {string|Array} data - CSV text, or an array of objects for JSON
+ * @returns {Array<Object>} Rows; entries that are entirely empty are null
+ */
+function parseImportData(format, data) {
+  if (!IMPORT_FORMATS.includes(format)) {
+    throw new LinkServiceError(`format must be one of ${IMPORT_FORMATS.join(', ')}`, 'INVALID_IMPORT');
+  }
+
+  let rows;
+  if (format === 'csv') {
+    if (typeof data !== 'string') {
+      throw new LinkServiceError('data must be the CSV text', 'INVALID_IMPORT');
+    }
+
+    const [header, ...records] = parseCsv(data);
+    const fields = (header || []).map(getImportField);
+    if (!fields.includes('destination')) {
+      throw new LinkServiceError('CSV header needs a destination (or "Original URL") column', 'INVALID_IMPORT');
+    }
+
+    rows = records.map(record => {
+      if (record.every(value => !value.trim())) {
+        return null;
+      }
+      const row = {};
+      fields.forEach((field, index) => {
+        if (field && record[index] !== undefined) {
+          row[field] = record[index].trim();
+        }
+      });
+      return row;
+    });
+  } else {
+    let entries = data;
+    if (typeof entries === 'string') {
+      try {
+        entries = JSON.parse(entries);
+      } catch (error) {
+        throw new LinkServiceError(`data is not valid JSON: ${error.message}`, 'INVALID_IMPORT');
+      }
+    }
+    if (!Array.isArray(entries)) {
+      throw new LinkServiceError('data must be an array of link objects', 'INVALID_IMPORT');
+    }
+
+    rows = entries.map(entry => {
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        return {};
+      }
+      const row = {};
+      for (const [key, value] of Object.entries(entry)) {
+        const field = getImportField(key);
+        if (field) {
+          row[field] = typeof value === 'string' ? value.trim() : value;
+        }
+      }
+      return row;
+    });
+  }
+
+  if (rows.filter(Boolean).length === 0) {
+    throw new LinkServiceError('The import contains no links', 'INVALID_IMPORT');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new LinkServiceError(`An import can contain at most ${MAX_IMPORT_ROWS} links`, 'INVALID_IMPORT');
+  }
+
+  return rows;
+}
+
+/**
+ * Check whether an import value was left empty
+ * @param {*} value - Row value
+ * @returns {boolean} True for undefined, null and empty strings
+ */
+function isEmpty(value) {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Key of a short code in its domain's namespace
+ * @param {string} code - Short code
+ * @param {string|null} domain - Domain hostname, null for the primary domain
+ * @returns {string} Key
+ */
+function codeKey(code, domain) {
+  return `${(domain || '').toLowerCase()}/${code}`;
+}
+
+class LinkImporter {
+  /**
+   * @param {Object} db - Database
+   * @param {Object} linkService - LinkService validating the rows
+   */
+  constructor(db, linkService) {
+    this.db = db;
+    this.linkService = linkService;
+  }
+
+  /**
+   * Convert the fields of an import row into link data for LinkService
+   * @param {Object} row - Row from parseImportData()
+   * @returns {Object} { data, tags, isActive }
+   */
+  toLinkData(row) {
+    if (isEmpty(row.destination)) {
+      throw new LinkServiceError('destination is required', 'INVALID_URL');
+    }
+
+    let customOptions = null;
+    if (!isEmpty(row.options)) {
+      let options = row.options;
+      if (typeof options === 'string') {
+        try {
+          options = JSON.parse(options);
+        } catch (error) {
+          throw new LinkServiceError('options must be a JSON object', 'INVALID_OPTIONS');
+        }
+      }
+      if (!options || typeof options !== 'object' || Array.isArray(options)) {
+        throw new LinkServiceError('options must be a JSON object', 'INVALID_OPTIONS');
+      }
+      customOptions = normalizeCustomOptions(options);
+    }
+
+    let isActive = true;
+    if (!isEmpty(row.status)) {
+      const status = String(row.status).toLowerCase();
+      if (status !== 'active' && status !== 'inactive') {
+        throw new LinkServiceError('status must be Active or Inactive', 'INVALID_STATUS');
+      }
+      isActive = status === 'active';
+    }
+
+    const tags = typeof row.tags === 'string' ? row.tags.split(';') : row.tags;
+    const { expiresAt } = this.linkService.resolveSchedule({
+      expiresAt: isEmpty(row.expiry) ? undefined : row.expiry
+    });
+
+    return {
+      data: {
+        url: String(row.destination),
+        customAlias: isEmpty(row.code) ? undefined : String(row.code),
+        expiresAt,
+        customOptions,
+        description: isEmpty(row.description) ? undefined : String(row.description),
+        domain: isEmpty(row.domain) ? undefined : String(row.domain)
+      },
+      tags: normalizeTags(tags),
+      isActive
+    };
+  }
+
+  /**
+   * Give a link a new generated code that no other row of the import uses
+   * @param {Object} link - Link from LinkService#prepareLink()
+   * @param {Function} isUsed - Checks a codeKey() against the codes of the import
+   */
+  assignGeneratedCode(link, isUsed) {
+    for (let attempt = 0; attempt < MAX_CODE_RETRIES && isUsed(codeKey(link.shortCode, link.domain)); attempt++) {
+      link.shortCode = this.linkService.generateShortCode();
+    }
+  }
+
+  /**
+   * Validate every row and, unless this is a dry run, create the links
+   * @param {Array<Object>} rows - Rows from parseImportData()
+   * @param {Object} [options]
+   * @param {boolean} [options.dryRun] - Only validate
+   * @param {string} [options.ip] - IP address of the admin
+   * @param {string} [options.userAgent] - User agent of the admin
+   * @returns {Promise<Object>} { dryRun, total, valid, invalid, imported, rows: [{ row, code, domain, destination, errors }] }
+   */
+  async importLinks(rows, { dryRun = false, ip, userAgent } = {}) {
+    // Codes given in the file, so generated codes can stay clear of them
+    const requestedCodes = new Map();
+    rows.forEach((row, index) => {
+      if (row && !isEmpty(row.code)) {
+        const key = codeKey(String(row.code), row.domain);
+        if (!requestedCodes.has(key)) {
+          requestedCodes.set(key, index + 1);
+        }
+      }
+    });
+
+    const usedCodes = new Set();
+    const report = [];
+    const links = [];
+
+    for (const [index, row] of rows.entries()) {
+      if (!row) {
+        continue;
+      }
+
+      const entry = {
+        row: index + 1,
+        code: isEmpty(row.code) ? null : String(row.code),
+        domain: isEmpty(row.domain) ? null : String(row.domain),
+        destination: isEmpty(row.destination) ? null : String(row.destination),
+        errors: []
+      };
+      report.push(entry);
+
+      if (entry.code) {
+        const firstRow = requestedCodes.get(codeKey(entry.code, entry.domain));
+        if (firstRow !== entry.row) {
+          entry.errors.push({
+            code: 'DUPLICATE_CODE',
+            message: `Code "${entry.code}" is already used in row ${firstRow}`
+          });
+          continue;
+        }
+      }
+
+      try {
+        const { data, tags, isActive } = this.toLinkData(row);
+        const link = await this.linkService.prepareLink({ ...data, ip, userAgent }, { dryRun });
+        if (link.generatedCode) {
+          this.assignGeneratedCode(link, key => requestedCodes.has(key) || usedCodes.has(key));
+        }
+
+        usedCodes.add(codeKey(link.shortCode, link.domain));
+        entry.domain = link.domain;
+        links.push({ ...link, creationSecretHash: null, tags, isActive, entry });
+      } catch (error) {
+        if (!(error instanceof LinkServiceError)) {
+          throw error;
+        }
+        entry.errors.push({
+          code: error.code,
+          message: error.code === 'ALIAS_EXISTS' ? `Code "${entry.code}" is already taken` : error.message
+        });
+      }
+    }
+
+    const invalid = report.filter(entry => entry.errors.length > 0).length;
+    const result = {
+      dryRun,
+      total: report.length,
+      valid: report.length - invalid,
+      invalid,
+      imported: 0,
+      rows: report
+    };
+    if (dryRun || invalid > 0) {
+      return result;
+    }
+
+    // Generated codes are not checked against the database; when one is taken
+    // the transaction is rolled back and retried with fresh codes
+    const generatedLinks = links.filter(link => link.generatedCode);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.db.createShortUrls(links);
+        break;
+      } catch (error) {
+        if (error.code !== 'SQLITE_CONSTRAINT') {
+          throw error;
+        }
+        if (generatedLinks.length === 0 || attempt > MAX_CODE_RETRIES) {
+          throw new LinkServiceError('A short code in the import was taken in the meantime, nothing was imported', 'ALIAS_EXISTS', 409);
+        }
+
+        for (const link of generatedLinks) {
+          usedCodes.delete(codeKey(link.shortCode, link.domain));
+          link.shortCode = this.linkService.generateShortCode();
+          this.assignGeneratedCode(link, key => requestedCodes.has(key) || usedCodes.has(key));
+          usedCodes.add(codeKey(link.shortCode, link.domain));
+        }
+      }
+    }
+
+    // Generated codes are only reported once they are actually in use
+    for (const link of links) {
+      link.entry.code = link.shortCode;
+    }
+    return { ...result, imported: links.length };
+  }
+}
+
+module.exports = {
+  IMPORT_FORMATS,
+  LinkImporter,
+  parseCsv,
+  parseImportData
+};
@@ -0,0 +1,90 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const Database = require('./database');
+const { LinkService } = require('./link-service');
+const { LinkImporter, parseImportData } = require('./link-import');
+
+let dbDir;
+let db;
+let importer;
+before(async () => {
+  dbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'velink-import-'));
+  db = new Database(dbDir);
+  await db.ready;
+  importer = new LinkImporter(db, new LinkService(db));
+});
+after(() => {
+  db.db.close();
+  fs.rmSync(dbDir, { recursive: true, force: true });
+});
+
+/**
+ * Count the links stored in the database
+ * @returns {Promise<number>} Number of links, trashed ones included
+ */
+function countLinks() {
+  return new Promise((resolve, reject) => {
+    db.db.get('SELECT COUNT(*) as count FROM short_urls', [], (err, row) => err ? reject(err) : resolve(row.count));
+  });
+}
+
+test('a dry run reports the outcome without creating links', async () => {
+  const rows = parseImportData('csv', 'code,destination,tags\ndry-one,https://example.com/1,a;b\n,https://example.com/2,\n');
+
+  const result = await importer.importLinks(rows, { dryRun: true });
+
+  assert.strictEqual(result.dryRun, true);
+  assert.strictEqual(result.valid, 2);
+  assert.strictEqual(result.imported, 0);
+  assert.strictEqual(await countLinks(), 0);
+});
+
+test('nothing is imported when any row has an error', async () => {
+  const rows = parseImportData('json', [
+    { code: 'good-row', destination: 'https://example.com/good' },
+    { code: 'bad-row', destination: 'not a url' },
+    { code: 'admin', destination: 'https://example.com/reserved' },
+    { code: 'good-row', destination: 'https://example.com/again' }
+  ]);
+
+  const result = await importer.importLinks(rows);
+
+  assert.strictEqual(result.imported, 0);
+  assert.strictEqual(result.invalid, 3);
+  assert.deepStrictEqual(result.rows.map(row => row.errors.map(error => error.code)), [
+    [], ['INVALID_URL'], ['ALIAS_RESERVED'], ['DUPLICATE_CODE']
+  ]);
+  assert.strictEqual(await countLinks(), 0);
+});
+
+test('a valid import creates every link with its tags', async () => {
+  const rows = parseImportData('json', [
+    { code: 'imported-one', destination: 'https://example.com/1', tags: ['spring'] },
+    { destination: 'https://example.com/2' }
+  ]);
+
+  const result = await importer.importLinks(rows);
+
+  assert.strictEqual(result.imported, 2);
+  const link = await db.findByShortCode('imported-one', null);
+  assert.strictEqual(link.original_url, 'https://example.com/1');
+  assert.strictEqual(link.creation_secret, null);
+  assert.ok(await db.findByShortCode(result.rows[1].code, null));
+  assert.strictEqual(await countLinks(), 2);
+});
+
+test('the import transaction is rolled back when a row cannot be inserted', async () => {
+  const linksBefore = await countLinks();
+  const links = [
+    { shortCode: 'rollback-new', originalUrl: 'https://example.com/new', domainId: 0, tags: [] },
+    { shortCode: 'imported-one', originalUrl: 'https://example.com/taken', domainId: 0, tags: [] }
+  ];
+
+  await assert.rejects(db.createShortUrls(links), { code: 'SQLITE_CONSTRAINT' });
+
+  assert.strictEqual(await db.findByShortCode('rollback-new', null), undefined);
+  assert.strictEqual(await countLinks(), linksBefore);
+});
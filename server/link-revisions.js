@@ -0,0 +1,99 @@
+/**
+ * Velink Link Revisions
+ * Every change to a link's destination, options or schedule is stored as a
+ * snapshot of the editable fields, so admins can see what a link pointed to
+ * before and roll it back.
+ *
+ * Snapshot keys match the fields accepted by Database#updateShortUrl, which
+ * lets a revert apply a stored snapshot directly.
+ */
+
+const { getPasswordFingerprint } = require('./utils');
+
+const REVISION_FIELDS = [
+  'originalUrl',
+  'expiresAt',
+  'activatesAt',
+  'maxClicks',
+  'customOptions',
+  'redirectRules',
+  'variants',
+  'description',
+  'bioPage'
+];
+
+/**
+ * Parse a JSON column, falling back to a default value
+ * @param {string|null} value - Column value
+ * @param {*} fallback - Value used when the column is empty or invalid
+ * @returns {*} Parsed value
+ */
+function parseJsonColumn(value, fallback) {
+  if (!value) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return fallback;
+  }
+}
+
+/**
+ * Take a snapshot of the revisioned fields of a link
+ * @param {Object} link - Link row from the database
+ * @returns {Object} Snapshot
+ */
+function getRevisionSnapshot(link) {
+  const customOptions = parseJsonColumn(link.custom_options, null);
+
+  return {
+    originalUrl: link.original_url,
+    expiresAt: link.expires_at || null,
+    activatesAt: link.activates_at || null,
+    maxClicks: link.max_clicks || null,
+    customOptions: customOptions && Object.keys(customOptions).length > 0 ? customOptions : null,
+    redirectRules: parseJsonColumn(link.redirect_rules, []),
+    variants: parseJsonColumn(link.variants, []),
+    description: link.description || null,
+    bioPage: parseJsonColumn(link.bio_page, null)
+  };
+}
+
+/**
+ * List the fields that differ between two snapshots
+ * @param {Object} before - Older snapshot
+ * @param {Object} after - Newer snapshot
+ * @returns {Array<string>} Changed field names
+ */
+function diffSnapshots(before, after) {
+  return REVISION_FIELDS.filter(field =>
+    JSON.stringify(before[field] === undefined ? null : before[field]) !==
+    JSON.stringify(after[field] === undefined ? null : after[field])
+  );
+}
+
+/**
+ * Snapshot as it may be shown in the admin panel. The password hash is replaced
+ * by a short fingerprint so password changes still show up in a diff.
+ * @param {Object} snapshot - Stored snapshot
+ * @returns {Object} Snapshot without secrets
+ */
+function getPublicSnapshot(snapshot) {
+  if (!snapshot.customOptions || !snapshot.customOptions.password) {
+    return snapshot;
+  }
+
+  const { password, ...customOptions } = snapshot.customOptions;
+  return {
+    ...snapshot,
+    customOptions: { ...customOptions, passwordFingerprint: getPasswordFingerprint(password) }
+  };
+}
+
+module.exports = {
+  getRevisionSnapshot,
+  diffSnapshots,
+  getPublicSnapshot
+};
@@ -0,0 +1,122 @@
+/**
+ * Velink Link Search
+ * Full-text search over short code, destination URL, description and tags,
+ * backed by the SQLite FTS5 table link_search. Triggers in database.js keep it
+ * in step with short_urls and link_tags, so creating, editing, tagging and
+ * deleting links needs no extra calls.
+ *
+ * Every word of a query must match the start of a word in the link, so
+ * "spr sale" finds "spring-sale". Results are ranked with BM25; a hit in the
+ * short code weighs most, one in the destination URL least.
+ */
+
+const { parseTagList } = require('./tags');
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+const MAX_QUERY_TERMS = 10;
+const DEFAULT_LIMIT = 20;
+
+// highlight() wraps matches in these; control characters never occur in link fields
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+/**
+ * Validate a search query
+ * @param {*} q - Query as submitted
+ * @returns {string|null} Error message, or null when the query is valid
+ */
+function getSearchQueryError(q) {
+  if (typeof q !== 'string' || q.trim().length < MIN_QUERY_LENGTH) {
+    return `Search query must be at least ${MIN_QUERY_LENGTH} characters`;
+  }
+  if (q.length > MAX_QUERY_LENGTH) {
+    return `Search query must be at most ${MAX_QUERY_LENGTH} characters`;
+  }
+  if (!buildMatchQuery(q)) {
+    return 'Search query must contain letters or numbers';
+  }
+  return null;
+}
+
+/**
+ * Turn a query into an FTS5 MATCH expression. Words are quoted, so FTS5
+ * operators in the query ("OR", "NEAR", "-") are searched for as text.
+ * @param {string} q - Search query
+ * @returns {string|null} MATCH expression, or null when the query has no words
+ */
+function buildMatchQuery(q) {
+  const terms = String(q).match(/[\p{L}\p{N}]+/gu);
+  if (!terms) {
+    return null;
+  }
+  return terms.slice(0, MAX_QUERY_TERMS).map(term => `"${term}"*`).join(' ');
+}
+
+/**
+ * Parse the limit parameter of a search request
+ * @param {*} limit - Submitted limit
+ * @param {number} max - Largest allowed limit
+ * @returns {number} Limit between 1 and max
+ */
+function parseSearchLimit(limit, max) {
+  return Math.min(Math.max(parseInt(limit) || DEFAULT_LIMIT, 1), max);
+}
+
+/**
+ * Split text returned by highlight() into plain and matching segments
+ * @param {string|null} text - Highlighted text
+ * @returns {Array<Object>} [{ text, match }]
+ */
+function splitHighlight(text) {
+  const segments = [];
+  let match = false;
+  for (const part of (text || '').split(new RegExp(`([${HIGHLIGHT_START}${HIGHLIGHT_END}])`))) {
+    if (part === HIGHLIGHT_START || part === HIGHLIGHT_END) {
+      match = part === HIGHLIGHT_START;
+    } else if (part) {
+      segments.push({ text: part, match });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Shape a row from Database.searchLinks() for API responses
+ * @param {Object} row - Search result row
+ * @returns {Object} { shortCode, domain, originalUrl, description, tags, clicks, createdAt, score, highlights }
+ */
+function formatSearchResult(row) {
+  // Tags are indexed comma separated, the same way getAllLinks() lists them
+  const tagHighlights = parseTagList(row.tags_highlight).map(splitHighlight);
+  const tags = parseTagList(row.tag_list)
+    .map((name, index) => ({ name, highlight: tagHighlights[index] }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    shortCode: row.short_code,
+    domain: row.domain || null,
+    originalUrl: row.original_url,
+    description: row.description || null,
+    tags: tags.map(tag => tag.name),
+    clicks: row.clicks || 0,
+    createdAt: row.created_at,
+    // BM25 ranks better matches lower; flip the sign so higher means more relevant
+    score: -row.rank,
+    highlights: {
+      shortCode: splitHighlight(row.short_code_highlight),
+      originalUrl: splitHighlight(row.original_url_highlight),
+      description: splitHighlight(row.description_highlight),
+      tags: tags.map(tag => tag.highlight)
+    }
+  };
+}
+
+module.exports = {
+  HIGHLIGHT_START,
+  HIGHLIGHT_END,
+  getSearchQueryError,
+  buildMatchQuery,
+  parseSearchLimit,
+  formatSearchResult
+};
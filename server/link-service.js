@@ -0,0 +1,822 @@
+/**
+ * Velink Link Service
+ * Shared link-creation logic used by every shortening endpoint:
+ * alias validation, reserved-word checks, collision detection, owner secrets and persistence.
+ */
+
+const crypto = require('crypto');
+const { isValidUrl, sanitizeUrl, addUtmParams, hashPassword, isPasswordHash } = require('./utils');
+const { isReservedWord } = require('./reserved-words');
+const { getDeepLinksError } = require('./deep-links');
+const { getRedirectOptionsError, normalizeRedirectOptions } = require('./redirect-options');
+const { getHealthOptionsError } = require('./link-health');
+const { getSocialPreviewError } = require('./social-preview');
+const { getExpiryOptionsError } = require('./link-expiry');
+const { getRevisionSnapshot, diffSnapshots } = require('./link-revisions');
+const { ShortCodeGenerator } = require('./short-codes');
+
+const ALIAS_PATTERN = /^[a-zA-Z0-9-_]+$/;
+const ALIAS_MIN_LENGTH = 3;
+const ALIAS_MAX_LENGTH = 50;
+// Inserts retried with a fresh generated code before giving up
+const MAX_GENERATION_ATTEMPTS = 15;
+const MAX_CLICKS_LIMIT = 1000000;
+const MAX_UTM_LENGTH = 200;
+const MAX_URL_LENGTH = 2048;
+
+const EXPIRATION_DAYS = {
+  '1d': 1,
+  '7d': 7,
+  '30d': 30,
+  '365d': 365
+};
+
+class LinkServiceError extends Error {
+  constructor(message, code, status = 400) {
+    super(message);
+    this.name = 'LinkServiceError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+class LinkService {
+  /**
+   * @param {Object} db - Database
+   * @param {Object} [screener] - DestinationScreener checking new destinations
+   * @param {Object} [codeGenerator] - ShortCodeGenerator for links without an alias
+   */
+  constructor(db, screener = null, codeGenerator = null) {
+    this.db = db;
+    this.screener = screener;
+    this.codeGenerator = codeGenerator || new ShortCodeGenerator();
+  }
+
+  /**
+   * Convert an expiresIn option ('1d', '7d', ...) into an ISO timestamp
+   * @param {string} expiresIn - Expiration option
+   * @returns {string|null} ISO timestamp or null for links that never expire
+   */
+  calculateExpiresAt(expiresIn) {
+    if (!expiresIn || expiresIn === 'never' || !EXPIRATION_DAYS[expiresIn]) {
+      return null;
+    }
+
+    const expireDate = new Date();
+    expireDate.setDate(expireDate.getDate() + EXPIRATION_DAYS[expiresIn]);
+    return expireDate.toISOString();
+  }
+
+  /**
+   * Extend or renew a link. A duration is added to the current expiry time,
+   * or to now for links that have already expired; an exact expiresAt must lie
+   * in the future. The change is recorded in the link's revision history.
+   * @param {Object} link - Link row from the database
+   * @param {Object} options - New expiry
+   * @param {string} [options.expiresIn] - Duration ('1d', '7d', ...) or 'never'
+   * @param {string} [options.expiresAt] - Exact ISO expiration timestamp
+   * @param {Object} [actor] - Who made the change, see updateLink()
+   * @returns {Promise<Object>} Updated link row
+   */
+  async renewLink(link, { expiresIn, expiresAt } = {}, actor = {}) {
+    let newExpiresAt;
+    if (expiresAt) {
+      newExpiresAt = this.resolveSchedule({ expiresAt }).expiresAt;
+    } else if (expiresIn === 'never') {
+      newExpiresAt = null;
+    } else if (EXPIRATION_DAYS[expiresIn]) {
+      const current = link.expires_at ? new Date(link.expires_at) : null;
+      const from = current && current > new Date() ? current : new Date();
+      from.setDate(from.getDate() + EXPIRATION_DAYS[expiresIn]);
+      newExpiresAt = from.toISOString();
+    } else {
+      throw new LinkServiceError('Provide expiresAt or expiresIn (1d, 7d, 30d, 365d or never)', 'INVALID_SCHEDULE');
+    }
+
+    if (newExpiresAt && link.activates_at && new Date(link.activates_at) >= new Date(newExpiresAt)) {
+      throw new LinkServiceError('activatesAt must be before the expiration time', 'INVALID_SCHEDULE');
+    }
+
+    return this.updateLink(link, { expiresAt: newExpiresAt }, actor);
+  }
+
+  /**
+   * Work out the expiry and activation timestamps of a link. An exact
+   * expiresAt takes precedence over the expiresIn shorthand.
+   * @param {Object} options - Schedule options
+   * @param {string} [options.expiresIn] - Expiration option ('1d', '7d', ...)
+   * @param {string} [options.expiresAt] - Exact ISO expiration timestamp
+   * @param {string} [options.activatesAt] - ISO timestamp the link goes live at
+   * @returns {{expiresAt: (string|null), activatesAt: (string|null)}} Normalized ISO timestamps
+   */
+  resolveSchedule({ expiresIn, expiresAt, activatesAt } = {}) {
+    const toIso = (value, field) => {
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        throw new LinkServiceError(`${field} must be a valid ISO 8601 date`, 'INVALID_SCHEDULE');
+      }
+      return date.toISOString();
+    };
+
+    const resolvedExpiresAt = expiresAt
+      ? toIso(expiresAt, 'expiresAt')
+      : this.calculateExpiresAt(expiresIn);
+    const resolvedActivatesAt = activatesAt ? toIso(activatesAt, 'activatesAt') : null;
+
+    if (expiresAt && new Date(resolvedExpiresAt) <= new Date()) {
+      throw new LinkServiceError('expiresAt must be in the future', 'INVALID_SCHEDULE');
+    }
+
+    if (resolvedExpiresAt && resolvedActivatesAt &&
+        new Date(resolvedActivatesAt) >= new Date(resolvedExpiresAt)) {
+      throw new LinkServiceError('activatesAt must be before the expiration time', 'INVALID_SCHEDULE');
+    }
+
+    return { expiresAt: resolvedExpiresAt, activatesAt: resolvedActivatesAt };
+  }
+
+  /**
+   * Work out the schedule fields of an update to an existing link, with the
+   * same rules as resolveSchedule(). A field left out keeps the link's current
+   * value, which the new one is still checked against.
+   * @param {Object} link - Link row from the database
+   * @param {Object} options - expiresIn, expiresAt and activatesAt as submitted; null clears a field
+   * @returns {Object} The changed fields out of expiresAt and activatesAt
+   */
+  resolveScheduleUpdate(link, { expiresIn, expiresAt, activatesAt } = {}) {
+    const changesExpiry = expiresAt !== undefined || expiresIn !== undefined;
+    if (!changesExpiry && activatesAt === undefined) {
+      return {};
+    }
+
+    const schedule = this.resolveSchedule({
+      // An explicit expiresAt, even null, wins over the shorthand
+      expiresIn: expiresAt === undefined ? expiresIn : undefined,
+      expiresAt,
+      activatesAt
+    });
+
+    const updates = {};
+    if (changesExpiry) {
+      updates.expiresAt = schedule.expiresAt;
+    }
+    if (activatesAt !== undefined) {
+      updates.activatesAt = schedule.activatesAt;
+    }
+
+    const newExpiresAt = changesExpiry ? updates.expiresAt : link.expires_at;
+    const newActivatesAt = activatesAt !== undefined ? updates.activatesAt : link.activates_at;
+    if (newExpiresAt && newActivatesAt && new Date(newActivatesAt) >= new Date(newExpiresAt)) {
+      throw new LinkServiceError('activatesAt must be before the expiration time', 'INVALID_SCHEDULE');
+    }
+
+    return updates;
+  }
+
+  /**
+   * Validate a click cap
+   * @param {number|string|null} maxClicks - Requested cap, empty for unlimited
+   * @returns {number|null} Cap as an integer, or null for unlimited links
+   */
+  normalizeMaxClicks(maxClicks) {
+    if (maxClicks === undefined || maxClicks === null || maxClicks === '') {
+      return null;
+    }
+
+    const value = Number(maxClicks);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_CLICKS_LIMIT) {
+      throw new LinkServiceError(`maxClicks must be a whole number between 1 and ${MAX_CLICKS_LIMIT}`, 'INVALID_MAX_CLICKS');
+    }
+
+    return value;
+  }
+
+  /**
+   * Validate UTM campaign fields
+   * @param {Object|null} utm - { source, medium, campaign }, all optional
+   * @returns {Object|null} Trimmed fields, or null when none are set
+   */
+  normalizeUtm(utm) {
+    if (utm === undefined || utm === null) {
+      return null;
+    }
+
+    if (typeof utm !== 'object' || Array.isArray(utm)) {
+      throw new LinkServiceError('utm must be an object with source, medium and/or campaign', 'INVALID_UTM');
+    }
+
+    const normalized = {};
+    for (const key of ['source', 'medium', 'campaign']) {
+      const value = utm[key];
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      if (typeof value !== 'string' || value.trim().length > MAX_UTM_LENGTH) {
+        throw new LinkServiceError(`utm.${key} must be text of at most ${MAX_UTM_LENGTH} characters`, 'INVALID_UTM');
+      }
+      if (value.trim()) {
+        normalized[key] = value.trim();
+      }
+    }
+
+    return Object.keys(normalized).length > 0 ? normalized : null;
+  }
+
+  /**
+   * Build the stored destination: strip tracking parameters when the link asks
+   * for it, then add the UTM fields chosen at creation
+   * @param {string} url - Submitted destination
+   * @param {Object} [customOptions] - Custom options (stripTracking)
+   * @param {Object} [utm] - UTM fields
+   * @returns {string} Destination URL
+   */
+  buildDestinationUrl(url, customOptions, utm) {
+    let destination = customOptions && customOptions.stripTracking ? sanitizeUrl(url) : url;
+    destination = addUtmParams(destination, this.normalizeUtm(utm));
+
+    if (destination.length > MAX_URL_LENGTH) {
+      throw new LinkServiceError(`URL is too long (max ${MAX_URL_LENGTH} characters)`, 'INVALID_URL');
+    }
+    return destination;
+  }
+
+  /**
+   * Reject destinations flagged by destination screening. Rejections are
+   * logged so admins can review them.
+   * @param {string} url - Destination URL
+   * @param {string} [ip] - IP address of the requester
+   * @param {boolean} [log=true] - Log a rejection as a blocked attempt
+   */
+  async screenDestination(url, ip, log = true) {
+    const verdict = this.screener ? await this.screener.screen(url) : null;
+    if (!verdict) {
+      return;
+    }
+
+    if (log) {
+      await this.db.addBlockedAttempt({ url, provider: verdict.provider, reason: verdict.reason, ip });
+    }
+    throw new LinkServiceError(`This destination is not allowed: ${verdict.reason}`, 'DESTINATION_BLOCKED', 403);
+  }
+
+  /**
+   * Screen the URLs besides the destination that a link can send visitors to,
+   * see getOutboundUrls()
+   * @param {Array<string>} urls - URLs to screen
+   * @param {string} [ip] - IP address of the requester
+   * @param {boolean} [log=true] - Log a rejection as a blocked attempt
+   */
+  async screenOutboundUrls(urls, ip, log = true) {
+    for (const url of new Set(urls)) {
+      await this.screenDestination(url, ip, log);
+    }
+  }
+
+  /**
+   * Validate the format of a custom alias and make sure it is not reserved
+   * @param {string} alias - Requested alias
+   */
+  validateAlias(alias) {
+    if (typeof alias !== 'string' ||
+        alias.length < ALIAS_MIN_LENGTH ||
+        alias.length > ALIAS_MAX_LENGTH ||
+        !ALIAS_PATTERN.test(alias)) {
+      throw new LinkServiceError(
+        `Custom alias must be ${ALIAS_MIN_LENGTH}-${ALIAS_MAX_LENGTH} characters and contain only letters, numbers, hyphens, and underscores`,
+        'INVALID_ALIAS'
+      );
+    }
+
+    if (isReservedWord(alias)) {
+      throw new LinkServiceError(`The alias "${alias}" is reserved`, 'ALIAS_RESERVED');
+    }
+  }
+
+  /**
+   * Look up the custom domain a link should be created on
+   * @param {string} [hostname] - Requested domain, empty for the primary domain
+   * @returns {Promise<Object|null>} Domain row, or null for the primary domain
+   */
+  async resolveDomain(hostname) {
+    if (!hostname) {
+      return null;
+    }
+
+    const domain = typeof hostname === 'string'
+      ? await this.db.findDomainByHostname(hostname.trim().toLowerCase())
+      : null;
+    if (!domain || !domain.is_active) {
+      throw new LinkServiceError(`Unknown domain "${hostname}"`, 'UNKNOWN_DOMAIN');
+    }
+
+    return domain;
+  }
+
+  /**
+   * Validate a custom alias and check that it is still available
+   * @param {string} alias - Requested alias
+   * @param {Object|null} [domain] - Domain row whose namespace is checked
+   */
+  async checkAlias(alias, domain = null) {
+    this.validateAlias(alias);
+
+    // Codes of links in the trash stay taken until the link is purged
+    const existing = await this.db.findByShortCode(alias, domain ? domain.hostname : null, { includeTrashed: true });
+    if (existing) {
+      throw new LinkServiceError('Custom alias already exists', 'ALIAS_EXISTS', 409);
+    }
+  }
+
+  /**
+   * Generate a short code that is not reserved. Whether it is taken is left to
+   * the UNIQUE constraint when the link is inserted.
+   * @returns {string} Short code
+   */
+  generateShortCode() {
+    return this.codeGenerator.generate(code => !isReservedWord(code));
+  }
+
+  /**
+   * Generate a per-link owner secret. Only the hash is stored; the secret
+   * itself is returned to the creator once.
+   * @returns {{secret: string, hash: string}} Secret and its hash
+   */
+  generateCreationSecret() {
+    const secret = crypto.randomBytes(24).toString('hex');
+    return { secret, hash: this.hashCreationSecret(secret) };
+  }
+
+  /**
+   * Hash an owner secret for storage
+   * @param {string} secret - Plain owner secret
+   * @returns {string} Hex-encoded SHA-256 hash
+   */
+  hashCreationSecret(secret) {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  /**
+   * Check an owner secret against a stored link row
+   * @param {Object} link - Link row from the database
+   * @param {string} secret - Secret supplied by the caller
+   * @returns {boolean} True if the secret matches
+   */
+  verifyCreationSecret(link, secret) {
+    if (!link || !link.creation_secret || !secret || typeof secret !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(link.creation_secret, 'hex');
+    const actual = Buffer.from(this.hashCreationSecret(secret), 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Whether a creation request should get an existing link for the same
+   * destination. The request's dedupe flag wins over the DEDUPE_LINKS setting.
+   * @param {boolean|string} [dedupe] - Flag sent with the request
+   * @returns {boolean} True to look for a reusable link first
+   */
+  shouldDedupe(dedupe) {
+    if (dedupe === undefined || dedupe === null) {
+      return process.env.DEDUPE_LINKS === 'true';
+    }
+    return dedupe === true || dedupe === 'true';
+  }
+
+  /**
+   * Find an existing link to return instead of creating a new one. Only plain
+   * requests qualify (no alias, schedule, click cap, description or options),
+   * and only public links without any of these are handed out.
+   * @param {Object} data - Link data, see createLink()
+   * @returns {Promise<Object|null>} Link row with its domain hostname, or null when a new link is needed
+   */
+  async findReusableLink(data) {
+    const hasOptions = data.customOptions && typeof data.customOptions === 'object' &&
+      Object.values(data.customOptions).some(value => value !== undefined && value !== null && value !== '' && value !== false);
+    if (data.customAlias || data.expiresAt || data.activatesAt || data.maxClicks || data.description ||
+        data.bioPage || hasOptions || !isValidUrl(data.url)) {
+      return null;
+    }
+
+    const originalUrl = this.buildDestinationUrl(data.url, null, data.utm);
+    await this.screenDestination(originalUrl, data.ip);
+    const domain = await this.resolveDomain(data.domain);
+
+    const link = await this.db.findByUrl(originalUrl, domain ? domain.id : 0);
+    return link ? { ...link, domain: domain ? domain.hostname : null } : null;
+  }
+
+  /**
+   * Validate link data and work out everything that gets stored, without
+   * writing the link
+   * @param {Object} data - Link data, see createLink()
+   * @param {Object} [options]
+   * @param {boolean} [options.dryRun] - Do not log rejected destinations
+   * @returns {Promise<Object>} Fields for Database#createShortUrl plus the domain hostname and the plain owner secret
+   */
+  async prepareLink(data, { dryRun = false } = {}) {
+    if (!isValidUrl(data.url)) {
+      throw new LinkServiceError('Please provide a valid URL with http:// or https://', 'INVALID_URL');
+    }
+
+    const originalUrl = this.buildDestinationUrl(data.url, data.customOptions, data.utm);
+    await this.screenDestination(originalUrl, data.ip, !dryRun);
+
+    const maxClicks = this.normalizeMaxClicks(data.maxClicks);
+
+    const deepLinksError = getDeepLinksError(data.customOptions && data.customOptions.deepLinks);
+    if (deepLinksError) {
+      throw new LinkServiceError(deepLinksError, 'INVALID_DEEP_LINKS');
+    }
+
+    const redirectOptionsError = getRedirectOptionsError(data.customOptions);
+    if (redirectOptionsError) {
+      throw new LinkServiceError(redirectOptionsError, 'INVALID_REDIRECT_OPTIONS');
+    }
+
+    const healthOptionsError = getHealthOptionsError(data.customOptions);
+    if (healthOptionsError) {
+      throw new LinkServiceError(healthOptionsError, 'INVALID_HEALTH_OPTIONS');
+    }
+
+    const socialPreviewError = getSocialPreviewError(data.customOptions && data.customOptions.socialPreview);
+    if (socialPreviewError) {
+      throw new LinkServiceError(socialPreviewError, 'INVALID_SOCIAL_PREVIEW');
+    }
+
+    const expiryOptionsError = getExpiryOptionsError(data.customOptions);
+    if (expiryOptionsError) {
+      throw new LinkServiceError(expiryOptionsError, 'INVALID_EXPIRY_OPTIONS');
+    }
+
+    await this.screenOutboundUrls(getOutboundUrls(data), data.ip, !dryRun);
+
+    const domain = await this.resolveDomain(data.domain);
+
+    let shortCode;
+    if (data.customAlias) {
+      await this.checkAlias(data.customAlias, domain);
+      shortCode = data.customAlias;
+    } else {
+      shortCode = this.generateShortCode();
+    }
+
+    const { secret, hash } = this.generateCreationSecret();
+    const customOptions = await this.hashCustomOptionsPassword(normalizeRedirectOptions(data.customOptions));
+
+    return {
+      shortCode,
+      originalUrl,
+      expiresAt: data.expiresAt || null,
+      activatesAt: data.activatesAt || null,
+      maxClicks,
+      ip: data.ip,
+      userAgent: data.userAgent,
+      customOptions: customOptions || null,
+      description: data.description || null,
+      bioPage: data.bioPage || null,
+      creationSecretHash: hash,
+      creationSecret: secret,
+      domainId: domain ? domain.id : 0,
+      domain: domain ? domain.hostname : null,
+      generatedCode: !data.customAlias
+    };
+  }
+
+  /**
+   * Create a new short link
+   * @param {Object} data - Link data
+   * @param {string} data.url - Destination URL
+   * @param {string} [data.customAlias] - Requested alias, generated when omitted
+   * @param {string} [data.expiresAt] - ISO expiration timestamp
+   * @param {string} [data.activatesAt] - ISO timestamp the link goes live at
+   * @param {number} [data.maxClicks] - Number of uses before the link stops working
+   * @param {string} [data.ip] - Creator IP address
+   * @param {string} [data.userAgent] - Creator user agent
+   * @param {Object} [data.customOptions] - Normalized custom options
+   * @param {string} [data.description] - Link description
+   * @param {Object} [data.bioPage] - Normalized link-in-bio page, see bio-pages.js
+   * @param {Object} [data.utm] - UTM source, medium and campaign merged into the destination
+   * @param {string} [data.domain] - Custom domain hostname, the primary domain when omitted
+   * @param {boolean} [data.dedupe] - Return an existing link for the same destination, see shouldDedupe()
+   * @returns {Promise<Object>} Created link, including the one-time owner secret. Reused links
+   *   have deduplicated set and no owner secret.
+   */
+  async createLink(data) {
+    const existing = this.shouldDedupe(data.dedupe) ? await this.findReusableLink(data) : null;
+    if (existing) {
+      return {
+        id: existing.id,
+        shortCode: existing.short_code,
+        domain: existing.domain,
+        originalUrl: existing.original_url,
+        expiresAt: null,
+        activatesAt: null,
+        maxClicks: null,
+        clicks: existing.clicks || 0,
+        createdAt: existing.created_at,
+        customOptions: null,
+        description: null,
+        bioPage: null,
+        deduplicated: true
+      };
+    }
+
+    const link = await this.prepareLink(data);
+
+    let result;
+    for (let attempt = 1; !result; attempt++) {
+      try {
+        result = await this.db.createShortUrl(link);
+      } catch (error) {
+        if (error.code !== 'SQLITE_CONSTRAINT') {
+          throw error;
+        }
+        // Another request claimed the same alias between the check and the insert
+        if (!link.generatedCode) {
+          throw new LinkServiceError('Custom alias already exists', 'ALIAS_EXISTS', 409);
+        }
+        this.codeGenerator.recordResult(true);
+        if (attempt >= MAX_GENERATION_ATTEMPTS) {
+          throw new Error('Failed to generate unique short code');
+        }
+        link.shortCode = this.generateShortCode();
+      }
+    }
+    if (link.generatedCode) {
+      this.codeGenerator.recordResult(false);
+    }
+
+    return {
+      id: result.id,
+      shortCode: link.shortCode,
+      domain: link.domain,
+      originalUrl: link.originalUrl,
+      expiresAt: link.expiresAt,
+      activatesAt: link.activatesAt,
+      maxClicks: link.maxClicks,
+      clicks: 0,
+      createdAt: result.created_at,
+      customOptions: link.customOptions,
+      description: link.description,
+      bioPage: link.bioPage,
+      creationSecret: link.creationSecret,
+      deduplicated: false
+    };
+  }
+
+  /**
+   * Replace a plain text password in custom options with its hash
+   * @param {Object} customOptions - Custom options as submitted
+   * @returns {Promise<Object>} Custom options safe for storage
+   */
+  async hashCustomOptionsPassword(customOptions) {
+    if (!customOptions || !customOptions.password) {
+      return customOptions;
+    }
+
+    if (typeof customOptions.password !== 'string') {
+      throw new LinkServiceError('Password must be a string', 'INVALID_PASSWORD');
+    }
+
+    return { ...customOptions, password: await hashPassword(customOptions.password) };
+  }
+
+  /**
+   * Set, rotate or remove the password of an existing link
+   * @param {Object} link - Link row from the database
+   * @param {string|null} password - New password, or null/empty to remove it
+   * @param {Object} [actor] - Who made the change, see updateLink()
+   * @returns {Promise<Object>} Updated custom options
+   */
+  async setLinkPassword(link, password, actor) {
+    if (password !== null && password !== undefined && typeof password !== 'string') {
+      throw new LinkServiceError('Password must be a string', 'INVALID_PASSWORD');
+    }
+
+    const customOptions = link.custom_options ? JSON.parse(link.custom_options) : {};
+    if (password) {
+      customOptions.password = await hashPassword(password);
+    } else {
+      delete customOptions.password;
+    }
+
+    await this.updateLink(link, { customOptions }, actor);
+    return customOptions;
+  }
+
+  /**
+   * Apply changes to a link and record them in its revision history
+   * @param {Object} link - Link row from the database
+   * @param {Object} updates - Fields accepted by Database#updateShortUrl
+   * @param {Object} [actor] - Who made the change: { type: 'admin' | 'owner', ip }
+   * @returns {Promise<Object>} Updated link row
+   */
+  async updateLink(link, updates, actor = {}) {
+    if (updates.originalUrl && updates.originalUrl !== link.original_url) {
+      await this.screenDestination(updates.originalUrl, actor.ip);
+    }
+    if (updates.customOptions) {
+      const deepLinksError = getDeepLinksError(updates.customOptions.deepLinks);
+      if (deepLinksError) {
+        throw new LinkServiceError(deepLinksError, 'INVALID_DEEP_LINKS');
+      }
+      const redirectOptionsError = getRedirectOptionsError(updates.customOptions);
+      if (redirectOptionsError) {
+        throw new LinkServiceError(redirectOptionsError, 'INVALID_REDIRECT_OPTIONS');
+      }
+      const healthOptionsError = getHealthOptionsError(updates.customOptions);
+      if (healthOptionsError) {
+        throw new LinkServiceError(healthOptionsError, 'INVALID_HEALTH_OPTIONS');
+      }
+      const socialPreviewError = getSocialPreviewError(updates.customOptions.socialPreview);
+      if (socialPreviewError) {
+        throw new LinkServiceError(socialPreviewError, 'INVALID_SOCIAL_PREVIEW');
+      }
+      const expiryOptionsError = getExpiryOptionsError(updates.customOptions);
+      if (expiryOptionsError) {
+        throw new LinkServiceError(expiryOptionsError, 'INVALID_EXPIRY_OPTIONS');
+      }
+      updates = { ...updates, customOptions: normalizeRedirectOptions(updates.customOptions) };
+    }
+
+    // Like the destination, URLs the link already had are screened on the next visit instead
+    const before = getRevisionSnapshot(link);
+    const previousUrls = getOutboundUrls(before);
+    await this.screenOutboundUrls(getOutboundUrls(updates).filter(url => !previousUrls.includes(url)), actor.ip);
+
+    await this.db.updateShortUrl(link.id, updates);
+    // The last health check was for the old destination
+    if (updates.originalUrl && updates.originalUrl !== link.original_url) {
+      await this.db.clearLinkHealth(link.id);
+    }
+
+    const updated = await this.db.findById(link.id);
+    const after = getRevisionSnapshot(updated);
+    const changedFields = diffSnapshots(before, after);
+    if (changedFields.length === 0) {
+      return updated;
+    }
+
+    // Links created before revisions existed get their previous state recorded first
+    const revisions = await this.db.getLinkRevisions(link.id);
+    if (revisions.length === 0) {
+      await this.db.addLinkRevision({
+        linkId: link.id,
+        shortCode: link.short_code,
+        snapshot: before,
+        changedBy: 'created',
+        createdAt: link.created_at
+      });
+    }
+
+    await this.db.addLinkRevision({
+      linkId: link.id,
+      shortCode: link.short_code,
+      snapshot: after,
+      changedFields,
+      changedBy: actor.type || 'system',
+      ip: actor.ip,
+      revertedFrom: actor.revertedFrom
+    });
+
+    return updated;
+  }
+
+  /**
+   * Restore a link to the state stored in one of its revisions.
+   * The revert itself is recorded as a new revision.
+   * @param {Object} link - Link row from the database
+   * @param {number|string} revisionId - Revision to restore
+   * @param {Object} [actor] - Who made the change, see updateLink()
+   * @returns {Promise<Object>} Updated link row
+   */
+  async revertLink(link, revisionId, actor = {}) {
+    const revision = await this.db.getLinkRevision(link.id, revisionId);
+    if (!revision) {
+      throw new LinkServiceError('Revision not found', 'REVISION_NOT_FOUND', 404);
+    }
+
+    return this.updateLink(link, JSON.parse(revision.snapshot), { ...actor, revertedFrom: revision.id });
+  }
+
+  /**
+   * Hash any link passwords that are still stored as plain text
+   * @returns {Promise<number>} Number of migrated links
+   */
+  async migratePlaintextPasswords() {
+    const rows = await this.db.getPasswordProtectedLinks();
+    let migrated = 0;
+
+    for (const row of rows) {
+      let customOptions;
+      try {
+        customOptions = JSON.parse(row.custom_options);
+      } catch (error) {
+        continue;
+      }
+
+      if (!customOptions || typeof customOptions.password !== 'string' ||
+          !customOptions.password || isPasswordHash(customOptions.password)) {
+        continue;
+      }
+
+      customOptions.password = await hashPassword(customOptions.password);
+      await this.db.updateShortUrl(row.id, { customOptions });
+      migrated++;
+    }
+
+    return migrated;
+  }
+}
+
+/**
+ * List every URL besides the destination that a link can send visitors to:
+ * redirect rule and A/B variant targets, the broken and expired fallback URLs,
+ * deep link targets and the buttons of a link-in-bio page
+ * @param {Object} fields - Link fields as passed to createLink() or updateLink()
+ * @returns {Array<string>} URLs
+ */
+function getOutboundUrls({ customOptions, redirectRules, variants, bioPage }) {
+  const options = customOptions || {};
+  const deepLinkTargets = options.deepLinks && typeof options.deepLinks === 'object'
+    ? Object.values(options.deepLinks)
+    : [];
+
+  return [
+    ...(Array.isArray(redirectRules) ? redirectRules.map(rule => rule.destination) : []),
+    ...(Array.isArray(variants) ? variants.map(variant => variant.destination) : []),
+    options.brokenFallbackUrl,
+    options.expiredFallbackUrl,
+    ...deepLinkTargets.flatMap(target => (target ? [target.appUrl, target.fallbackUrl] : [])),
+    ...(bioPage && Array.isArray(bioPage.entries) ? bioPage.entries.map(entry => entry.url) : [])
+  ].filter(url => typeof url === 'string' && url);
+}
+
+/**
+ * Normalize a batch entry, which is either a URL string or { url, customAlias }
+ * @param {string|Object} entry - Batch entry
+ * @returns {{url: string, customAlias: (string|undefined)}} Normalized entry
+ */
+function normalizeBatchEntry(entry) {
+  if (typeof entry === 'string') {
+    return { url: entry, customAlias: undefined };
+  }
+
+  return {
+    url: entry && entry.url,
+    customAlias: entry && entry.customAlias ? entry.customAlias : undefined
+  };
+}
+
+/**
+ * Check whether a link is scheduled and has not reached its activation time yet
+ * @param {Object} link - Link row from the database
+ * @returns {boolean} True if the link is not live yet
+ */
+function isNotYetActive(link) {
+  return !!(link && link.activates_at && new Date(link.activates_at) > new Date());
+}
+
+/**
+ * Check whether a click-capped link has no uses left
+ * @param {Object} link - Link row from the database
+ * @returns {boolean} True if the link is used up
+ */
+function isUsedUp(link) {
+  return !!(link && link.max_clicks && (link.clicks || 0) >= link.max_clicks);
+}
+
+/**
+ * Read the owner secret from a request (X-Creation-Secret header, body or query)
+ * @param {Object} req - Express request
+ * @returns {string|undefined} Supplied owner secret
+ */
+function getCreationSecretFromRequest(req) {
+  return req.get('X-Creation-Secret') ||
+    (req.body && req.body.creationSecret) ||
+    req.query.creationSecret;
+}
+
+/**
+ * Host whose namespace a short code in an API request belongs to: the domain
+ * query parameter when set, otherwise the host the request was sent to
+ * @param {Object} req - Express request
+ * @returns {string} Hostname
+ */
+function getLinkHostFromRequest(req) {
+  return typeof req.query.domain === 'string' && req.query.domain
+    ? req.query.domain.toLowerCase()
+    : req.hostname;
+}
+
+module.exports = {
+  LinkService,
+  LinkServiceError,
+  normalizeBatchEntry,
+  isNotYetActive,
+  isUsedUp,
+  getCreationSecretFromRequest,
+  getLinkHostFromRequest
+};
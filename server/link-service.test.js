@@ -0,0 +1,111 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const Database = require('./database');
+const { LinkService } = require('./link-service');
+const { isPasswordHash, verifyPassword } = require('./utils');
+
+let dbDir;
+let db;
+let linkService;
+before(async () => {
+  dbDir = fs.mkdtempSync(path.join(os.tmpdir(), 'velink-links-'));
+  db = new Database(dbDir);
+  await db.ready;
+  linkService = new LinkService(db);
+});
+after(() => {
+  db.db.close();
+  fs.rmSync(dbDir, { recursive: true, force: true });
+});
+
+test('a custom alias becomes the short code and cannot be claimed twice', async () => {
+  const link = await linkService.createLink({ url: 'https://example.com/sale', customAlias: 'spring-sale' });
+  assert.strictEqual(link.shortCode, 'spring-sale');
+
+  await assert.rejects(
+    linkService.createLink({ url: 'https://example.com/other', customAlias: 'spring-sale' }),
+    { code: 'ALIAS_EXISTS', status: 409 }
+  );
+});
+
+test('aliases of trashed links stay taken', async () => {
+  const link = await linkService.createLink({ url: 'https://example.com/', customAlias: 'in-the-trash' });
+  await db.trashLinks([link.id]);
+
+  await assert.rejects(
+    linkService.createLink({ url: 'https://example.com/', customAlias: 'in-the-trash' }),
+    { code: 'ALIAS_EXISTS' }
+  );
+});
+
+test('reserved words and malformed aliases are rejected', async () => {
+  for (const alias of ['admin', 'api', 'ADMIN']) {
+    await assert.rejects(linkService.createLink({ url: 'https://example.com/', customAlias: alias }), { code: 'ALIAS_RESERVED' });
+  }
+  for (const alias of ['ab', 'with space', 'slash/alias']) {
+    await assert.rejects(linkService.createLink({ url: 'https://example.com/', customAlias: alias }), { code: 'INVALID_ALIAS' });
+  }
+});
+
+test('only a hash of the owner secret is stored', async () => {
+  const created = await linkService.createLink({ url: 'https://example.com/owned' });
+  const row = await db.findById(created.id);
+
+  assert.ok(created.creationSecret);
+  assert.notStrictEqual(row.creation_secret, created.creationSecret);
+  assert.strictEqual(row.creation_secret, crypto.createHash('sha256').update(created.creationSecret).digest('hex'));
+  assert.strictEqual(linkService.verifyCreationSecret(row, created.creationSecret), true);
+  assert.strictEqual(linkService.verifyCreationSecret(row, 'not-the-secret'), false);
+  assert.strictEqual(linkService.verifyCreationSecret(row, undefined), false);
+});
+
+test('link passwords are stored as hashes', async () => {
+  const created = await linkService.createLink({ url: 'https://example.com/secret', customOptions: { password: 'hunter2' } });
+  const stored = JSON.parse((await db.findById(created.id)).custom_options).password;
+
+  assert.ok(isPasswordHash(stored));
+  assert.strictEqual(await verifyPassword(stored, 'hunter2'), true);
+  assert.strictEqual(await verifyPassword(stored, 'hunter3'), false);
+});
+
+test('plain text passwords of older links are migrated to hashes once', async () => {
+  const { id } = await db.createShortUrl({
+    shortCode: 'legacy-password',
+    originalUrl: 'https://example.com/legacy',
+    customOptions: { password: 'letmein' }
+  });
+
+  assert.strictEqual(await linkService.migratePlaintextPasswords(), 1);
+  const stored = JSON.parse((await db.findById(id)).custom_options).password;
+  assert.ok(isPasswordHash(stored));
+  assert.strictEqual(await verifyPassword(stored, 'letmein'), true);
+
+  assert.strictEqual(await linkService.migratePlaintextPasswords(), 0);
+});
+
+test('dedupe hands out the existing public link for the same destination', async () => {
+  const first = await linkService.createLink({ url: 'https://example.com/dedupe', dedupe: true });
+  const second = await linkService.createLink({ url: 'https://example.com/dedupe', dedupe: true });
+
+  assert.strictEqual(first.deduplicated, false);
+  assert.strictEqual(second.deduplicated, true);
+  assert.strictEqual(second.shortCode, first.shortCode);
+  assert.strictEqual(second.creationSecret, undefined);
+});
+
+test('dedupe creates a new link for requests with options and never reuses protected links', async () => {
+  const described = await linkService.createLink({ url: 'https://example.com/dedupe', description: 'Mine', dedupe: true });
+  assert.strictEqual(described.deduplicated, false);
+
+  const protectedLink = await linkService.createLink({ url: 'https://example.com/protected', customOptions: { password: 'pw' } });
+  const plain = await linkService.createLink({ url: 'https://example.com/protected', dedupe: true });
+  assert.strictEqual(plain.deduplicated, false);
+  assert.notStrictEqual(plain.shortCode, protectedLink.shortCode);
+
+  const withoutFlag = await linkService.createLink({ url: 'https://example.com/protected', dedupe: false });
+  assert.notStrictEqual(withoutFlag.shortCode, plain.shortCode);
+});
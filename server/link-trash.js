@@ -0,0 +1,87 @@
+/**
+ * Velink Trash
+ * Deleting a link moves it to the trash instead of removing it. Trashed links
+ * stop resolving but keep their code, clicks and revision history, so admins
+ * can restore them. They are purged for good once they have been in the trash
+ * for TRASH_RETENTION_DAYS (30 when unset, editable in the admin panel).
+ */
+
+const DEFAULT_RETENTION_DAYS = 30;
+const MIN_RETENTION_DAYS = 1;
+const MAX_RETENTION_DAYS = 3650;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a retention period submitted through the admin API
+ * @param {*} days - Number of days
+ * @returns {string|null} Error message, or null when the value is valid
+ */
+function getTrashRetentionError(days) {
+  if (!Number.isInteger(days) || days < MIN_RETENTION_DAYS || days > MAX_RETENTION_DAYS) {
+    return `retentionDays must be a whole number between ${MIN_RETENTION_DAYS} and ${MAX_RETENTION_DAYS}`;
+  }
+  return null;
+}
+
+/**
+ * Read the retention period from the environment; invalid values fall back to the default
+ * @returns {number} Days a link stays in the trash
+ */
+function getTrashRetentionDays() {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS);
+  return getTrashRetentionError(days) ? DEFAULT_RETENTION_DAYS : days;
+}
+
+/**
+ * Time a trashed link gets purged
+ * @param {string} deletedAt - ISO timestamp the link was moved to the trash
+ * @param {number} retentionDays - Retention period
+ * @returns {string} ISO timestamp
+ */
+function getPurgeDate(deletedAt, retentionDays) {
+  return new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS).toISOString();
+}
+
+class TrashPurger {
+  /**
+   * @param {Object} db - Database
+   */
+  constructor(db) {
+    this.db = db;
+  }
+
+  /**
+   * Permanently delete every link that has outlived the retention period
+   * @returns {Promise<number>} Number of purged links
+   */
+  async purge() {
+    const cutoff = new Date(Date.now() - getTrashRetentionDays() * DAY_MS).toISOString();
+    const count = await this.db.purgeTrashedLinks(cutoff);
+    if (count > 0) {
+      console.log(`🗑️ Purged ${count} link(s) from the trash`);
+    }
+    return count;
+  }
+
+  /**
+   * Purge once now and then every hour
+   */
+  start() {
+    const run = () => {
+      this.purge().catch(error => {
+        console.error('Trash purge failed:', error);
+      });
+    };
+
+    run();
+    setInterval(run, PURGE_INTERVAL_MS);
+  }
+}
+
+module.exports = {
+  TrashPurger,
+  getTrashRetentionDays,
+  getTrashRetentionError,
+  getPurgeDate
+};
@@ -0,0 +1,336 @@
+/**
+ * Velink server-rendered pages
+ * Shared layout for the simple status pages served by the redirect handler
+ * (link not live yet, used up, previews, ...). Matches the look of the
+ * built-in 404 and expired pages.
+ */
+
+const THEMES = {
+  blue: { background: '#eff6ff', blobA: '#dbeafe', blobB: '#bfdbfe' },
+  red: { background: '#fef3f2', blobA: '#fed7d7', blobB: '#fecaca' },
+  amber: { background: '#fffbeb', blobA: '#fde68a', blobB: '#fef3c7' }
+};
+
+/**
+ * Escape a value for safe use in HTML text and attributes
+ * @param {*} value - Value to escape
+ * @returns {string} Escaped string
+ */
+function escapeHtml(value) {
+  return String(value === undefined || value === null ? '' : value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render a full status page
+ * @param {Object} options - Page options
+ * @param {string} options.title - Document title (without the " - Velink" suffix)
+ * @param {string} options.heading - Main heading
+ * @param {string} [options.message] - Explanation shown below the heading (plain text)
+ * @param {string} [options.icon] - Emoji shown above the heading
+ * @param {string} [options.image] - URL of a round image shown above the heading instead of the icon
+ * @param {string} [options.theme] - Colour theme: 'blue', 'red' or 'amber'
+ * @param {string} [options.body] - Additional trusted HTML inserted before the back link
+ * @param {string} [options.head] - Additional trusted HTML inserted into <head>
+ * @param {boolean} [options.scrollable] - Let content taller than the window scroll instead of being cut off
+ * @returns {string} HTML document
+ */
+function renderStatusPage(options) {
+  const theme = THEMES[options.theme] || THEMES.blue;
+
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <meta name="robots" content="noindex">
+      <title>${escapeHtml(options.title)} - Velink</title>
+      <link rel="preconnect" href="https://fonts.googleapis.com">
+      <link rel="preconnect" href="https://fonts.gstatic.com" crossorigin>
+      <link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap" rel="stylesheet">
+      ${options.head || ''}
+      <style>
+        * {
+          margin: 0;
+          padding: 0;
+          box-sizing: border-box;
+        }
+        body {
+          font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+          background: linear-gradient(135deg, ${theme.background} 0%, #ffffff 50%, ${theme.background} 100%);
+          min-height: 100vh;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          color: #1e293b;
+          position: relative;
+          overflow-x: hidden;
+          overflow-y: ${options.scrollable ? 'auto' : 'hidden'};
+        }
+
+        /* Background decoration */
+        body::before,
+        body::after {
+          content: '';
+          position: absolute;
+          width: 320px;
+          height: 320px;
+          border-radius: 50%;
+          filter: blur(40px);
+          opacity: 0.7;
+          z-index: -1;
+        }
+        body::before {
+          background: ${theme.blobA};
+          top: -160px;
+          right: -160px;
+          animation: pulse 6s infinite;
+        }
+        body::after {
+          background: ${theme.blobB};
+          bottom: -160px;
+          left: -160px;
+          animation: pulse 8s infinite reverse;
+        }
+
+        @keyframes pulse {
+          0%, 100% { transform: scale(1); opacity: 0.7; }
+          50% { transform: scale(1.1); opacity: 0.5; }
+        }
+
+        .container {
+          max-width: 450px;
+          width: 100%;
+          margin: 20px;
+          background: rgba(255, 255, 255, 0.9);
+          backdrop-filter: blur(16px);
+          border: 1px solid rgba(255, 255, 255, 0.2);
+          border-radius: 24px;
+          padding: 48px 32px;
+          text-align: center;
+          box-shadow: 0 25px 50px rgba(0, 0, 0, 0.1);
+          position: relative;
+          z-index: 1;
+        }
+
+        .logo {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 12px;
+          margin-bottom: 32px;
+        }
+
+        .logo-text {
+          font-size: 28px;
+          font-weight: 700;
+          background: linear-gradient(135deg, #3b82f6, #2563eb);
+          -webkit-background-clip: text;
+          -webkit-text-fill-color: transparent;
+          background-clip: text;
+        }
+
+        .icon {
+          font-size: 48px;
+          margin-bottom: 24px;
+          display: block;
+          animation: bounce 2s infinite;
+        }
+
+        .image {
+          width: 96px;
+          height: 96px;
+          border-radius: 50%;
+          object-fit: cover;
+          margin: 0 auto 24px;
+          display: block;
+          box-shadow: 0 8px 25px rgba(0, 0, 0, 0.1);
+        }
+
+        @keyframes bounce {
+          0%, 20%, 50%, 80%, 100% { transform: translateY(0); }
+          40% { transform: translateY(-10px); }
+          60% { transform: translateY(-5px); }
+        }
+
+        h1 {
+          font-size: 28px;
+          font-weight: 700;
+          color: #1e293b;
+          margin-bottom: 16px;
+          line-height: 1.2;
+        }
+
+        p {
+          color: #64748b;
+          font-size: 16px;
+          line-height: 1.6;
+          margin-bottom: 32px;
+        }
+
+        .details {
+          text-align: left;
+          background: #f8fafc;
+          border: 1px solid #e2e8f0;
+          border-radius: 12px;
+          padding: 16px 20px;
+          margin-bottom: 32px;
+          font-size: 14px;
+          color: #334155;
+          word-break: break-all;
+        }
+
+        .details dt {
+          font-weight: 600;
+          color: #64748b;
+          font-size: 12px;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+          margin-top: 12px;
+        }
+
+        .details dt:first-child {
+          margin-top: 0;
+        }
+
+        .button {
+          display: inline-flex;
+          align-items: center;
+          gap: 8px;
+          background: linear-gradient(135deg, #3b82f6, #2563eb);
+          color: white;
+          text-decoration: none;
+          font-size: 14px;
+          font-weight: 600;
+          padding: 12px 20px;
+          border-radius: 12px;
+          margin-bottom: 16px;
+        }
+
+        .back-link {
+          display: inline-flex;
+          align-items: center;
+          gap: 8px;
+          color: #64748b;
+          text-decoration: none;
+          font-size: 14px;
+          font-weight: 500;
+          padding: 12px 20px;
+          border: 2px solid #e2e8f0;
+          border-radius: 12px;
+          transition: all 0.2s ease;
+        }
+
+        .back-link:hover {
+          color: #3b82f6;
+          border-color: #bfdbfe;
+          background: #f0f9ff;
+          transform: translateY(-1px);
+        }
+
+        @media (max-width: 640px) {
+          .container {
+            margin: 16px;
+            padding: 32px 24px;
+          }
+          .logo-text {
+            font-size: 24px;
+          }
+          h1 {
+            font-size: 24px;
+          }
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="logo">
+          <span class="logo-text">Velink</span>
+        </div>
+
+        ${options.image
+          ? `<img class="image" src="${escapeHtml(options.image)}" alt="" referrerpolicy="no-referrer">`
+          : (options.icon ? `<span class="icon">${options.icon}</span>` : '')}
+        <h1>${escapeHtml(options.heading)}</h1>
+        ${options.message ? `<p>${escapeHtml(options.message)}</p>` : ''}
+        ${options.body || ''}
+        <div>
+          <a href="/" class="back-link">
+            <span>←</span>
+            Back to Velink
+          </a>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Page shown for scheduled links before their activation time
+ * @param {string} activatesAt - ISO activation timestamp
+ * @returns {string} HTML document
+ */
+function renderNotYetLivePage(activatesAt) {
+  const date = new Date(activatesAt);
+
+  return renderStatusPage({
+    title: 'Not Live Yet',
+    icon: '🗓️',
+    heading: 'This Link Is Not Live Yet',
+    message: 'This short link has been scheduled and will start working at the time below. Please check back later.',
+    body: `
+      <dl class="details">
+        <dt>Goes live</dt>
+        <dd><time id="activates-at" datetime="${escapeHtml(date.toISOString())}">${escapeHtml(date.toUTCString())}</time></dd>
+      </dl>
+      <script>
+        (function() {
+          var el = document.getElementById('activates-at');
+          el.textContent = new Date(el.getAttribute('datetime')).toLocaleString();
+        })();
+      </script>
+    `
+  });
+}
+
+/**
+ * Page shown once a click-capped link has reached its maximum number of uses
+ * @returns {string} HTML document
+ */
+function renderUsedUpPage() {
+  return renderStatusPage({
+    title: 'Link Used Up',
+    icon: '🔥',
+    heading: 'This Link Has Been Used Up',
+    message: 'This short link could only be opened a limited number of times and has no uses left.',
+    theme: 'red'
+  });
+}
+
+/**
+ * Page shown for links disabled by destination screening
+ * @returns {string} HTML document
+ */
+function renderBlockedPage() {
+  return renderStatusPage({
+    title: 'Link Disabled',
+    icon: '🛡️',
+    heading: 'This Link Has Been Disabled',
+    message: 'The destination of this short link was flagged as unsafe, so it no longer redirects.',
+    theme: 'red'
+  });
+}
+
+module.exports = {
+  escapeHtml,
+  renderStatusPage,
+  renderNotYetLivePage,
+  renderUsedUpPage,
+  renderBlockedPage
+};
@@ -0,0 +1,151 @@
+/**
+ * Velink Link Previews
+ * Appending "+" to a short URL (/abc123+) shows where the link goes instead of
+ * redirecting. Previews never count as a click; the continue button goes
+ * through the regular short URL so passwords, rules and click caps still apply.
+ */
+
+const { getDomainFromUrl } = require('./utils');
+const { isNotYetActive, isUsedUp } = require('./link-service');
+const { parseRedirectRules } = require('./redirect-rules');
+const { parseVariants } = require('./variants');
+const { parseBioPage } = require('./bio-pages');
+const { escapeHtml, renderStatusPage } = require('./pages');
+const { isExpired, getExpiredLinkAction } = require('./link-expiry');
+
+const IP_ADDRESS_PATTERN = /^(\d{1,3}(\.\d{1,3}){3}|\[[0-9a-f:]+\])$/i;
+
+/**
+ * Parse a timestamp column. SQLite's CURRENT_TIMESTAMP is UTC without a zone suffix.
+ * @param {string} value - Column value
+ * @returns {Date} Parsed date
+ */
+function parseTimestamp(value) {
+  return new Date(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+}
+
+/**
+ * Collect the things a visitor should know before following a link
+ * @param {Object} link - Link row from the database
+ * @param {Object} customOptions - Parsed custom options of the link
+ * @returns {Array<string>} Warning messages, empty when there is nothing to flag
+ */
+function getPreviewWarnings(link, customOptions) {
+  const warnings = [];
+
+  if (isExpired(link)) {
+    const expiredAction = getExpiredLinkAction(customOptions);
+    warnings.push(expiredAction.fallbackUrl
+      ? `This link has expired. Visitors are sent to ${expiredAction.fallbackUrl} instead.`
+      : 'This link has expired and no longer redirects.');
+  } else if (isNotYetActive(link)) {
+    warnings.push(`This link is not live yet. It starts working on ${new Date(link.activates_at).toUTCString()}.`);
+  } else if (isUsedUp(link)) {
+    warnings.push('This link has been used up and no longer redirects.');
+  }
+  if (link.blocked_reason) {
+    warnings.push('This link has been disabled because its destination was flagged as unsafe.');
+  } else if (link.is_active === 0 || link.is_active === false) {
+    warnings.push('This link has been disabled.');
+  }
+
+  if (customOptions.password) {
+    warnings.push('This link is password protected, so its destination is not shown.');
+    return warnings;
+  }
+  // Bio pages list their buttons instead of going to original_url
+  if (parseBioPage(link.bio_page)) {
+    return warnings;
+  }
+
+  let url = null;
+  try {
+    url = new URL(link.original_url);
+  } catch (error) {
+    // Stored destinations are validated on creation; an unparsable one is flagged below
+  }
+
+  if (!url) {
+    warnings.push('The destination is not a valid web address.');
+  } else {
+    if (url.protocol === 'http:') {
+      warnings.push('The destination does not use HTTPS, so the connection is not encrypted.');
+    }
+    if (IP_ADDRESS_PATTERN.test(url.hostname)) {
+      warnings.push('The destination is a bare IP address instead of a domain name.');
+    }
+    if (url.hostname.split('.').some(label => label.startsWith('xn--'))) {
+      warnings.push('The destination domain contains international characters that can imitate other domains.');
+    }
+    if (url.username || url.password) {
+      warnings.push('The destination contains login details, a trick sometimes used to disguise the real domain.');
+    }
+  }
+
+  if (parseRedirectRules(link.redirect_rules).length > 0 || parseVariants(link.variants).length > 0) {
+    warnings.push('Depending on your device, language, location or time, you may be sent to a different destination.');
+  }
+  if (customOptions.deepLinks) {
+    warnings.push('On iOS and Android this link may open an app instead.');
+  }
+
+  return warnings;
+}
+
+/**
+ * Preview page for a short link
+ * @param {Object} link - Link row from the database
+ * @param {string} shortUrl - Public short URL of the link
+ * @returns {string} HTML document
+ */
+function renderPreviewPage(link, shortUrl) {
+  const customOptions = link.custom_options ? JSON.parse(link.custom_options) : {};
+  const warnings = getPreviewWarnings(link, customOptions);
+  const bioPage = parseBioPage(link.bio_page);
+  const showDestination = !customOptions.password && !bioPage;
+  const createdAt = parseTimestamp(link.created_at);
+
+  return renderStatusPage({
+    title: 'Link Preview',
+    icon: warnings.length > 0 ? '⚠️' : '🔍',
+    heading: 'Where does this link go?',
+    message: `You are previewing ${shortUrl}. Nothing has been opened yet.`,
+    theme: warnings.length > 0 ? 'amber' : 'blue',
+    body: `
+      <dl class="details">
+        ${showDestination ? `
+          <dt>Destination</dt>
+          <dd>${escapeHtml(link.original_url)}</dd>
+          <dt>Domain</dt>
+          <dd>${escapeHtml(getDomainFromUrl(link.original_url))}</dd>
+        ` : ''}
+        ${bioPage ? `
+          <dt>Page</dt>
+          <dd>Link-in-bio page "${escapeHtml(bioPage.title)}" with ${escapeHtml(bioPage.entries.length)} ${bioPage.entries.length === 1 ? 'link' : 'links'}</dd>
+        ` : ''}
+        <dt>Created</dt>
+        <dd><time id="created-at" datetime="${escapeHtml(createdAt.toISOString())}">${escapeHtml(createdAt.toUTCString())}</time></dd>
+        <dt>Clicks</dt>
+        <dd>${escapeHtml(link.clicks || 0)}</dd>
+        ${warnings.length > 0 ? `
+          <dt>Warnings</dt>
+          ${warnings.map(warning => `<dd>⚠️ ${escapeHtml(warning)}</dd>`).join('')}
+        ` : ''}
+      </dl>
+      <div>
+        <a href="${escapeHtml(shortUrl)}" class="button" rel="noopener noreferrer">Continue to link</a>
+      </div>
+      <script>
+        (function() {
+          var el = document.getElementById('created-at');
+          el.textContent = new Date(el.getAttribute('datetime')).toLocaleString();
+        })();
+      </script>
+    `
+  });
+}
+
+module.exports = {
+  getPreviewWarnings,
+  renderPreviewPage
+};
@@ -0,0 +1,282 @@
+/**
+ * Velink QR Codes
+ * QR images of short links as PNG, SVG or JPEG. Every code is drawn as SVG
+ * first and rasterised with sharp for PNG and JPEG, so all formats look alike.
+ *
+ * Query options of GET /api/mobile/qr/:shortCode:
+ *   size        width and height in pixels, 50-1000 (200 when omitted)
+ *   format      'png' (default), 'svg' or 'jpeg'
+ *   ecc         error correction level 'L', 'M' (default), 'Q' or 'H'
+ *   color       colour of the modules as hex, '000000' when omitted
+ *   background  background colour as hex, 'ffffff' when omitted
+ *   margin      quiet zone around the code in modules, 0-10 (4 when omitted)
+ *   logo        http(s) URL of an image drawn in the centre. A logo hides part
+ *               of the code, so it needs level Q or H (H when ecc is omitted).
+ */
+
+const QRCode = require('qrcode');
+const sharp = require('sharp');
+const { isValidUrl, requestPublicUrl } = require('./utils');
+
+const QR_FORMATS = ['png', 'svg', 'jpeg'];
+const ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'];
+const LOGO_ERROR_CORRECTION_LEVELS = ['Q', 'H'];
+const CONTENT_TYPES = { png: 'image/png', svg: 'image/svg+xml', jpeg: 'image/jpeg' };
+
+const DEFAULT_SIZE = 200;
+const MIN_SIZE = 50;
+const MAX_SIZE = 1000;
+const DEFAULT_MARGIN = 4;
+const MAX_MARGIN = 10;
+const COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// The logo covers this share of the code's width, plus a plain border around it
+const LOGO_SCALE = 0.22;
+const LOGO_PADDING = 0.02;
+const LOGO_MAX_BYTES = 1024 * 1024;
+const LOGO_TIMEOUT_MS = 5000;
+const LOGO_MAX_REDIRECTS = 3;
+const LOGO_RESOLUTION = 256;
+// A 1 MB file can still decode into a huge bitmap; larger logos are refused before decoding
+const LOGO_MAX_PIXELS = 4096 * 4096;
+
+class QrCodeError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.name = 'QrCodeError';
+    this.code = code;
+  }
+}
+
+/**
+ * Validate QR code options from a query string
+ * @param {Object} query - Request query
+ * @returns {string|null} Error message, or null when the options are valid
+ */
+function getQrOptionsError(query) {
+  const { size, format, ecc, color, background, margin, logo } = query;
+
+  if (size !== undefined && !(Number(size) >= MIN_SIZE && Number(size) <= MAX_SIZE)) {
+    return `size must be between ${MIN_SIZE} and ${MAX_SIZE} pixels`;
+  }
+  if (format !== undefined && !QR_FORMATS.includes(format)) {
+    return `format must be one of ${QR_FORMATS.join(', ')}`;
+  }
+  if (ecc !== undefined && !ERROR_CORRECTION_LEVELS.includes(String(ecc).toUpperCase())) {
+    return `ecc must be one of ${ERROR_CORRECTION_LEVELS.join(', ')}`;
+  }
+  if (color !== undefined && !COLOR_PATTERN.test(color)) {
+    return 'color must be a hex colour such as 000000';
+  }
+  if (background !== undefined && !COLOR_PATTERN.test(background)) {
+    return 'background must be a hex colour such as ffffff';
+  }
+  if (margin !== undefined && !(Number.isInteger(Number(margin)) && Number(margin) >= 0 && Number(margin) <= MAX_MARGIN)) {
+    return `margin must be a whole number between 0 and ${MAX_MARGIN}`;
+  }
+  if (logo !== undefined && (typeof logo !== 'string' || !isValidUrl(logo) || logo.length > 2048)) {
+    return 'logo must be a valid URL with http:// or https://';
+  }
+  if (logo !== undefined && ecc !== undefined && !LOGO_ERROR_CORRECTION_LEVELS.includes(String(ecc).toUpperCase())) {
+    return 'A logo needs error correction level Q or H';
+  }
+
+  return null;
+}
+
+/**
+ * Expand a hex colour to the #rrggbb form
+ * @param {string} color - Hex colour with or without "#"
+ * @returns {string} Colour as #rrggbb
+ */
+function normalizeColor(color) {
+  const hex = color.replace('#', '').toLowerCase();
+  return `#${hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex}`;
+}
+
+/**
+ * Turn validated query options into render options
+ * @param {Object} query - Request query, checked with getQrOptionsError()
+ * @returns {Object} { size, format, ecc, color, background, margin, logo }
+ */
+function parseQrOptions(query) {
+  return {
+    size: query.size !== undefined ? Math.round(Number(query.size)) : DEFAULT_SIZE,
+    format: query.format || 'png',
+    ecc: query.ecc ? String(query.ecc).toUpperCase() : (query.logo ? 'H' : 'M'),
+    color: normalizeColor(query.color || '000000'),
+    background: normalizeColor(query.background || 'ffffff'),
+    margin: query.margin !== undefined ? Number(query.margin) : DEFAULT_MARGIN,
+    logo: query.logo || null
+  };
+}
+
+/**
+ * Download a logo. Redirects are followed by hand and every hop only connects
+ * to public addresses; the body is read up to LOGO_MAX_BYTES.
+ * @param {string} url - Logo URL
+ * @returns {Promise<Buffer>} Image data
+ */
+async function downloadLogo(url) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error('no response within 5 seconds')), LOGO_TIMEOUT_MS);
+
+  try {
+    let target = url;
+    for (let hop = 0; ; hop++) {
+      let response;
+      try {
+        response = await requestPublicUrl(target, {
+          headers: { 'User-Agent': 'Velink-QR/1.0 (+https://velink.me)' },
+          signal: controller.signal
+        });
+      } catch (error) {
+        if (error.code === 'EPRIVATEADDRESS') {
+          throw new QrCodeError('The logo cannot be loaded from a private or local address', 'INVALID_LOGO');
+        }
+        throw error;
+      }
+
+      const location = response.headers.location;
+      if (response.statusCode >= 300 && response.statusCode < 400 && location) {
+        response.destroy();
+        target = new URL(location, target).href;
+        if (hop >= LOGO_MAX_REDIRECTS || !isValidUrl(target)) {
+          throw new Error('too many or invalid redirects');
+        }
+        continue;
+      }
+
+      if (response.statusCode < 200 || response.statusCode >= 300) {
+        response.destroy();
+        throw new Error(`HTTP ${response.statusCode}`);
+      }
+      if (Number(response.headers['content-length']) > LOGO_MAX_BYTES) {
+        response.destroy();
+        throw new Error('larger than 1 MB');
+      }
+
+      // Content-Length may be missing or wrong, so the limit is enforced while reading
+      const chunks = [];
+      let size = 0;
+      for await (const chunk of response) {
+        size += chunk.length;
+        if (size > LOGO_MAX_BYTES) {
+          response.destroy();
+          throw new Error('larger than 1 MB');
+        }
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks);
+    }
+  } catch (error) {
+    // A timeout while the body is read surfaces as a plain abort
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Download a logo and convert it to a square-bounded PNG data URI
+ * @param {string} url - Logo URL
+ * @returns {Promise<string>} Data URI
+ */
+async function loadLogo(url) {
+  let buffer;
+  try {
+    buffer = await downloadLogo(url);
+  } catch (error) {
+    if (error instanceof QrCodeError) {
+      throw error;
+    }
+    throw new QrCodeError(`The logo could not be loaded (${error.message})`, 'INVALID_LOGO');
+  }
+
+  try {
+    const png = await sharp(buffer, { limitInputPixels: LOGO_MAX_PIXELS })
+      .resize(LOGO_RESOLUTION, LOGO_RESOLUTION, { fit: 'inside' })
+      .png()
+      .toBuffer();
+    return `data:image/png;base64,${png.toString('base64')}`;
+  } catch (error) {
+    if (/pixel limit/i.test(error.message)) {
+      throw new QrCodeError('The logo must not be larger than 4096 x 4096 pixels', 'INVALID_LOGO');
+    }
+    throw new QrCodeError('The logo is not a PNG, JPEG, WebP, GIF or SVG image', 'INVALID_LOGO');
+  }
+}
+
+/**
+ * Draw a QR code as SVG
+ * @param {string} text - Encoded text, the short URL
+ * @param {Object} options - Render options from parseQrOptions()
+ * @param {string|null} [logoDataUri] - Logo to draw in the centre
+ * @returns {string} SVG document
+ */
+function renderQrSvg(text, options, logoDataUri = null) {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: options.ecc });
+  const { margin } = options;
+  const total = modules.size + margin * 2;
+
+  // One path segment per horizontal run of dark modules keeps the SVG small
+  let path = '';
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (!modules.get(row, col)) {
+        continue;
+      }
+      const start = col;
+      while (col + 1 < modules.size && modules.get(row, col + 1)) {
+        col++;
+      }
+      path += `M${start + margin} ${row + margin}h${col - start + 1}v1h-${col - start + 1}z`;
+    }
+  }
+
+  let logo = '';
+  if (logoDataUri) {
+    const logoSize = modules.size * LOGO_SCALE;
+    const padding = modules.size * LOGO_PADDING;
+    const offset = (total - logoSize) / 2;
+    logo = `<rect x="${offset - padding}" y="${offset - padding}" width="${logoSize + padding * 2}" height="${logoSize + padding * 2}" fill="${options.background}"/>` +
+      `<image x="${offset}" y="${offset}" width="${logoSize}" height="${logoSize}" preserveAspectRatio="xMidYMid meet" href="${logoDataUri}"/>`;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${options.size}" height="${options.size}" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">` +
+    `<rect width="${total}" height="${total}" fill="${options.background}"/>` +
+    `<path d="${path}" fill="${options.color}"/>` +
+    logo +
+    '</svg>';
+}
+
+/**
+ * Render a QR code image
+ * @param {string} text - Encoded text, the short URL
+ * @param {Object} options - Render options from parseQrOptions()
+ * @returns {Promise<Object>} { contentType, extension, body }
+ */
+async function renderQrCode(text, options) {
+  const logoDataUri = options.logo ? await loadLogo(options.logo) : null;
+  const svg = renderQrSvg(text, options, logoDataUri);
+  const result = { contentType: CONTENT_TYPES[options.format], extension: options.format === 'jpeg' ? 'jpg' : options.format };
+
+  if (options.format === 'svg') {
+    return { ...result, body: svg };
+  }
+
+  const image = sharp(Buffer.from(svg));
+  const body = options.format === 'jpeg'
+    ? await image.flatten({ background: options.background }).jpeg({ quality: 92 }).toBuffer()
+    : await image.png().toBuffer();
+  return { ...result, body };
+}
+
+module.exports = {
+  QR_FORMATS,
+  QrCodeError,
+  getQrOptionsError,
+  parseQrOptions,
+  renderQrCode
+};
@@ -0,0 +1,181 @@
+/**
+ * Velink Redirect Options
+ * Per-link control over the redirect response: the HTTP status code and the
+ * Cache-Control and Referrer-Policy headers sent with it.
+ *
+ * Stored in customOptions:
+ * {
+ *   redirectStatus: 301 | 302 | 307 | 308,
+ *   cacheControl: 'private, max-age=3600',
+ *   referrerPolicy: 'no-referrer'
+ * }
+ *
+ * Links without a redirectStatus use DEFAULT_REDIRECT_STATUS (302 when unset).
+ * Links whose redirect can change between visits (click caps, schedules,
+ * passwords, redirect rules, A/B variants, broken-link handling) ignore both
+ * settings and always answer with an uncached 302, since a cached redirect
+ * would skip every later check.
+ *
+ * Short links are only routed for GET (and HEAD), so 307 and 308 behave like
+ * 302 and 301; they are offered for clients that expect those exact codes.
+ */
+
+const REDIRECT_STATUSES = [301, 302, 307, 308];
+const REFERRER_POLICIES = [
+  'no-referrer',
+  'no-referrer-when-downgrade',
+  'origin',
+  'origin-when-cross-origin',
+  'same-origin',
+  'strict-origin',
+  'strict-origin-when-cross-origin',
+  'unsafe-url'
+];
+const MAX_CACHE_CONTROL_LENGTH = 200;
+// Comma-separated directives such as "public", "max-age=3600" or "no-cache"
+const CACHE_CONTROL_PATTERN = /^[a-z-]+(=\d+)?(\s*,\s*[a-z-]+(=\d+)?)*$/;
+
+// Request body fields accepted by the update routes
+const REDIRECT_OPTION_FIELDS = ['redirectStatus', 'cacheControl', 'referrerPolicy'];
+
+/**
+ * Redirect status used for links without one of their own
+ * @returns {number} HTTP status code
+ */
+function getDefaultRedirectStatus() {
+  const status = Number(process.env.DEFAULT_REDIRECT_STATUS);
+  return REDIRECT_STATUSES.includes(status) ? status : 302;
+}
+
+/**
+ * Check whether a value leaves a redirect option unset
+ * @param {*} value - Submitted value
+ * @returns {boolean} True for undefined, null and empty strings
+ */
+function isUnset(value) {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Validate the redirect options in submitted custom options
+ * @param {Object} customOptions - Custom options as submitted
+ * @returns {string|null} Error message, or null when the options are valid
+ */
+function getRedirectOptionsError(customOptions) {
+  if (!customOptions || typeof customOptions !== 'object') {
+    return null;
+  }
+
+  const { redirectStatus, cacheControl, referrerPolicy } = customOptions;
+
+  if (!isUnset(redirectStatus) && !REDIRECT_STATUSES.includes(Number(redirectStatus))) {
+    return `redirectStatus must be one of ${REDIRECT_STATUSES.join(', ')}`;
+  }
+  if (!isUnset(cacheControl) && (typeof cacheControl !== 'string' ||
+      cacheControl.length > MAX_CACHE_CONTROL_LENGTH || !CACHE_CONTROL_PATTERN.test(cacheControl.trim().toLowerCase()))) {
+    return 'cacheControl must be a list of Cache-Control directives such as "public, max-age=3600"';
+  }
+  if (!isUnset(referrerPolicy) && !REFERRER_POLICIES.includes(referrerPolicy)) {
+    return `referrerPolicy must be one of ${REFERRER_POLICIES.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Bring valid redirect options into their stored form; unset options are removed
+ * @param {Object} customOptions - Custom options that passed getRedirectOptionsError
+ * @returns {Object} Custom options
+ */
+function normalizeRedirectOptions(customOptions) {
+  if (!customOptions || typeof customOptions !== 'object') {
+    return customOptions;
+  }
+
+  const normalized = { ...customOptions };
+  for (const field of REDIRECT_OPTION_FIELDS) {
+    if (isUnset(normalized[field])) {
+      delete normalized[field];
+    }
+  }
+
+  if (normalized.redirectStatus !== undefined) {
+    normalized.redirectStatus = Number(normalized.redirectStatus);
+  }
+  if (normalized.cacheControl !== undefined) {
+    normalized.cacheControl = normalized.cacheControl.trim().toLowerCase();
+  }
+
+  return normalized;
+}
+
+/**
+ * Check whether a stored JSON list column holds any entries
+ * @param {string|null} value - JSON column value
+ * @returns {boolean} True for a non-empty array
+ */
+function hasListEntries(value) {
+  if (!value) {
+    return false;
+  }
+
+  try {
+    const list = JSON.parse(value);
+    return Array.isArray(list) && list.length > 0;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Check whether a later visit to a link can end somewhere else, or nowhere at all
+ * @param {Object} link - Link row
+ * @param {Object} customOptions - Parsed custom options of the link
+ * @returns {boolean} True when the redirect must not be cached
+ */
+function isChangingRedirect(link, customOptions) {
+  return !!(link.max_clicks || link.expires_at || link.activates_at ||
+    hasListEntries(link.redirect_rules) || hasListEntries(link.variants) ||
+    customOptions.password || customOptions.onBroken);
+}
+
+/**
+ * Redirect status for a link
+ * @param {Object} link - Link row
+ * @param {Object} customOptions - Parsed custom options of the link
+ * @returns {number} HTTP status code
+ */
+function getRedirectStatus(link, customOptions) {
+  if (isChangingRedirect(link, customOptions)) {
+    return 302;
+  }
+  return customOptions.redirectStatus || getDefaultRedirectStatus();
+}
+
+/**
+ * Set the per-link headers on a response that sends the visitor on
+ * @param {Object} res - Express response
+ * @param {Object} link - Link row
+ * @param {Object} customOptions - Parsed custom options of the link
+ */
+function setRedirectHeaders(res, link, customOptions) {
+  if (isChangingRedirect(link, customOptions)) {
+    res.set('Cache-Control', 'no-store');
+  } else if (customOptions.cacheControl) {
+    res.set('Cache-Control', customOptions.cacheControl);
+  }
+  if (customOptions.referrerPolicy) {
+    res.set('Referrer-Policy', customOptions.referrerPolicy);
+  }
+}
+
+module.exports = {
+  REDIRECT_STATUSES,
+  REFERRER_POLICIES,
+  REDIRECT_OPTION_FIELDS,
+  getDefaultRedirectStatus,
+  getRedirectStatus,
+  getRedirectOptionsError,
+  normalizeRedirectOptions,
+  setRedirectHeaders
+};
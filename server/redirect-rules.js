@@ -0,0 +1,312 @@
+/**
+ * Velink Redirect Rules
+ * Ordered per-link rules that send visitors to different destinations based on
+ * device type, preferred language, country and time of day. The first rule whose
+ * conditions all match wins; when none match the link's original URL is used.
+ *
+ * Rule format:
+ * {
+ *   destination: 'https://example.com/de',
+ *   devices: ['Mobile', 'Tablet', 'Desktop'],
+ *   languages: ['de', 'en-US'],
+ *   countries: ['DE', 'AT'],
+ *   timeWindows: [{ start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5], timezone: 'Europe/Berlin' }]
+ * }
+ * Every condition is optional; within one condition any listed value may match.
+ */
+
+const { isValidUrl } = require('./utils');
+const { LinkServiceError } = require('./link-service');
+
+const DEVICE_TYPES = ['Mobile', 'Tablet', 'Desktop'];
+const MAX_RULES = 20;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+
+// Headers set by common reverse proxies / CDNs with the visitor's ISO country code
+const COUNTRY_HEADERS = ['cf-ipcountry', 'x-country-code', 'x-vercel-ip-country', 'cloudfront-viewer-country'];
+
+/**
+ * Classify a user agent the same way getClickAnalytics does
+ * @param {string} userAgent - User-Agent header
+ * @returns {string} 'Mobile', 'Tablet' or 'Desktop'
+ */
+function classifyDevice(userAgent) {
+  const ua = userAgent || '';
+  if (ua.includes('Mobile') || ua.includes('Android')) {
+    return 'Mobile';
+  }
+  if (ua.includes('Tablet') || ua.includes('iPad')) {
+    return 'Tablet';
+  }
+  return 'Desktop';
+}
+
+/**
+ * Get the visitor's most preferred language from an Accept-Language header
+ * @param {string} header - Accept-Language header
+ * @returns {string|null} Lowercase language tag (e.g. 'de-at') or null
+ */
+function getPreferredLanguage(header) {
+  if (!header) {
+    return null;
+  }
+
+  const languages = header.split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const qParam = params.find(param => param.trim().startsWith('q='));
+      const q = qParam ? parseFloat(qParam.trim().slice(2)) : 1;
+      return { tag: tag.trim().toLowerCase(), q: Number.isNaN(q) ? 0 : q };
+    })
+    .filter(language => language.tag && language.tag !== '*' && language.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  return languages.length > 0 ? languages[0].tag : null;
+}
+
+/**
+ * Get the visitor's country from proxy headers
+ * @param {Object} req - Express request
+ * @returns {string|null} Uppercase ISO 3166-1 alpha-2 code or null
+ */
+function getVisitorCountry(req) {
+  for (const header of COUNTRY_HEADERS) {
+    const value = req.get(header);
+    if (value && COUNTRY_PATTERN.test(value.trim().toUpperCase())) {
+      return value.trim().toUpperCase();
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the day of week and minutes since midnight in a time zone
+ * @param {Date} date - Point in time
+ * @param {string} timezone - IANA time zone
+ * @returns {{day: number, minutes: number}} Day (0 = Sunday) and minutes
+ */
+function getLocalTime(date, timezone) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+
+  const get = type => parts.find(part => part.type === type).value;
+  const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'));
+  return { day, minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10) };
+}
+
+/**
+ * Check whether a point in time falls inside a time window.
+ * Windows where end is before start wrap around midnight.
+ * @param {Object} window - Time window
+ * @param {Date} date - Point in time
+ * @returns {boolean} True if inside the window
+ */
+function isInTimeWindow(window, date) {
+  const { day, minutes } = getLocalTime(date, window.timezone || 'UTC');
+  const toMinutes = time => parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(3), 10);
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  if (start <= end) {
+    return (!window.days || window.days.includes(day)) && minutes >= start && minutes < end;
+  }
+
+  // Overnight window: the part after midnight belongs to the previous day
+  if (minutes >= start) {
+    return !window.days || window.days.includes(day);
+  }
+  return minutes < end && (!window.days || window.days.includes((day + 6) % 7));
+}
+
+/**
+ * Check whether a single rule matches a visitor
+ * @param {Object} rule - Normalized rule
+ * @param {Object} visitor - Visitor context from getVisitorContext()
+ * @returns {boolean} True if every condition of the rule matches
+ */
+function ruleMatches(rule, visitor) {
+  if (rule.devices && !rule.devices.includes(visitor.device)) {
+    return false;
+  }
+
+  if (rule.languages) {
+    const language = visitor.language;
+    if (!language || !rule.languages.some(tag => language === tag || language.startsWith(`${tag}-`))) {
+      return false;
+    }
+  }
+
+  if (rule.countries && (!visitor.country || !rule.countries.includes(visitor.country))) {
+    return false;
+  }
+
+  if (rule.timeWindows && !rule.timeWindows.some(window => isInTimeWindow(window, visitor.time))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Collect everything rules can match on from a request
+ * @param {Object} req - Express request
+ * @returns {Object} Visitor context
+ */
+function getVisitorContext(req) {
+  return {
+    device: classifyDevice(req.get('User-Agent')),
+    language: getPreferredLanguage(req.get('Accept-Language')),
+    country: getVisitorCountry(req),
+    time: new Date()
+  };
+}
+
+/**
+ * Find the first rule that matches a visitor
+ * @param {Object} link - Link row from the database
+ * @param {Object} req - Express request
+ * @returns {Object|null} Matching rule, or null when no rule matches
+ */
+function findMatchingRule(link, req) {
+  const rules = parseRedirectRules(link.redirect_rules);
+  if (rules.length === 0) {
+    return null;
+  }
+
+  const visitor = getVisitorContext(req);
+  return rules.find(rule => ruleMatches(rule, visitor)) || null;
+}
+
+/**
+ * Parse stored redirect rules
+ * @param {string|null} value - JSON column value
+ * @returns {Array} Rules, empty when none are stored
+ */
+function parseRedirectRules(value) {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const rules = JSON.parse(value);
+    return Array.isArray(rules) ? rules : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Validate and normalize a list of redirect rules submitted through the API
+ * @param {Array} rules - Submitted rules
+ * @returns {Array} Normalized rules
+ */
+function normalizeRedirectRules(rules) {
+  if (rules === null || rules === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(rules)) {
+    throw new LinkServiceError('redirectRules must be an array', 'INVALID_REDIRECT_RULES');
+  }
+
+  if (rules.length > MAX_RULES) {
+    throw new LinkServiceError(`A link can have at most ${MAX_RULES} redirect rules`, 'INVALID_REDIRECT_RULES');
+  }
+
+  return rules.map((rule, index) => {
+    const fail = message => {
+      throw new LinkServiceError(`Rule ${index + 1}: ${message}`, 'INVALID_REDIRECT_RULES');
+    };
+    const list = (value, name) => {
+      if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
+        return undefined;
+      }
+      if (!Array.isArray(value)) {
+        fail(`${name} must be an array`);
+      }
+      return value;
+    };
+
+    if (!rule || typeof rule !== 'object') {
+      fail('must be an object');
+    }
+
+    if (!isValidUrl(rule.destination)) {
+      fail('destination must be a valid URL with http:// or https://');
+    }
+
+    const normalized = { destination: rule.destination };
+
+    const devices = list(rule.devices, 'devices');
+    if (devices) {
+      if (!devices.every(device => DEVICE_TYPES.includes(device))) {
+        fail(`devices must be one of ${DEVICE_TYPES.join(', ')}`);
+      }
+      normalized.devices = devices;
+    }
+
+    const languages = list(rule.languages, 'languages');
+    if (languages) {
+      if (!languages.every(tag => typeof tag === 'string' && LANGUAGE_PATTERN.test(tag))) {
+        fail('languages must be language tags such as "de" or "en-US"');
+      }
+      normalized.languages = languages.map(tag => tag.toLowerCase());
+    }
+
+    const countries = list(rule.countries, 'countries');
+    if (countries) {
+      const upper = countries.map(code => (typeof code === 'string' ? code.toUpperCase() : code));
+      if (!upper.every(code => typeof code === 'string' && COUNTRY_PATTERN.test(code))) {
+        fail('countries must be two-letter ISO country codes');
+      }
+      normalized.countries = upper;
+    }
+
+    const timeWindows = list(rule.timeWindows, 'timeWindows');
+    if (timeWindows) {
+      normalized.timeWindows = timeWindows.map(window => {
+        if (!window || !TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+          fail('time windows need start and end times in HH:MM format');
+        }
+
+        const normalizedWindow = { start: window.start, end: window.end };
+
+        const days = list(window.days, 'days');
+        if (days) {
+          if (!days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+            fail('days must be numbers from 0 (Sunday) to 6 (Saturday)');
+          }
+          normalizedWindow.days = days;
+        }
+
+        if (window.timezone) {
+          try {
+            new Intl.DateTimeFormat('en-US', { timeZone: window.timezone });
+          } catch (error) {
+            fail(`unknown time zone "${window.timezone}"`);
+          }
+          normalizedWindow.timezone = window.timezone;
+        }
+
+        return normalizedWindow;
+      });
+    }
+
+    return normalized;
+  });
+}
+
+module.exports = {
+  DEVICE_TYPES,
+  classifyDevice,
+  parseRedirectRules,
+  normalizeRedirectRules,
+  findMatchingRule
+};
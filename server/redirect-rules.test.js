@@ -0,0 +1,65 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+const { normalizeRedirectRules, findMatchingRule } = require('./redirect-rules');
+
+const IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148';
+const DESKTOP = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0 Safari/537.36';
+
+/**
+ * Build the parts of an Express request the rules look at
+ * @param {Object} headers - Request headers, lowercase names
+ * @returns {Object} Request stand-in
+ */
+function request(headers) {
+  return { headers, get: name => headers[name.toLowerCase()] };
+}
+
+/**
+ * Build a link row with normalized rules
+ * @param {Array} rules - Rules as submitted
+ * @returns {Object} Link row
+ */
+function linkWithRules(rules) {
+  return { redirect_rules: JSON.stringify(normalizeRedirectRules(rules)) };
+}
+
+test('the first rule whose conditions all match wins', () => {
+  const link = linkWithRules([
+    { destination: 'https://example.com/mobile-de', devices: ['Mobile'], languages: ['de'] },
+    { destination: 'https://example.com/mobile', devices: ['Mobile'] },
+    { destination: 'https://example.com/de', languages: ['de'] }
+  ]);
+
+  const german = 'de-AT,de;q=0.9,en;q=0.5';
+  assert.strictEqual(findMatchingRule(link, request({ 'user-agent': IPHONE, 'accept-language': german })).destination, 'https://example.com/mobile-de');
+  assert.strictEqual(findMatchingRule(link, request({ 'user-agent': IPHONE, 'accept-language': 'en-US' })).destination, 'https://example.com/mobile');
+  assert.strictEqual(findMatchingRule(link, request({ 'user-agent': DESKTOP, 'accept-language': german })).destination, 'https://example.com/de');
+  assert.strictEqual(findMatchingRule(link, request({ 'user-agent': DESKTOP, 'accept-language': 'fr' })), null);
+});
+
+test('country rules use the country header of the proxy and never match without one', () => {
+  const link = linkWithRules([{ destination: 'https://example.com/dach', countries: ['DE', 'AT', 'CH'] }]);
+
+  assert.ok(findMatchingRule(link, request({ 'cf-ipcountry': 'at' })));
+  assert.strictEqual(findMatchingRule(link, request({ 'cf-ipcountry': 'US' })), null);
+  assert.strictEqual(findMatchingRule(link, request({})), null);
+});
+
+test('time windows only match on their days', () => {
+  const tomorrow = (new Date().getUTCDay() + 1) % 7;
+  const link = linkWithRules([
+    { destination: 'https://example.com/tomorrow', timeWindows: [{ start: '00:00', end: '23:59', days: [tomorrow], timezone: 'UTC' }] }
+  ]);
+
+  assert.strictEqual(findMatchingRule(link, request({ 'user-agent': DESKTOP })), null);
+});
+
+test('links without rules keep their destination', () => {
+  assert.strictEqual(findMatchingRule({ redirect_rules: null }, request({ 'user-agent': IPHONE })), null);
+});
+
+test('invalid rules are rejected when they are saved', () => {
+  assert.throws(() => normalizeRedirectRules({}), { code: 'INVALID_REDIRECT_RULES' });
+  assert.throws(() => normalizeRedirectRules([{ destination: 'ftp://example.com' }]), { code: 'INVALID_REDIRECT_RULES' });
+  assert.throws(() => normalizeRedirectRules([{ destination: 'https://example.com', devices: ['Fridge'] }]), { code: 'INVALID_REDIRECT_RULES' });
+});
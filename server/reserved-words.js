@@ -0,0 +1,71 @@
+/**
+ * Reserved words registry
+ * Paths that are served by the server or the React app and therefore
+ * can never be claimed as a short code or custom alias.
+ */
+
+// Server-side routes and files (see the GET /:shortCode handler)
+const SERVER_ROUTES = [
+  'api',
+  'health',
+  'sitemap.xml',
+  'sitemap-index.xml',
+  'robots.txt'
+];
+
+// Client-side routes (see client/src/App.tsx)
+const CLIENT_ROUTES = [
+  'admin',
+  'privacy',
+  'terms',
+  'impressum',
+  'legal',
+  'analytics',
+  'docs',
+  'api-docs',
+  'bug-report',
+  'features',
+  'stats'
+];
+
+// Static files shipped with the client build (see client/public)
+const STATIC_FILES = [
+  'static',
+  'index.html',
+  'favicon.ico',
+  'favicon.svg',
+  'manifest.json',
+  'sw.js',
+  'critical.css',
+  'logo192.png',
+  'logo512.png',
+  'velink-logo-192.svg',
+  'velink-logo-512.svg'
+];
+
+// Any path starting with one of these prefixes is skipped by the redirect handler (case-sensitive)
+const RESERVED_PREFIXES = ['api'];
+
+const RESERVED_WORDS = new Set(
+  [...SERVER_ROUTES, ...CLIENT_ROUTES, ...STATIC_FILES].map(word => word.toLowerCase())
+);
+
+/**
+ * Check whether a short code or alias collides with a reserved path
+ * @param {string} word - Short code or alias to check
+ * @returns {boolean} True if the word is reserved
+ */
+function isReservedWord(word) {
+  if (!word || typeof word !== 'string') {
+    return false;
+  }
+
+  return RESERVED_WORDS.has(word.toLowerCase()) ||
+    RESERVED_PREFIXES.some(prefix => word.startsWith(prefix));
+}
+
+module.exports = {
+  RESERVED_WORDS,
+  RESERVED_PREFIXES,
+  isReservedWord
+};
@@ -1,9 +1,18 @@
 const express = require('express');
 const { body, validationResult } = require('express-validator');
 const rateLimit = require('express-rate-limit');
+const { isValidUrl, verifyPassword, mergeCustomOptions, getShortUrl, getPublicCustomOptions } = require('../utils');
+const { LinkServiceError, normalizeBatchEntry, isNotYetActive, getCreationSecretFromRequest, getLinkHostFromRequest } = require('../link-service');
+const { normalizeVariants } = require('../variants');
+const { parseBioPage, normalizeBioPage } = require('../bio-pages');
+const { normalizeTags } = require('../tags');
+const { REDIRECT_OPTION_FIELDS } = require('../redirect-options');
+const { HEALTH_OPTION_FIELDS } = require('../link-health');
+const { SOCIAL_PREVIEW_FIELDS } = require('../social-preview');
+const { EXPIRY_OPTION_FIELDS, isExpired } = require('../link-expiry');
 
 // Create API router
-function setupApiRoutes(db) {
+function setupApiRoutes(db, linkService) {
   const router = express.Router();
 
   // Enhanced rate limiting for API endpoints
@@ -40,6 +49,29 @@ function setupApiRoutes(db) {
   // Apply rate limiting to all API routes
   router.use(apiRateLimit);
 
+  // Only the holder of a link's owner secret may manage it
+  const requireLinkOwner = async (req, res, next) => {
+    try {
+      const link = await db.findByShortCode(req.params.shortCode, getLinkHostFromRequest(req));
+      if (!link) {
+        return res.status(404).json({ error: 'Link not found' });
+      }
+
+      if (!linkService.verifyCreationSecret(link, getCreationSecretFromRequest(req))) {
+        return res.status(403).json({
+          error: 'A valid creation secret is required to manage this link',
+          code: 'OWNER_SECRET_REQUIRED'
+        });
+      }
+
+      req.link = link;
+      next();
+    } catch (error) {
+      console.error('Error verifying link owner:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+
   // Verify password for password-protected links
   router.post('/verify-password/:shortCode', [
     body('password').isString().notEmpty().withMessage('Password is required'),
@@ -53,17 +85,21 @@ function setupApiRoutes(db) {
       const { shortCode } = req.params;
       const { password } = req.body;
 
-      const urlData = await db.findByShortCode(shortCode);
+      const urlData = await db.findByShortCode(shortCode, getLinkHostFromRequest(req));
       
       if (!urlData) {
         return res.status(404).json({ error: 'Link not found' });
       }
 
       // Check if link has expired
-      if (urlData.expires_at && new Date(urlData.expires_at) < new Date()) {
+      if (isExpired(urlData)) {
         return res.status(410).json({ error: 'Link has expired' });
       }
 
+      if (isNotYetActive(urlData)) {
+        return res.status(403).json({ error: 'Link is not live yet' });
+      }
+
       // Check if link is password protected
       const customOptions = urlData.custom_options ? JSON.parse(urlData.custom_options) : {};
       
@@ -72,7 +108,7 @@ function setupApiRoutes(db) {
       }
 
       // Verify password
-      if (customOptions.password !== password) {
+      if (!(await verifyPassword(customOptions.password, password))) {
         return res.status(401).json({ error: 'Invalid password' });
       }
 
@@ -87,17 +123,170 @@ function setupApiRoutes(db) {
     }
   });
 
-  // Delete link
-  router.delete('/links/:shortCode', async (req, res) => {
+  // Update the destination, expiry, activation time, click cap, A/B variants, bio page or tags of a link (owner only)
+  router.patch('/links/:shortCode', requireLinkOwner, [
+    body('originalUrl')
+      .optional()
+      .isURL({ protocols: ['http', 'https'], require_protocol: true })
+      .withMessage('Please provide a valid URL with http:// or https://')
+      .isLength({ max: 2048 })
+      .withMessage('URL is too long (max 2048 characters)'),
+    body('expiresIn')
+      .optional()
+      .isIn(['1d', '7d', '30d', '365d', 'never'])
+      .withMessage('Invalid expiration option'),
+    body('expiresAt')
+      .optional({ nullable: true })
+      .isISO8601()
+      .withMessage('expiresAt must be an ISO 8601 date'),
+    body('activatesAt')
+      .optional({ nullable: true })
+      .isISO8601()
+      .withMessage('activatesAt must be an ISO 8601 date'),
+    body('maxClicks')
+      .optional({ nullable: true })
+      .isInt({ min: 1, max: 1000000 })
+      .withMessage('maxClicks must be a whole number between 1 and 1000000')
+  ], async (req, res) => {
     try {
-      const { shortCode } = req.params;
-      
-      const urlData = await db.findByShortCode(shortCode);
-      if (!urlData) {
-        return res.status(404).json({ error: 'Link not found' });
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ error: errors.array()[0].msg });
+      }
+
+      const { originalUrl, expiresIn, expiresAt, activatesAt, maxClicks, variants } = req.body;
+      const tags = req.body.tags !== undefined ? normalizeTags(req.body.tags) : undefined;
+      const updates = {};
+
+      if (originalUrl !== undefined) {
+        updates.originalUrl = originalUrl;
+      }
+      Object.assign(updates, linkService.resolveScheduleUpdate(req.link, { expiresIn, expiresAt, activatesAt }));
+      if (maxClicks !== undefined) {
+        updates.maxClicks = maxClicks === null ? null : Number(maxClicks);
+      }
+      if (variants !== undefined) {
+        updates.variants = normalizeVariants(variants);
+      }
+      if (req.body.bioPage !== undefined) {
+        updates.bioPage = normalizeBioPage(req.body.bioPage);
+      }
+      const customOptions = mergeCustomOptions(req.link, req.body, [...REDIRECT_OPTION_FIELDS, ...HEALTH_OPTION_FIELDS, ...SOCIAL_PREVIEW_FIELDS, ...EXPIRY_OPTION_FIELDS]);
+      if (customOptions !== undefined) {
+        updates.customOptions = customOptions;
+      }
+
+      if (Object.keys(updates).length === 0 && tags === undefined) {
+        return res.status(400).json({ error: 'Nothing to update' });
+      }
+
+      const updated = await linkService.updateLink(req.link, updates, { type: 'owner', ip: req.ip });
+      if (tags !== undefined) {
+        await db.setLinkTags(req.link.id, tags);
+      }
+      const updatedOptions = updated.custom_options ? JSON.parse(updated.custom_options) : {};
+
+      res.json({
+        success: true,
+        shortCode: updated.short_code,
+        originalUrl: updated.original_url,
+        expiresAt: updated.expires_at,
+        activatesAt: updated.activates_at,
+        maxClicks: updated.max_clicks,
+        variants: updated.variants ? JSON.parse(updated.variants) : [],
+        bioPage: parseBioPage(updated.bio_page),
+        redirectStatus: updatedOptions.redirectStatus || null,
+        cacheControl: updatedOptions.cacheControl || null,
+        referrerPolicy: updatedOptions.referrerPolicy || null,
+        onBroken: updatedOptions.onBroken || null,
+        brokenFallbackUrl: updatedOptions.brokenFallbackUrl || null,
+        socialPreview: updatedOptions.socialPreview || null,
+        onExpiry: updatedOptions.onExpiry || null,
+        expiredFallbackUrl: updatedOptions.expiredFallbackUrl || null,
+        expiredMessage: updatedOptions.expiredMessage || null,
+        tags: await db.getLinkTags(updated.id),
+        updatedAt: updated.updated_at
+      });
+    } catch (error) {
+      if (error instanceof LinkServiceError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      console.error('Error updating link:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Extend a link's expiry, or renew it after it has expired (owner only)
+  router.post('/links/:shortCode/renew', requireLinkOwner, [
+    body('expiresIn')
+      .optional()
+      .isIn(['1d', '7d', '30d', '365d', 'never'])
+      .withMessage('Invalid expiration option'),
+    body('expiresAt')
+      .optional()
+      .isISO8601()
+      .withMessage('expiresAt must be an ISO 8601 date')
+  ], async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ error: errors.array()[0].msg });
       }
 
-      await db.deleteLink(shortCode);
+      const wasExpired = isExpired(req.link);
+      const updated = await linkService.renewLink(req.link, req.body, { type: 'owner', ip: req.ip });
+
+      res.json({
+        success: true,
+        shortCode: updated.short_code,
+        expiresAt: updated.expires_at,
+        renewed: wasExpired
+      });
+    } catch (error) {
+      if (error instanceof LinkServiceError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      console.error('Error renewing link:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Set, rotate or remove the password of a link (owner only)
+  router.put('/links/:shortCode/password', requireLinkOwner, [
+    body('password')
+      .optional({ nullable: true })
+      .isString()
+      .withMessage('Password must be a string')
+      .isLength({ max: 128 })
+      .withMessage('Password is too long (max 128 characters)')
+  ], async (req, res) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ error: errors.array()[0].msg });
+      }
+
+      const customOptions = await linkService.setLinkPassword(req.link, req.body.password || null, { type: 'owner', ip: req.ip });
+
+      res.json({
+        success: true,
+        shortCode: req.link.short_code,
+        isPasswordProtected: !!customOptions.password,
+        message: customOptions.password ? 'Password updated' : 'Password removed'
+      });
+    } catch (error) {
+      if (error instanceof LinkServiceError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
+      console.error('Error updating link password:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete link (owner only). The link goes to the trash, where an admin can still restore it.
+  router.delete('/links/:shortCode', requireLinkOwner, async (req, res) => {
+    try {
+      await db.trashLinks([req.link.id]);
       
       res.json({
         success: true,
@@ -109,6 +298,24 @@ function setupApiRoutes(db) {
     }
   });
 
+  // Get full analytics for a link, including individual clicks (owner only)
+  router.get('/links/:shortCode/analytics', requireLinkOwner, async (req, res) => {
+    try {
+      const [summary, analytics] = await Promise.all([
+        db.getLinkAnalytics(req.link.short_code, getLinkHostFromRequest(req)),
+        db.getClickAnalytics(req.link.id)
+      ]);
+
+      res.json({
+        ...summary,
+        ...analytics
+      });
+    } catch (error) {
+      console.error('Error fetching owner analytics:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // Get detailed statistics about the service
   router.get('/stats/detailed', async (req, res) => {
     try {
@@ -123,7 +330,7 @@ function setupApiRoutes(db) {
   // Batch shorten URLs
   router.post('/batch-shorten', dailyLinkLimit, [
     body('urls').isArray().withMessage('URLs must be an array'),
-    body('urls.*').isURL({ protocols: ['http', 'https'], require_protocol: true })
+    body('urls.*').custom(entry => isValidUrl(normalizeBatchEntry(entry).url))
       .withMessage('Each URL must be valid and include http:// or https://'),
     body('expiresIn')
       .optional()
@@ -138,79 +345,64 @@ function setupApiRoutes(db) {
         });
       }
 
-      const { urls, expiresIn, customOptions } = req.body;
+      const { urls, expiresIn, customOptions, dedupe } = req.body;
       const ip = req.ip || req.connection.remoteAddress;
       
-      // Calculate expiration date if provided
-      let expiresAt = null;
-      if (expiresIn && expiresIn !== 'never') {
-        const days = {
-          '1d': 1, '7d': 7, '30d': 30, '365d': 365
-        };
-        
-        const expireDate = new Date();
-        expireDate.setDate(expireDate.getDate() + days[expiresIn]);
-        expiresAt = expireDate.toISOString();
-      }
-
-      // Process all URLs
-      const results = [];
-      for (const url of urls) {
-        // Check if URL already exists (optimization)
-        const existing = await db.findByUrl(url);
-        if (existing) {
-          // If the URL exists but we want a different expiration, create a new one
-          if ((expiresAt && !existing.expires_at) || 
-              (expiresAt && existing.expires_at && new Date(expiresAt).getTime() !== new Date(existing.expires_at).getTime())) {
-            // Continue to create a new short URL with the new expiration
-          } else {
-            results.push({
-              shortUrl: `${req.protocol}://${req.get('host')}/${existing.short_code}`,
-              shortCode: existing.short_code,
-              originalUrl: existing.original_url,
-              clicks: existing.clicks,
-              expiresAt: existing.expires_at,
-              createdAt: existing.created_at,
-              customOptions: existing.custom_options ? JSON.parse(existing.custom_options) : null
-            });
-            continue;
+      const expiresAt = linkService.calculateExpiresAt(expiresIn);
+      const entries = urls.map(normalizeBatchEntry).map(entry => ({
+        ...entry,
+        expiresAt,
+        ip,
+        userAgent: req.get('User-Agent') || '',
+        customOptions,
+        dedupe
+      }));
+
+      // Validate and screen every entry before creating any link, so a bad entry
+      // fails the request without leaving a half-created batch behind
+      const requestedAliases = new Set();
+      for (const entry of entries) {
+        if (entry.customAlias) {
+          if (requestedAliases.has(entry.customAlias.toLowerCase())) {
+            throw new LinkServiceError(`Custom alias "${entry.customAlias}" is used more than once`, 'DUPLICATE_ALIAS');
           }
+          requestedAliases.add(entry.customAlias.toLowerCase());
         }
+        await linkService.prepareLink(entry);
+      }
 
-        // Generate unique short code
-        let shortCode;
-        let attempts = 0;
-        do {
-          shortCode = require('../utils').generateShortCode();
-          attempts++;
-          if (attempts > 10) {
-            throw new Error('Failed to generate unique short code');
+      const results = [];
+      for (const entry of entries) {
+        let link;
+        try {
+          link = await linkService.createLink(entry);
+        } catch (error) {
+          // Only a race (e.g. an alias claimed in the meantime) gets here. The links
+          // created so far are returned with their owner secrets, or nobody could manage them.
+          if (error instanceof LinkServiceError) {
+            return res.status(error.status).json({ error: error.message, code: error.code, created: results });
           }
-        } while (await db.findByShortCode(shortCode));
-
-        // Save to database
-        const result = await db.createShortUrl({
-          shortCode,
-          originalUrl: url,
-          expiresAt,
-          ip,
-          userAgent: req.get('User-Agent') || '',
-          customOptions
-        });
+          throw error;
+        }
 
         results.push({
-          shortUrl: `${req.protocol}://${req.get('host')}/${shortCode}`,
-          shortCode,
-          originalUrl: url,
-          expiresAt,
-          clicks: 0,
-          createdAt: result.created_at,
-          customOptions
+          shortUrl: getShortUrl(req, link.shortCode, link.domain),
+          shortCode: link.shortCode,
+          originalUrl: link.originalUrl,
+          expiresAt: link.expiresAt,
+          clicks: link.clicks,
+          createdAt: link.createdAt,
+          customOptions: getPublicCustomOptions(link.customOptions),
+          creationSecret: link.creationSecret,
+          deduplicated: link.deduplicated
         });
       }
 
       res.status(201).json(results);
     } catch (error) {
+      if (error instanceof LinkServiceError) {
+        return res.status(error.status).json({ error: error.message, code: error.code });
+      }
       console.error('Error batch shortening URLs:', error);
       res.status(500).json({ error: 'Failed to process batch shortening' });
     }
@@ -227,26 +419,6 @@ function setupApiRoutes(db) {
     }
   });
 
-  // DELETE /api/links/:shortCode - Delete a link
-  router.delete('/links/:shortCode', async (req, res) => {
-    try {
-      const { shortCode } = req.params;
-      const result = await db.deleteLink(shortCode);
-      
-      if (result.deletedCount === 0) {
-        return res.status(404).json({ error: 'Not found', message: 'Link not found' });
-      }
-      
-      res.json({ 
-        message: 'Link deleted successfully',
-        shortCode
-      });
-    } catch (error) {
-      console.error('Error deleting link:', error);
-      res.status(500).json({ error: 'Internal server error', message: error.message });
-    }
-  });
-
   return router;
 }
 
@@ -0,0 +1,252 @@
+/**
+ * Velink Destination Screening
+ * Checks link destinations against a set of providers before a link is created
+ * and again every time it is opened. The first provider that flags a URL wins.
+ *
+ * A provider is any object with:
+ *   name: string
+ *   check(url: URL): Promise<string|null>  - reason when the URL is blocked, otherwise null
+ *
+ * Built in are the blocklist managed in the admin panel and a plain text threat
+ * feed (THREAT_FEED_PATH) with one domain or URL per line.
+ */
+
+const fs = require('fs');
+const { LinkServiceError } = require('./link-service');
+
+const RULE_TYPES = ['domain', 'regex'];
+const MAX_PATTERN_LENGTH = 500;
+const MAX_REASON_LENGTH = 200;
+// How often the threat feed file is checked for changes
+const FEED_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Check whether a hostname is a domain or one of its subdomains
+ * @param {string} hostname - Hostname of the destination
+ * @param {string} domain - Blocked domain
+ * @returns {boolean} True if the hostname falls under the domain
+ */
+function matchesDomain(hostname, domain) {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+/**
+ * Spelling of a URL used to compare destinations with threat feed entries:
+ * parsed, without fragment and without a trailing slash, so "https://Evil.com",
+ * "https://evil.com/" and "https://evil.com/#top" are the same entry
+ * @param {string} url - URL to normalize
+ * @returns {string|null} Comparable URL, or null when it cannot be parsed
+ */
+function getFeedUrlKey(url) {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return null;
+  }
+
+  parsed.hash = '';
+  parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  return parsed.href;
+}
+
+/**
+ * Validate a blocklist rule submitted through the admin API
+ * @param {Object} rule - { type, pattern, reason }
+ * @returns {Object} Normalized rule
+ */
+function normalizeBlocklistRule(rule) {
+  const type = rule && rule.type;
+  const pattern = rule && typeof rule.pattern === 'string' ? rule.pattern.trim() : '';
+  const reason = rule && typeof rule.reason === 'string' ? rule.reason.trim() : '';
+
+  if (!RULE_TYPES.includes(type)) {
+    throw new LinkServiceError('type must be "domain" or "regex"', 'INVALID_BLOCKLIST_RULE');
+  }
+  if (!pattern || pattern.length > MAX_PATTERN_LENGTH) {
+    throw new LinkServiceError(`pattern must be 1-${MAX_PATTERN_LENGTH} characters`, 'INVALID_BLOCKLIST_RULE');
+  }
+  if (reason.length > MAX_REASON_LENGTH) {
+    throw new LinkServiceError(`reason must be at most ${MAX_REASON_LENGTH} characters`, 'INVALID_BLOCKLIST_RULE');
+  }
+
+  if (type === 'domain') {
+    const domain = pattern.toLowerCase().replace(/^\*\./, '').replace(/\.$/, '');
+    if (!/^[a-z0-9.-]+$/.test(domain) || !domain.includes('.')) {
+      throw new LinkServiceError('pattern must be a domain such as example.com', 'INVALID_BLOCKLIST_RULE');
+    }
+    return { type, pattern: domain, reason: reason || null };
+  }
+
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new LinkServiceError(error.message, 'INVALID_BLOCKLIST_RULE');
+  }
+  return { type, pattern, reason: reason || null };
+}
+
+/**
+ * Domain and regex rules stored in the database. Rules are cached and
+ * reloaded after every change made through the admin panel.
+ */
+class BlocklistProvider {
+  constructor(db) {
+    this.name = 'blocklist';
+    this.db = db;
+    this.rules = null;
+  }
+
+  invalidate() {
+    this.rules = null;
+  }
+
+  async loadRules() {
+    if (!this.rules) {
+      const rows = await this.db.getBlocklistRules();
+      this.rules = rows.map(row => ({
+        ...row,
+        regex: row.type === 'regex' ? new RegExp(row.pattern, 'i') : null
+      }));
+    }
+    return this.rules;
+  }
+
+  async check(url) {
+    const rules = await this.loadRules();
+    const hostname = url.hostname.toLowerCase();
+
+    const match = rules.find(rule => (rule.type === 'domain'
+      ? matchesDomain(hostname, rule.pattern)
+      : rule.regex.test(url.href)));
+    if (!match) {
+      return null;
+    }
+
+    return match.reason || (match.type === 'domain'
+      ? `Domain ${match.pattern} is blocked`
+      : `URL matches blocked pattern ${match.pattern}`);
+  }
+}
+
+/**
+ * Plain text threat feed: one domain or full URL per line, "#" starts a
+ * comment. The file is re-read when it changes.
+ */
+class ThreatFeedProvider {
+  constructor(filePath) {
+    this.name = 'threat-feed';
+    this.filePath = filePath;
+    this.domains = new Set();
+    this.urls = new Set();
+    this.loadedMtime = 0;
+    this.lastChecked = 0;
+  }
+
+  refresh() {
+    const now = Date.now();
+    if (now - this.lastChecked < FEED_CHECK_INTERVAL_MS) {
+      return;
+    }
+    this.lastChecked = now;
+
+    let stats;
+    try {
+      stats = fs.statSync(this.filePath);
+    } catch (error) {
+      if (this.loadedMtime) {
+        console.error(`Threat feed ${this.filePath} is no longer readable:`, error.message);
+        this.domains = new Set();
+        this.urls = new Set();
+        this.loadedMtime = 0;
+      }
+      return;
+    }
+
+    if (stats.mtimeMs === this.loadedMtime) {
+      return;
+    }
+
+    const domains = new Set();
+    const urls = new Set();
+    for (const rawLine of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      if (!line) {
+        continue;
+      }
+      if (/^https?:\/\//i.test(line)) {
+        const key = getFeedUrlKey(line);
+        if (key) {
+          urls.add(key);
+        }
+      } else {
+        domains.add(line.toLowerCase());
+      }
+    }
+
+    this.domains = domains;
+    this.urls = urls;
+    this.loadedMtime = stats.mtimeMs;
+    console.log(`🛡️ Loaded threat feed with ${domains.size} domains and ${urls.size} URLs`);
+  }
+
+  async check(url) {
+    this.refresh();
+
+    if (this.urls.has(getFeedUrlKey(url.href))) {
+      return 'URL is listed in the threat feed';
+    }
+
+    // Walk up the hostname so listed domains also cover their subdomains
+    const labels = url.hostname.toLowerCase().split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      const domain = labels.slice(i).join('.');
+      if (this.domains.has(domain)) {
+        return `Domain ${domain} is listed in the threat feed`;
+      }
+    }
+
+    return null;
+  }
+}
+
+class DestinationScreener {
+  constructor(providers = []) {
+    this.providers = providers;
+  }
+
+  /**
+   * Run a destination past every provider
+   * @param {string} destination - Destination URL
+   * @returns {Promise<Object|null>} { provider, reason } for blocked URLs, otherwise null
+   */
+  async screen(destination) {
+    let url;
+    try {
+      url = new URL(destination);
+    } catch (error) {
+      return null;
+    }
+
+    for (const provider of this.providers) {
+      try {
+        const reason = await provider.check(url);
+        if (reason) {
+          return { provider: provider.name, reason };
+        }
+      } catch (error) {
+        // A failing provider must not take every redirect down with it
+        console.error(`Destination screening provider ${provider.name} failed:`, error.message);
+      }
+    }
+
+    return null;
+  }
+}
+
+module.exports = {
+  BlocklistProvider,
+  ThreatFeedProvider,
+  DestinationScreener,
+  normalizeBlocklistRule
+};
@@ -0,0 +1,49 @@
+const { test, after } = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { ThreatFeedProvider } = require('./screening');
+
+const feedDirs = [];
+after(() => {
+  for (const dir of feedDirs) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+/**
+ * Write a threat feed to a temporary file and load it
+ * @param {string} contents - Feed file contents
+ * @returns {ThreatFeedProvider} Provider reading the file
+ */
+function loadFeed(contents) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'velink-feed-'));
+  feedDirs.push(dir);
+  const filePath = path.join(dir, 'feed.txt');
+  fs.writeFileSync(filePath, contents);
+  return new ThreatFeedProvider(filePath);
+}
+
+test('a bare origin in the feed matches the destination with a trailing slash', async () => {
+  const feed = loadFeed('https://evil.com\n');
+
+  assert.ok(await feed.check(new URL('https://evil.com/')));
+  assert.ok(await feed.check(new URL('https://EVIL.com')));
+  assert.strictEqual(await feed.check(new URL('https://evil.com/other')), null);
+});
+
+test('URL entries match regardless of host case, trailing slash and fragment', async () => {
+  const feed = loadFeed('# phishing\nhttps://Evil.com/Login/\n');
+
+  assert.ok(await feed.check(new URL('https://evil.com/Login')));
+  assert.ok(await feed.check(new URL('https://evil.com/Login/#form')));
+  assert.strictEqual(await feed.check(new URL('https://evil.com/login')), null);
+});
+
+test('domain entries cover subdomains', async () => {
+  const feed = loadFeed('evil.com\n');
+
+  assert.ok(await feed.check(new URL('https://www.evil.com/page')));
+  assert.strictEqual(await feed.check(new URL('https://notevil.com/')), null);
+});
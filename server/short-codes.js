@@ -0,0 +1,221 @@
+/**
+ * Velink Short Codes
+ * Generation of short codes for links without a custom alias. Admins choose
+ * the strategy, length and alphabet in the admin panel (stored in .env):
+ *
+ *   SHORT_CODE_STRATEGY  'random' (default) or 'pronounceable'
+ *   SHORT_CODE_LENGTH    number of characters, 6 when unset
+ *   SHORT_CODE_ALPHABET  characters of random codes, pronounceable codes ignore it
+ *
+ * Generated codes never contain an offensive word. Uniqueness is left to the
+ * UNIQUE (domain_id, short_code) constraint: callers insert right away and
+ * report every collision, and once collisions become frequent the generator
+ * adds a character to every new code.
+ */
+
+const crypto = require('crypto');
+const { customAlphabet } = require('nanoid');
+
+const CODE_STRATEGIES = ['random', 'pronounceable'];
+const DEFAULT_LENGTH = 6;
+const MIN_LENGTH = 4;
+const MAX_LENGTH = 32;
+// URL-safe, without characters that are easily confused (0/O, 1/l/I)
+const DEFAULT_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz';
+const MIN_ALPHABET_SIZE = 10;
+const ALPHABET_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const CONSONANTS = 'bdfghjklmnprstvz';
+const VOWELS = 'aeiou';
+
+// Generated codes containing any of these (after undoing digit look-alikes) are discarded
+const OFFENSIVE_SUBSTRINGS = [
+  'anal', 'anus', 'arse', 'ass', 'bitch', 'boob', 'butt', 'cock', 'coon', 'crap',
+  'cum', 'cunt', 'dick', 'dildo', 'fag', 'fck', 'fuck', 'fuk', 'homo', 'jizz',
+  'kike', 'kkk', 'nazi', 'nig', 'penis', 'piss', 'poo', 'porn', 'puss', 'rape',
+  'sex', 'shit', 'slut', 'spic', 'tit', 'twat', 'vag', 'wank', 'whore', 'xxx'
+];
+const LOOK_ALIKES = { 0: 'o', 1: 'i', 3: 'e', 4: 'a', 5: 's', 7: 't', 8: 'b' };
+const MAX_FILTER_ATTEMPTS = 100;
+
+// Collision tracking: the length grows when more than COLLISION_THRESHOLD of
+// the last COLLISION_WINDOW inserts hit an existing code
+const COLLISION_WINDOW = 50;
+const COLLISION_MIN_SAMPLES = 20;
+const COLLISION_THRESHOLD = 0.1;
+
+/**
+ * Validate short code settings submitted through the admin API
+ * @param {Object} settings - { strategy, length, alphabet }
+ * @returns {string|null} Error message, or null when the settings are valid
+ */
+function getShortCodeSettingsError(settings) {
+  if (!settings || typeof settings !== 'object') {
+    return 'Settings must be an object with strategy, length and alphabet';
+  }
+
+  const { strategy, length, alphabet } = settings;
+  if (!CODE_STRATEGIES.includes(strategy)) {
+    return `strategy must be one of ${CODE_STRATEGIES.join(', ')}`;
+  }
+  if (!Number.isInteger(length) || length < MIN_LENGTH || length > MAX_LENGTH) {
+    return `length must be a whole number between ${MIN_LENGTH} and ${MAX_LENGTH}`;
+  }
+  if (typeof alphabet !== 'string' || !ALPHABET_PATTERN.test(alphabet)) {
+    return 'alphabet may only contain letters, numbers, hyphens and underscores';
+  }
+  if (new Set(alphabet).size !== alphabet.length) {
+    return 'alphabet must not repeat characters';
+  }
+  if (alphabet.length < MIN_ALPHABET_SIZE) {
+    return `alphabet must have at least ${MIN_ALPHABET_SIZE} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Read the short code settings from the environment; invalid values fall back to the defaults
+ * @returns {Object} { strategy, length, alphabet }
+ */
+function getShortCodeSettings() {
+  const length = parseInt(process.env.SHORT_CODE_LENGTH);
+  const alphabet = process.env.SHORT_CODE_ALPHABET;
+  return {
+    strategy: CODE_STRATEGIES.includes(process.env.SHORT_CODE_STRATEGY) ? process.env.SHORT_CODE_STRATEGY : 'random',
+    length: length >= MIN_LENGTH && length <= MAX_LENGTH ? length : DEFAULT_LENGTH,
+    alphabet: alphabet && !getShortCodeSettingsError({ strategy: 'random', length: DEFAULT_LENGTH, alphabet })
+      ? alphabet
+      : DEFAULT_ALPHABET
+  };
+}
+
+/**
+ * Check whether a code spells out an offensive word
+ * @param {string} code - Generated code
+ * @returns {boolean} True if the code must not be used
+ */
+function isOffensive(code) {
+  const normalized = code.toLowerCase().replace(/[0-9]/g, digit => LOOK_ALIKES[digit] || digit);
+  return OFFENSIVE_SUBSTRINGS.some(word => normalized.includes(word));
+}
+
+/**
+ * Random characters from an alphabet
+ * @param {string} alphabet - Characters to pick from
+ * @param {number} length - Number of characters
+ * @returns {string} Code
+ */
+function randomCode(alphabet, length) {
+  return customAlphabet(alphabet, length)();
+}
+
+/**
+ * Alternating consonants and vowels, such as "bakotu"
+ * @param {number} length - Number of characters
+ * @returns {string} Code
+ */
+function pronounceableCode(length) {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    const letters = i % 2 === 0 ? CONSONANTS : VOWELS;
+    code += letters[crypto.randomInt(letters.length)];
+  }
+  return code;
+}
+
+class ShortCodeGenerator {
+  constructor() {
+    this.configure(getShortCodeSettings());
+  }
+
+  /**
+   * Apply new settings; the automatic length increase starts over
+   * @param {Object} settings - { strategy, length, alphabet }
+   */
+  configure(settings) {
+    this.settings = settings;
+    this.extraLength = 0;
+    this.recentResults = [];
+  }
+
+  /**
+   * Length of newly generated codes, including automatic growth
+   * @returns {number} Number of characters
+   */
+  getLength() {
+    return Math.min(this.settings.length + this.extraLength, MAX_LENGTH);
+  }
+
+  /**
+   * Generate a code that is free of offensive words. Whether it is taken is
+   * only found out when it is inserted.
+   * @param {Function} [isAllowed] - Extra check, e.g. against reserved words
+   * @returns {string} Short code
+   */
+  generate(isAllowed = () => true) {
+    const { strategy, alphabet } = this.settings;
+    const length = this.getLength();
+
+    for (let attempt = 0; attempt < MAX_FILTER_ATTEMPTS; attempt++) {
+      const code = strategy === 'pronounceable'
+        ? pronounceableCode(length)
+        : randomCode(alphabet, length);
+      if (!isOffensive(code) && isAllowed(code)) {
+        return code;
+      }
+    }
+
+    throw new Error('Failed to generate an acceptable short code');
+  }
+
+  /**
+   * Record whether inserting a generated code hit an existing one
+   * @param {boolean} collided - True when the code was already taken
+   */
+  recordResult(collided) {
+    this.recentResults.push(collided);
+    if (this.recentResults.length > COLLISION_WINDOW) {
+      this.recentResults.shift();
+    }
+
+    if (this.recentResults.length >= COLLISION_MIN_SAMPLES &&
+        this.getCollisionRate() > COLLISION_THRESHOLD &&
+        this.getLength() < MAX_LENGTH) {
+      this.extraLength++;
+      this.recentResults = [];
+      console.log(`🔤 Short code collisions are frequent, new codes now have ${this.getLength()} characters`);
+    }
+  }
+
+  /**
+   * Share of recent inserts that collided with an existing code
+   * @returns {number} Rate between 0 and 1
+   */
+  getCollisionRate() {
+    if (this.recentResults.length === 0) {
+      return 0;
+    }
+    return this.recentResults.filter(Boolean).length / this.recentResults.length;
+  }
+
+  /**
+   * Settings and current state for the admin panel
+   * @returns {Object} { strategy, length, alphabet, effectiveLength, collisionRate }
+   */
+  getStatus() {
+    return {
+      ...this.settings,
+      effectiveLength: this.getLength(),
+      collisionRate: this.getCollisionRate()
+    };
+  }
+}
+
+module.exports = {
+  CODE_STRATEGIES,
+  DEFAULT_ALPHABET,
+  ShortCodeGenerator,
+  getShortCodeSettings,
+  getShortCodeSettingsError
+};
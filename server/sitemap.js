@@ -11,6 +11,11 @@ class SitemapGenerator {
     this.isGenerating = false;
     this.maxUrlsPerSitemap = 40000; // SEO best practice: keep under 50k URLs per sitemap
   }
+
+  // Custom domains get their own sitemap with only the links in their namespace
+  getDomainSitemapPath(hostname) {
+    return path.join(__dirname, 'public', `sitemap-${hostname}.xml`);
+  }
   
   // Enhanced static pages with comprehensive link shortener SEO
   getStaticPages() {
@@ -73,10 +78,11 @@ class SitemapGenerator {
       this.isGenerating = true;
       console.log('🗺️ Generating enhanced sitemap for Velink...');
 
-      const [staticPages, links] = await Promise.all([
+      const [staticPages, allLinks] = await Promise.all([
         this.getStaticPages(),
         this.getActivePublicLinks()
       ]);
+      const links = allLinks.filter(link => !link.domain_id);
 
       console.log(`📄 Found ${staticPages.length} static pages and ${links.length} public links`);
 
@@ -103,6 +109,8 @@ class SitemapGenerator {
         console.error(`❌ Sitemap validation failed: ${validation.error}`);
       }
 
+      await this.generateDomainSitemaps(allLinks);
+
       return true;
     } catch (error) {
       console.error('❌ Error generating sitemap:', error);
@@ -112,6 +120,30 @@ class SitemapGenerator {
     }
   }
 
+  async generateDomainSitemaps(links) {
+    const domains = await this.db.getDomains();
+
+    for (const domain of domains) {
+      const sitemapPath = this.getDomainSitemapPath(domain.hostname);
+
+      if (!domain.is_active) {
+        if (fs.existsSync(sitemapPath)) {
+          fs.unlinkSync(sitemapPath);
+        }
+        continue;
+      }
+
+      const baseUrl = `https://${domain.hostname}`;
+      const domainLinks = links.filter(link => link.domain_id === domain.id).slice(0, this.maxUrlsPerSitemap);
+      await this.writeSitemapFile(sitemapPath, this.buildSitemapXML([], domainLinks, baseUrl));
+
+      const validation = this.validateSitemap(sitemapPath, baseUrl);
+      if (!validation.valid) {
+        console.error(`❌ Sitemap validation failed for ${domain.hostname}: ${validation.error}`);
+      }
+    }
+  }
+
   async writeSitemap(xml) {
     try {
       // Ensure the public directory exists
@@ -210,7 +242,7 @@ class SitemapGenerator {
 
   async getActivePublicLinks() {
     try {
-      // Get all active links (non-expired and active)
+      // Get all active links (live, non-expired and active)
       const allLinks = await this.db.getActiveLinks();
       
       // Filter out private links
@@ -242,7 +274,7 @@ class SitemapGenerator {
     }
   }
 
-  buildSitemapXML(staticPages, links) {
+  buildSitemapXML(staticPages, links, baseUrl = this.baseUrl) {
     let xml = `<?xml version="1.0" encoding="UTF-8"?>
 <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
@@ -254,7 +286,7 @@ class SitemapGenerator {
       const lastmod = page.path === '' ? new Date().toISOString().split('T')[0] : '';
       xml += `
   <url>
-    <loc>${this.baseUrl}${page.path}</loc>${lastmod ? `
+    <loc>${baseUrl}${page.path}</loc>${lastmod ? `
     <lastmod>${lastmod}</lastmod>` : ''}
     <changefreq>${page.changefreq}</changefreq>
     <priority>${page.priority}</priority>
@@ -279,7 +311,7 @@ class SitemapGenerator {
       
       xml += `
   <url>
-    <loc>${this.baseUrl}/${link.short_code}</loc>
+    <loc>${baseUrl}/${link.short_code}</loc>
     <lastmod>${lastmod}</lastmod>
     <changefreq>monthly</changefreq>
     <priority>${priority}</priority>
@@ -317,13 +349,13 @@ class SitemapGenerator {
   }
 
   // Enhanced sitemap validation
-  validateSitemap() {
+  validateSitemap(sitemapPath = this.sitemapPath, baseUrl = this.baseUrl) {
     try {
-      if (!fs.existsSync(this.sitemapPath)) {
+      if (!fs.existsSync(sitemapPath)) {
         return { valid: false, error: 'Sitemap file does not exist' };
       }
 
-      const content = fs.readFileSync(this.sitemapPath, 'utf8');
+      const content = fs.readFileSync(sitemapPath, 'utf8');
       
       // Basic XML validation
       if (!content.includes('<?xml version="1.0"')) {
@@ -349,7 +381,7 @@ class SitemapGenerator {
       const urls = content.match(/<loc>(.*?)<\/loc>/g) || [];
       for (const url of urls) {
         const urlContent = url.replace(/<\/?loc>/g, '');
-        if (!urlContent.startsWith(this.baseUrl)) {
+        if (!urlContent.startsWith(baseUrl)) {
           return { valid: false, error: `Invalid URL found: ${urlContent}` };
         }
       }
@@ -0,0 +1,133 @@
+/**
+ * Velink Social Previews
+ * Per-link Open Graph / Twitter Card overrides. When a link preview crawler
+ * (Slack, Discord, WhatsApp, ...) opens a short link that has overrides, it gets
+ * a small page with the meta tags instead of the redirect, so the unfurl shows
+ * what the link owner chose. Crawler fetches never count as clicks.
+ *
+ * Stored in customOptions.socialPreview:
+ * {
+ *   title: 'Spring Sale',
+ *   description: 'Everything 20% off until Sunday',
+ *   image: 'https://example.com/sale.png'
+ * }
+ */
+
+const { isValidUrl } = require('./utils');
+const { escapeHtml } = require('./pages');
+
+const SOCIAL_PREVIEW_FIELDS = ['socialPreview'];
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_IMAGE_URL_LENGTH = 2048;
+
+// Link preview bots of chat apps and social networks. Search engine crawlers are
+// left out on purpose: they should see the redirect.
+const CRAWLER_PATTERN = /facebookexternalhit|facebookcatalog|Facebot|Twitterbot|Slackbot|Slack-ImgProxy|LinkedInBot|Discordbot|TelegramBot|WhatsApp|SkypeUriPreview|Pinterestbot|redditbot|Embedly|vkShare|Iframely|Mastodon|Bluesky|Cardyb/i;
+
+/**
+ * Check whether a request comes from a link preview crawler
+ * @param {string} userAgent - User-Agent header
+ * @returns {boolean} True for known crawlers
+ */
+function isPreviewCrawler(userAgent) {
+  return CRAWLER_PATTERN.test(userAgent || '');
+}
+
+/**
+ * Validate social preview options
+ * @param {Object} socialPreview - customOptions.socialPreview
+ * @returns {string|null} Error message, or null when the options are valid
+ */
+function getSocialPreviewError(socialPreview) {
+  if (socialPreview === undefined || socialPreview === null) {
+    return null;
+  }
+
+  if (typeof socialPreview !== 'object' || Array.isArray(socialPreview)) {
+    return 'socialPreview must be an object with title, description and/or image';
+  }
+
+  const { title, description, image } = socialPreview;
+  if (title !== undefined && title !== null && (typeof title !== 'string' || title.length > MAX_TITLE_LENGTH)) {
+    return `socialPreview.title must be text of at most ${MAX_TITLE_LENGTH} characters`;
+  }
+  if (description !== undefined && description !== null &&
+      (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    return `socialPreview.description must be text of at most ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  if (image !== undefined && image !== null && image !== '' &&
+      (!isValidUrl(image) || image.length > MAX_IMAGE_URL_LENGTH)) {
+    return 'socialPreview.image must be a valid URL with http:// or https://';
+  }
+
+  return null;
+}
+
+/**
+ * Get the social preview of a link, if it has any overrides
+ * @param {Object} customOptions - Parsed custom options of the link
+ * @returns {Object|null} { title, description, image } or null
+ */
+function getSocialPreview(customOptions) {
+  const preview = customOptions && customOptions.socialPreview;
+  if (!preview) {
+    return null;
+  }
+
+  const title = (preview.title || '').trim();
+  const description = (preview.description || '').trim();
+  const image = preview.image || '';
+  if (!title && !description && !image) {
+    return null;
+  }
+
+  return { title, description, image };
+}
+
+/**
+ * Page with Open Graph and Twitter Card tags for link preview crawlers
+ * @param {Object} preview - Social preview from getSocialPreview()
+ * @param {string} shortUrl - Public short URL of the link
+ * @param {string|null} destination - Destination to refresh to, null to keep it hidden
+ * @returns {string} HTML document
+ */
+function renderSocialPreviewPage(preview, shortUrl, destination) {
+  const meta = (attribute, name, content) => (content
+    ? `<meta ${attribute}="${name}" content="${escapeHtml(content)}">`
+    : '');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="robots" content="noindex">
+  <title>${escapeHtml(preview.title || shortUrl)}</title>
+  ${meta('name', 'description', preview.description)}
+  ${meta('property', 'og:type', 'website')}
+  ${meta('property', 'og:site_name', 'Velink')}
+  ${meta('property', 'og:url', shortUrl)}
+  ${meta('property', 'og:title', preview.title)}
+  ${meta('property', 'og:description', preview.description)}
+  ${meta('property', 'og:image', preview.image)}
+  ${meta('name', 'twitter:card', preview.image ? 'summary_large_image' : 'summary')}
+  ${meta('name', 'twitter:title', preview.title)}
+  ${meta('name', 'twitter:description', preview.description)}
+  ${meta('name', 'twitter:image', preview.image)}
+  ${destination ? `<meta http-equiv="refresh" content="0;url=${escapeHtml(destination)}">` : ''}
+</head>
+<body>
+  <h1>${escapeHtml(preview.title || shortUrl)}</h1>
+  ${preview.description ? `<p>${escapeHtml(preview.description)}</p>` : ''}
+  ${destination ? `<p><a href="${escapeHtml(destination)}">Continue</a></p>` : ''}
+</body>
+</html>`;
+}
+
+module.exports = {
+  SOCIAL_PREVIEW_FIELDS,
+  isPreviewCrawler,
+  getSocialPreviewError,
+  getSocialPreview,
+  renderSocialPreviewPage
+};
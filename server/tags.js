@@ -0,0 +1,74 @@
+/**
+ * Velink Tags
+ * Free-form labels for grouping links in the admin panel. Tags are stored in
+ * their own table and linked to short URLs many-to-many; names are unique
+ * regardless of case.
+ */
+
+const { LinkServiceError } = require('./link-service');
+
+const MAX_TAGS_PER_LINK = 20;
+const MAX_TAG_LENGTH = 32;
+// Letters, numbers, spaces, hyphens, underscores and slashes ("clients/acme")
+const TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _\-/]*$/u;
+
+/**
+ * Validate and normalize a list of tag names submitted through the API.
+ * Duplicates (ignoring case) are dropped, the first spelling wins.
+ * @param {Array} tags - Submitted tag names
+ * @returns {Array<string>} Normalized tag names
+ */
+function normalizeTags(tags) {
+  if (tags === null || tags === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(tags)) {
+    throw new LinkServiceError('tags must be an array of tag names', 'INVALID_TAGS');
+  }
+
+  const seen = new Set();
+  const normalized = [];
+
+  for (const tag of tags) {
+    if (typeof tag !== 'string') {
+      throw new LinkServiceError('tags must be an array of tag names', 'INVALID_TAGS');
+    }
+
+    const name = tag.trim().replace(/\s+/g, ' ');
+    if (!name) {
+      continue;
+    }
+    if (name.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(name)) {
+      throw new LinkServiceError(
+        `Invalid tag "${name}": use up to ${MAX_TAG_LENGTH} letters, numbers, spaces, hyphens, underscores or slashes`,
+        'INVALID_TAGS'
+      );
+    }
+
+    if (!seen.has(name.toLowerCase())) {
+      seen.add(name.toLowerCase());
+      normalized.push(name);
+    }
+  }
+
+  if (normalized.length > MAX_TAGS_PER_LINK) {
+    throw new LinkServiceError(`A link can have at most ${MAX_TAGS_PER_LINK} tags`, 'INVALID_TAGS');
+  }
+
+  return normalized;
+}
+
+/**
+ * Split the comma separated tag list returned by the link queries
+ * @param {string|null} value - GROUP_CONCAT result
+ * @returns {Array<string>} Tag names
+ */
+function parseTagList(value) {
+  return value ? value.split(',') : [];
+}
+
+module.exports = {
+  normalizeTags,
+  parseTagList
+};
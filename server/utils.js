@@ -1,16 +1,11 @@
-const { customAlphabet } = require('nanoid');
+const crypto = require('crypto');
+const dns = require('dns');
+const http = require('http');
+const https = require('https');
+const net = require('net');
+const { promisify } = require('util');
 
-// Custom alphabet for short codes (URL-safe, excludes confusing characters)
-const alphabet = '23456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz';
-const nanoid = customAlphabet(alphabet, 6);
-
-/**
- * Generate a short code for URL shortening
- * @returns {string} 6-character short code
- */
-function generateShortCode() {
-  return nanoid();
-}
+const scrypt = promisify(crypto.scrypt);
 
 /**
  * Validate if a string is a valid URL
@@ -26,8 +21,116 @@ function isValidUrl(string) {
   }
 }
 
+// Addresses that are not reachable on the public internet. IPv4-mapped IPv6
+// addresses (::ffff:127.0.0.1) are matched against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+]) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+]) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Check a resolved address against the private ranges
+ * @param {Object} entry - { address, family } as returned by dns.lookup
+ * @returns {boolean} True for loopback, private, link-local and reserved addresses
+ */
+function isPrivateAddress({ address, family }) {
+  return PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Error for requests to hosts in a private or local network
+ * @param {string} hostname - Requested host
+ * @returns {Error} Error with code EPRIVATEADDRESS
+ */
+function createPrivateAddressError(hostname) {
+  const error = new Error(`${hostname} resolves to a private or local address`);
+  error.code = 'EPRIVATEADDRESS';
+  return error;
+}
+
+/**
+ * DNS lookup for outgoing requests that refuses private and local addresses.
+ * Used as the lookup of the socket itself, so the checked address is the one
+ * connected to and a DNS answer that changes after a separate check cannot
+ * redirect the request into the server's own network.
+ * @param {string} hostname - Hostname to resolve
+ * @param {Object} options - dns.lookup options passed by the socket
+ * @param {Function} callback - dns.lookup callback
+ */
+function lookupPublicAddress(hostname, options, callback) {
+  dns.lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      return callback(error);
+    }
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      return callback(createPrivateAddressError(hostname));
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+/**
+ * Send a single request to a public host without following redirects. Hosts
+ * that are, or resolve to, private or local addresses fail with the error code
+ * EPRIVATEADDRESS.
+ * @param {string} url - http:// or https:// URL
+ * @param {Object} [options]
+ * @param {string} [options.method] - HTTP method, GET by default
+ * @param {Object} [options.headers] - Request headers
+ * @param {AbortSignal} [options.signal] - Aborts the request; it rejects with the signal's reason
+ * @returns {Promise<http.IncomingMessage>} Response with its body still unread
+ */
+function requestPublicUrl(url, options = {}) {
+  const target = new URL(url);
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  // IP literals are connected to without a lookup
+  if (net.isIP(host) && isPrivateAddress({ address: host, family: net.isIP(host) })) {
+    return Promise.reject(createPrivateAddressError(host));
+  }
+
+  const client = target.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(target, {
+      method: options.method || 'GET',
+      headers: options.headers,
+      signal: options.signal,
+      lookup: lookupPublicAddress
+    }, resolve);
+    request.on('error', error => {
+      reject(options.signal && options.signal.aborted ? options.signal.reason : error);
+    });
+    request.end();
+  });
+}
+
 /**
- * Sanitize URL for database storage
+ * Bring a URL into a canonical spelling for comparisons: lowercase scheme and
+ * host, no default port, and a "/" path for bare hosts
+ * @param {string} url - URL to normalize
+ * @returns {string} Normalized URL, or the input when it cannot be parsed
+ */
+function normalizeUrl(url) {
+  try {
+    return new URL(url).href;
+  } catch (err) {
+    return url;
+  }
+}
+
+/**
+ * Sanitize URL for database storage by removing tracking parameters.
+ * Only applied to links created with the stripTracking option.
  * @param {string} url - URL to sanitize
  * @returns {string} Sanitized URL
  */
@@ -50,6 +153,54 @@ function sanitizeUrl(url) {
   }
 }
 
+/**
+ * Add UTM campaign parameters to a URL. Empty values are skipped and
+ * parameters already present in the URL are overwritten.
+ * @param {string} url - URL to tag
+ * @param {Object} utm - { source, medium, campaign }
+ * @returns {string} Tagged URL
+ */
+function addUtmParams(url, utm) {
+  if (!utm) {
+    return url;
+  }
+
+  const urlObj = new URL(url);
+  for (const key of ['source', 'medium', 'campaign']) {
+    if (utm[key]) {
+      urlObj.searchParams.set(`utm_${key}`, utm[key]);
+    }
+  }
+  return urlObj.toString();
+}
+
+/**
+ * Append a visitor's query string to a redirect target.
+ * Parameters the target already has are kept as they are.
+ * @param {string} url - Redirect target
+ * @param {string} search - Incoming query string (with or without the leading "?")
+ * @returns {string} Target with the forwarded parameters
+ */
+function appendQueryParams(url, search) {
+  const incoming = new URLSearchParams(search || '');
+  if ([...incoming.keys()].length === 0) {
+    return url;
+  }
+
+  try {
+    const urlObj = new URL(url);
+    const existing = new Set(urlObj.searchParams.keys());
+    for (const [key, value] of incoming) {
+      if (!existing.has(key)) {
+        urlObj.searchParams.append(key, value);
+      }
+    }
+    return urlObj.toString();
+  } catch (err) {
+    return url;
+  }
+}
+
 /**
  * Get domain from URL
  * @param {string} url - URL to extract domain from
@@ -64,6 +215,21 @@ function getDomainFromUrl(url) {
   }
 }
 
+/**
+ * Build the public short URL of a link. Links on a custom domain always use
+ * that domain; links in the primary namespace use the host of the request.
+ * @param {Object} req - Express request
+ * @param {string} shortCode - Short code
+ * @param {string|null} [domain] - Custom domain hostname of the link
+ * @returns {string} Short URL
+ */
+function getShortUrl(req, shortCode, domain) {
+  if (domain) {
+    return `https://${domain}/${shortCode}`;
+  }
+  return `${req.protocol}://${req.get('host')}/${shortCode}`;
+}
+
 /**
  * Format number with commas
  * @param {number} num - Number to format
@@ -116,12 +282,125 @@ function normalizeCustomOptions(customOptions) {
   return normalized;
 }
 
+// Link passwords are stored as "scrypt$<salt>$<hash>" (hex encoded)
+const PASSWORD_HASH_PREFIX = 'scrypt$';
+const PASSWORD_KEY_LENGTH = 64;
+
+/**
+ * Check whether a stored link password is already hashed
+ * @param {string} stored - Stored password value
+ * @returns {boolean} True if the value is a password hash
+ */
+function isPasswordHash(stored) {
+  return typeof stored === 'string' && stored.startsWith(PASSWORD_HASH_PREFIX);
+}
+
+/**
+ * Hash a link password with a random salt
+ * @param {string} password - Plain text password
+ * @returns {Promise<string>} Encoded password hash
+ */
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const derivedKey = await scrypt(password, salt, PASSWORD_KEY_LENGTH);
+  return `${PASSWORD_HASH_PREFIX}${salt}$${derivedKey.toString('hex')}`;
+}
+
+/**
+ * Compare a candidate password against a stored value in constant time.
+ * Plain text values from before hashing was introduced are still accepted.
+ * @param {string} stored - Stored password hash (or legacy plain text)
+ * @param {string} candidate - Password entered by the visitor
+ * @returns {Promise<boolean>} True if the password matches
+ */
+async function verifyPassword(stored, candidate) {
+  if (typeof stored !== 'string' || typeof candidate !== 'string') {
+    return false;
+  }
+
+  if (!isPasswordHash(stored)) {
+    const expected = crypto.createHash('sha256').update(stored).digest();
+    const actual = crypto.createHash('sha256').update(candidate).digest();
+    return crypto.timingSafeEqual(expected, actual);
+  }
+
+  const [salt, hash] = stored.slice(PASSWORD_HASH_PREFIX.length).split('$');
+  const expected = Buffer.from(hash || '', 'hex');
+  if (!salt || expected.length !== PASSWORD_KEY_LENGTH) {
+    return false;
+  }
+
+  const actual = await scrypt(candidate, salt, PASSWORD_KEY_LENGTH);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Short fingerprint of a stored password, used to tie password sessions
+ * to the current password so that rotating it logs visitors out
+ * @param {string} stored - Stored password hash
+ * @returns {string} Fingerprint
+ */
+function getPasswordFingerprint(stored) {
+  return crypto.createHash('sha256').update(String(stored)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Custom options as they may be shown to clients (password hash removed)
+ * @param {Object} customOptions - Stored custom options
+ * @returns {Object|null} Custom options safe to return in API responses
+ */
+function getPublicCustomOptions(customOptions) {
+  if (!customOptions || typeof customOptions !== 'object') {
+    return customOptions || null;
+  }
+
+  const { password, ...publicOptions } = customOptions;
+  if (password) {
+    publicOptions.passwordProtected = true;
+  }
+  return publicOptions;
+}
+
+/**
+ * Apply custom option fields from an update request to a link's stored custom options
+ * @param {Object} link - Link row from the database
+ * @param {Object} body - Request body; null or an empty string clears an option
+ * @param {Array<string>} fields - Custom option fields the request may change
+ * @returns {Object|undefined} New custom options, undefined when the body has none of the fields
+ */
+function mergeCustomOptions(link, body, fields) {
+  if (!fields.some(field => body[field] !== undefined)) {
+    return undefined;
+  }
+
+  const customOptions = link.custom_options ? JSON.parse(link.custom_options) : {};
+  for (const field of fields) {
+    if (body[field] === null || body[field] === '') {
+      delete customOptions[field];
+    } else if (body[field] !== undefined) {
+      customOptions[field] = body[field];
+    }
+  }
+
+  return customOptions;
+}
+
 module.exports = {
-  generateShortCode,
   isValidUrl,
+  requestPublicUrl,
+  normalizeUrl,
   sanitizeUrl,
+  addUtmParams,
+  appendQueryParams,
   getDomainFromUrl,
+  getShortUrl,
   formatNumber,
   getRelativeTime,
-  normalizeCustomOptions
+  normalizeCustomOptions,
+  isPasswordHash,
+  hashPassword,
+  verifyPassword,
+  getPasswordFingerprint,
+  getPublicCustomOptions,
+  mergeCustomOptions
 };
@@ -0,0 +1,179 @@
+/**
+ * Velink A/B Variants
+ * Splits a link's traffic across several destinations by weight. The chosen
+ * variant is remembered in a cookie so returning visitors see the same page.
+ *
+ * Variant format: { id: 'A', destination: 'https://example.com/a', weight: 50 }
+ */
+
+const crypto = require('crypto');
+const { isValidUrl } = require('./utils');
+const { LinkServiceError } = require('./link-service');
+
+const MAX_VARIANTS = 10;
+const MAX_WEIGHT = 1000;
+const VARIANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,20}$/;
+const VARIANT_COOKIE_PREFIX = 'velink_v_';
+const VARIANT_COOKIE_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Parse stored variants
+ * @param {string|null} value - JSON column value
+ * @returns {Array} Variants, empty when the link has no experiment
+ */
+function parseVariants(value) {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const variants = JSON.parse(value);
+    return Array.isArray(variants) ? variants : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Validate and normalize variants submitted through the API.
+ * Variants without an id get the next free letter (A, B, C, ...).
+ * @param {Array} variants - Submitted variants
+ * @returns {Array} Normalized variants
+ */
+function normalizeVariants(variants) {
+  if (variants === null || variants === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(variants)) {
+    throw new LinkServiceError('variants must be an array', 'INVALID_VARIANTS');
+  }
+
+  if (variants.length === 1 || variants.length > MAX_VARIANTS) {
+    throw new LinkServiceError(`An A/B test needs between 2 and ${MAX_VARIANTS} variants`, 'INVALID_VARIANTS');
+  }
+
+  const usedIds = new Set(variants.filter(variant => variant && variant.id).map(variant => String(variant.id)));
+  if (usedIds.size !== variants.filter(variant => variant && variant.id).length) {
+    throw new LinkServiceError('Variant ids must be unique', 'INVALID_VARIANTS');
+  }
+
+  const nextId = () => {
+    for (let i = 0; ; i++) {
+      const id = i < 26 ? String.fromCharCode(65 + i) : `V${i + 1}`;
+      if (!usedIds.has(id)) {
+        usedIds.add(id);
+        return id;
+      }
+    }
+  };
+
+  return variants.map((variant, index) => {
+    const fail = message => {
+      throw new LinkServiceError(`Variant ${index + 1}: ${message}`, 'INVALID_VARIANTS');
+    };
+
+    if (!variant || typeof variant !== 'object') {
+      fail('must be an object');
+    }
+
+    if (!isValidUrl(variant.destination)) {
+      fail('destination must be a valid URL with http:// or https://');
+    }
+
+    const weight = variant.weight === undefined ? 1 : Number(variant.weight);
+    if (!Number.isInteger(weight) || weight < 1 || weight > MAX_WEIGHT) {
+      fail(`weight must be a whole number between 1 and ${MAX_WEIGHT}`);
+    }
+
+    if (variant.id && !VARIANT_ID_PATTERN.test(String(variant.id))) {
+      fail('id may only contain letters, numbers, hyphens and underscores');
+    }
+
+    return {
+      id: variant.id ? String(variant.id) : nextId(),
+      destination: variant.destination,
+      weight
+    };
+  });
+}
+
+/**
+ * Read a single cookie from the request
+ * @param {Object} req - Express request
+ * @param {string} name - Cookie name
+ * @returns {string|undefined} Cookie value, undefined when missing or malformed
+ */
+function getCookie(req, name) {
+  const header = req.headers.cookie;
+  if (!header) {
+    return undefined;
+  }
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      try {
+        return decodeURIComponent(rest.join('='));
+      } catch (error) {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Pick a variant at random, proportionally to the weights
+ * @param {Array} variants - Normalized variants
+ * @returns {Object} Chosen variant
+ */
+function pickWeightedVariant(variants) {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let roll = crypto.randomInt(total);
+
+  for (const variant of variants) {
+    if (roll < variant.weight) {
+      return variant;
+    }
+    roll -= variant.weight;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Choose the variant for this visitor, reusing the one stored in their cookie
+ * when it still exists, and remember the choice
+ * @param {Object} link - Link row from the database
+ * @param {Object} req - Express request
+ * @param {Object} res - Express response
+ * @returns {Object|null} Chosen variant, or null when the link has no variants
+ */
+function selectVariant(link, req, res) {
+  const variants = parseVariants(link.variants);
+  if (variants.length === 0) {
+    return null;
+  }
+
+  const cookieName = `${VARIANT_COOKIE_PREFIX}${link.short_code}`;
+  const remembered = getCookie(req, cookieName);
+  const existing = variants.find(variant => variant.id === remembered);
+  if (existing) {
+    return existing;
+  }
+
+  const variant = pickWeightedVariant(variants);
+  res.cookie(cookieName, variant.id, {
+    maxAge: VARIANT_COOKIE_MAX_AGE,
+    httpOnly: true,
+    sameSite: 'lax',
+    path: `/${link.short_code}`
+  });
+  return variant;
+}
+
+module.exports = {
+  parseVariants,
+  normalizeVariants,
+  selectVariant
+};
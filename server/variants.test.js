@@ -0,0 +1,79 @@
+const { test } = require('node:test');
+const assert = require('node:assert');
+const { normalizeVariants, selectVariant } = require('./variants');
+
+/**
+ * Build a request carrying the given cookie header
+ * @param {string} [cookie] - Cookie header
+ * @returns {Object} Request stand-in
+ */
+function request(cookie) {
+  return { headers: cookie ? { cookie } : {} };
+}
+
+/**
+ * Build a response that records the cookies it is asked to set
+ * @returns {Object} Response stand-in with a cookies array
+ */
+function response() {
+  const cookies = [];
+  return { cookies, cookie: (name, value, options) => cookies.push({ name, value, options }) };
+}
+
+const link = {
+  short_code: 'abtest',
+  variants: JSON.stringify(normalizeVariants([
+    { destination: 'https://example.com/a', weight: 1 },
+    { destination: 'https://example.com/b', weight: 3 }
+  ]))
+};
+
+test('variants without ids are numbered A, B, ... and weigh 1 by default', () => {
+  const variants = normalizeVariants([
+    { destination: 'https://example.com/a' },
+    { id: 'A', destination: 'https://example.com/b', weight: 2 }
+  ]);
+
+  assert.deepStrictEqual(variants.map(variant => [variant.id, variant.weight]), [['B', 1], ['A', 2]]);
+});
+
+test('a new visitor gets a variant and a cookie scoped to the link', () => {
+  const res = response();
+  const variant = selectVariant(link, request(), res);
+
+  assert.ok(['A', 'B'].includes(variant.id));
+  assert.strictEqual(res.cookies.length, 1);
+  assert.strictEqual(res.cookies[0].value, variant.id);
+  assert.strictEqual(res.cookies[0].options.path, '/abtest');
+});
+
+test('returning visitors keep their variant', () => {
+  const res = response();
+  for (let i = 0; i < 20; i++) {
+    const variant = selectVariant(link, request('other=1; velink_v_abtest=A'), res);
+    assert.strictEqual(variant.id, 'A');
+  }
+  assert.strictEqual(res.cookies.length, 0);
+});
+
+test('a cookie naming a removed variant gets a new one', () => {
+  const res = response();
+  const variant = selectVariant(link, request('velink_v_abtest=Z'), res);
+
+  assert.ok(['A', 'B'].includes(variant.id));
+  assert.strictEqual(res.cookies.length, 1);
+});
+
+test('traffic is split by weight', () => {
+  const counts = { A: 0, B: 0 };
+  for (let i = 0; i < 4000; i++) {
+    counts[selectVariant(link, request(), response()).id]++;
+  }
+
+  // Expected 1000 and 3000; the margin keeps the test from ever flaking
+  assert.ok(counts.A > 700 && counts.A < 1300, `A was picked ${counts.A} times`);
+});
+
+test('links without variants are not split', () => {
+  assert.strictEqual(selectVariant({ short_code: 'plain', variants: null }, request(), response()), null);
+});